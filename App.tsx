@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Layout } from './components/Layout';
 import { CharacterTab } from './components/CharacterTab';
 import { SceneTab } from './components/SceneTab';
@@ -6,63 +6,291 @@ import { StoryboardTab } from './components/StoryboardTab';
 import { SettingsTab } from './components/SettingsTab';
 import { ScriptTab } from './components/ScriptTab';
 import { AudioTab } from './components/AudioTab';
-import { AppTab, Character, Scene, StoryboardFrame } from './types';
+import { TimelineTab } from './components/TimelineTab';
+import { ProjectPicker } from './components/ProjectPicker';
+import { AppTab, AudioMix, Character, OutputFormat, Project, Scene, StoryboardFrame, StyleGuide } from './types';
+import {
+  createEmptyProject,
+  getLastProjectId,
+  listProjects,
+  loadProject,
+  saveProject,
+  setLastProjectId,
+} from './services/projectStore';
+import { cancelAllJobs } from './services/jobQueue';
+import { loadProjectUsage, useProjectUsage } from './services/usageTracker';
+import { DEFAULT_STYLE_GUIDE, isSameStyle } from './services/styleGuide';
+import { DEFAULT_OUTPUT_FORMAT } from './services/outputFormat';
+import { DEFAULT_NARRATOR_VOICE } from './services/voices';
+import { DEFAULT_AUDIO_MIX } from './services/audioMix';
+import { Loader2 } from 'lucide-react';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+type ProjectMeta = Pick<Project, 'id' | 'name' | 'createdAt' | 'updatedAt'>;
 
-// Initial Empty State
 const App: React.FC = () => {
   // Default to SCRIPT tab (Step 1)
   const [activeTab, setActiveTab] = useState<AppTab>(AppTab.SCRIPT);
-  
+
   // App State
   const [characters, setCharacters] = useState<Character[]>([]);
   const [scenes, setScenes] = useState<Scene[]>([]);
   const [script, setScript] = useState<string>('');
   const [frames, setFrames] = useState<StoryboardFrame[]>([]);
-  
+  const [styleGuide, setStyleGuide] = useState<StyleGuide>(DEFAULT_STYLE_GUIDE);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
+  const [narratorVoice, setNarratorVoice] = useState(DEFAULT_NARRATOR_VOICE);
+  const [mix, setMix] = useState<AudioMix>(DEFAULT_AUDIO_MIX);
+  const usage = useProjectUsage();
+
+  // Project State
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [showProjectPicker, setShowProjectPicker] = useState(false);
+
+  // Skip the autosave triggered by loading a project into state
+  const skipNextSaveRef = useRef(false);
+  // Chain saves so an older snapshot can never land after a newer one
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const initStartedRef = useRef(false);
+
+  const applyProject = (project: Project) => {
+    // Queued jobs belong to the project being closed
+    cancelAllJobs();
+    loadProjectUsage(project.usage, project.budget);
+    skipNextSaveRef.current = true;
+    setProjectMeta({
+      id: project.id,
+      name: project.name,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+    });
+    setCharacters(project.characters);
+    setScenes(project.scenes);
+    setScript(project.script);
+    setFrames(project.frames);
+    setStyleGuide(project.styleGuide);
+    setOutputFormat(project.outputFormat);
+    setNarratorVoice(project.narratorVoice);
+    setMix(project.mix);
+    setLastProjectId(project.id);
+  };
+
+  const persist = (): Promise<void> => {
+    if (!projectMeta) return saveQueueRef.current;
+
+    const project: Project = {
+      ...projectMeta,
+      updatedAt: Date.now(),
+      characters,
+      scenes,
+      script,
+      frames,
+      usage: usage.records,
+      budget: usage.budget,
+      styleGuide,
+      outputFormat,
+      narratorVoice,
+      mix,
+    };
+
+    setSaveStatus('saving');
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => saveProject(project))
+      .then(() => setSaveStatus('saved'))
+      .catch(e => {
+        console.error("Autosave failed", e);
+        setSaveStatus('error');
+      });
+    return saveQueueRef.current;
+  };
+
+  // Images made under the old look are flagged so they can be regenerated
+  const handleStyleGuideChange = (next: StyleGuide) => {
+    const changed = !isSameStyle(styleGuide, next);
+    setStyleGuide(next);
+    if (!changed) return;
+    setCharacters(prev => prev.map(c => c.imageUrl ? { ...c, styleStale: true } : c));
+    setScenes(prev => prev.map(s => ({
+      ...s,
+      styleStale: s.imageUrl ? true : s.styleStale,
+      gridStyleStale: s.gridUrl ? true : s.gridStyleStale,
+    })));
+    setFrames(prev => prev.map(f => f.generatedImageUrl ? { ...f, styleStale: true } : f));
+  };
+
+  const startNewProject = async (name?: string) => {
+    const project = createEmptyProject(name);
+    await saveProject(project);
+    applyProject(project);
+    setActiveTab(AppTab.SCRIPT);
+    setShowProjectPicker(false);
+  };
+
+  const handleCreateProject = async (name: string) => {
+    // Flush pending edits (e.g. a rename) before leaving the current project
+    await persist();
+    await startNewProject(name);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    await persist();
+    const project = await loadProject(id);
+    if (!project) {
+      alert("项目不存在或已被删除。");
+      return;
+    }
+    applyProject(project);
+    setActiveTab(AppTab.SCRIPT);
+    setShowProjectPicker(false);
+  };
+
+  const handleProjectDeleted = async (id: string) => {
+    if (id !== projectMeta?.id) return;
+    // The open project is gone: fall back to the most recent one, or start fresh
+    const remaining = await listProjects();
+    if (remaining.length > 0) {
+      const project = await loadProject(remaining[0].id);
+      if (project) {
+        applyProject(project);
+        return;
+      }
+    }
+    await startNewProject();
+  };
+
+  const handleOpenPicker = async () => {
+    // Flush pending edits so the listing and duplicates reflect the current state
+    await persist();
+    setShowProjectPicker(true);
+  };
+
+  // Reopen the last project on load
+  useEffect(() => {
+    if (initStartedRef.current) return;
+    initStartedRef.current = true;
+
+    (async () => {
+      try {
+        const lastId = getLastProjectId();
+        const project = lastId ? await loadProject(lastId) : null;
+        if (project) {
+          applyProject(project);
+        } else {
+          await startNewProject();
+        }
+      } catch (e) {
+        console.error("Failed to open project storage", e);
+        // Storage unavailable (e.g. private mode): keep working in memory
+        applyProject(createEmptyProject());
+        setSaveStatus('error');
+      }
+    })();
+  }, []);
+
+  // Autosave (debounced)
+  useEffect(() => {
+    if (!projectMeta) return;
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    const timer = setTimeout(persist, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectMeta, characters, scenes, script, frames, styleGuide, outputFormat, narratorVoice, mix, usage.revision]);
+
+  if (!projectMeta) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-950 text-gray-500">
+        <Loader2 className="animate-spin mr-2" /> 正在加载项目...
+      </div>
+    );
+  }
+
   return (
-    <Layout activeTab={activeTab} setActiveTab={setActiveTab}>
+    <Layout
+        activeTab={activeTab}
+        setActiveTab={setActiveTab}
+        projectName={projectMeta.name}
+        saveStatus={saveStatus}
+        onOpenProjects={handleOpenPicker}
+    >
+      {showProjectPicker && (
+        <ProjectPicker
+            currentProjectId={projectMeta.id}
+            currentProjectName={projectMeta.name}
+            onOpen={handleOpenProject}
+            onCreate={handleCreateProject}
+            onRename={name => setProjectMeta(prev => prev ? { ...prev, name } : prev)}
+            onDeleted={handleProjectDeleted}
+            onClose={() => setShowProjectPicker(false)}
+        />
+      )}
+
       {activeTab === AppTab.SCRIPT && (
-        <ScriptTab 
+        <ScriptTab
             script={script}
             setScript={setScript}
             setCharacters={setCharacters}
             setScenes={setScenes}
             setFrames={setFrames}
             setActiveTab={setActiveTab}
+            styleGuide={styleGuide}
         />
       )}
 
       {activeTab === AppTab.CHARACTERS && (
-        <CharacterTab characters={characters} setCharacters={setCharacters} />
+        <CharacterTab characters={characters} setCharacters={setCharacters} frames={frames} styleGuide={styleGuide} />
       )}
-      
+
       {activeTab === AppTab.SCENES && (
-        <SceneTab scenes={scenes} setScenes={setScenes} />
+        <SceneTab scenes={scenes} setScenes={setScenes} styleGuide={styleGuide} outputFormat={outputFormat} />
       )}
-      
+
       {activeTab === AppTab.STORYBOARD && (
-        <StoryboardTab 
+        <StoryboardTab
             characters={characters}
             scenes={scenes}
             script={script}
             frames={frames}
             setFrames={setFrames}
+            styleGuide={styleGuide}
+            outputFormat={outputFormat}
         />
       )}
 
       {activeTab === AppTab.AUDIO && (
-        <AudioTab 
+        <AudioTab
             frames={frames}
             characters={characters}
             setFrames={setFrames}
+            setCharacters={setCharacters}
+            narratorVoice={narratorVoice}
+            onNarratorVoiceChange={setNarratorVoice}
+        />
+      )}
+
+      {activeTab === AppTab.TIMELINE && (
+        <TimelineTab
+            frames={frames}
+            setFrames={setFrames}
+            outputFormat={outputFormat}
+            mix={mix}
+            setMix={setMix}
         />
       )}
 
       {activeTab === AppTab.SETTINGS && (
-        <SettingsTab />
+        <SettingsTab
+            styleGuide={styleGuide}
+            onStyleGuideChange={handleStyleGuideChange}
+            outputFormat={outputFormat}
+            onOutputFormatChange={setOutputFormat}
+        />
       )}
     </Layout>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import {
+  GenerationJob,
+  JobStatus,
+  MAX_CONCURRENCY,
+  cancelAllJobs,
+  cancelBatch,
+  cancelJob,
+  clearFinishedJobs,
+  getConcurrency,
+  pauseAllJobs,
+  pauseBatch,
+  pauseJob,
+  resumeAllJobs,
+  resumeBatch,
+  resumeJob,
+  retryJob,
+  setConcurrency,
+  useJobQueue,
+} from '../services/jobQueue';
+import { Activity, ChevronDown, ChevronUp, Pause, Play, X, RotateCcw, Image as ImageIcon, Mic, Loader2, Trash2 } from 'lucide-react';
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: '排队中',
+  running: '生成中',
+  paused: '已暂停',
+  done: '完成',
+  error: '失败',
+  cancelled: '已取消',
+};
+
+const STATUS_COLORS: Record<JobStatus, string> = {
+  queued: 'text-gray-400',
+  running: 'text-purple-300',
+  paused: 'text-amber-400',
+  done: 'text-green-400',
+  error: 'text-red-400',
+  cancelled: 'text-gray-600',
+};
+
+const isActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+interface JobGroup {
+  batchId?: string;
+  label: string;
+  jobs: GenerationJob[];
+}
+
+// Batches keep their jobs together; single jobs form their own group
+const groupJobs = (jobs: GenerationJob[]): JobGroup[] => {
+  const groups: JobGroup[] = [];
+  jobs.forEach(job => {
+    const existing = job.batchId && groups.find(g => g.batchId === job.batchId);
+    if (existing) existing.jobs.push(job);
+    else groups.push({ batchId: job.batchId, label: job.batchLabel || job.label, jobs: [job] });
+  });
+  return groups;
+};
+
+const IconButton: React.FC<{ onClick: () => void; title: string; children: React.ReactNode }> = ({ onClick, title, children }) => (
+  <button onClick={onClick} title={title} className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-800">
+    {children}
+  </button>
+);
+
+/**
+ * Floating panel listing every generation job in the app queue. Rendered by
+ * Layout so it stays visible on every tab.
+ */
+export const ActivityPanel: React.FC = () => {
+  const jobs = useJobQueue();
+  const [expanded, setExpanded] = useState(false);
+
+  if (jobs.length === 0) return null;
+
+  const running = jobs.filter(j => j.status === 'running').length;
+  const queued = jobs.filter(j => j.status === 'queued').length;
+  const paused = jobs.filter(j => j.status === 'paused').length;
+  const failed = jobs.filter(j => j.status === 'error').length;
+  const finished = jobs.filter(j => !isActive(j) && j.status !== 'paused').length;
+
+  const renderJobControls = (job: GenerationJob) => (
+    <>
+      {isActive(job) && <IconButton onClick={() => pauseJob(job.id)} title="暂停"><Pause size={12} /></IconButton>}
+      {job.status === 'paused' && <IconButton onClick={() => resumeJob(job.id)} title="继续"><Play size={12} /></IconButton>}
+      {(job.status === 'error' || job.status === 'cancelled') && <IconButton onClick={() => retryJob(job.id)} title="重试"><RotateCcw size={12} /></IconButton>}
+      {(isActive(job) || job.status === 'paused') && <IconButton onClick={() => cancelJob(job.id)} title="取消"><X size={12} /></IconButton>}
+    </>
+  );
+
+  return (
+    <div className="absolute bottom-4 right-4 z-40 w-96 bg-gray-900/95 backdrop-blur border border-gray-700 rounded-xl shadow-2xl text-sm">
+      <button
+        onClick={() => setExpanded(e => !e)}
+        className="w-full px-4 py-3 flex items-center gap-3 text-left"
+      >
+        {running > 0 ? <Loader2 size={16} className="animate-spin text-purple-400" /> : <Activity size={16} className="text-gray-400" />}
+        <span className="flex-1 text-gray-200">
+          生成队列：{running} 进行中 · {queued} 排队
+          {paused > 0 && <span className="text-amber-400"> · {paused} 暂停</span>}
+          {failed > 0 && <span className="text-red-400"> · {failed} 失败</span>}
+        </span>
+        {expanded ? <ChevronDown size={16} className="text-gray-500" /> : <ChevronUp size={16} className="text-gray-500" />}
+      </button>
+
+      {expanded && (
+        <div className="border-t border-gray-800">
+          <div className="px-4 py-2 flex items-center gap-2 border-b border-gray-800 text-xs text-gray-400">
+            <span>并发数</span>
+            <select
+              value={getConcurrency()}
+              onChange={e => setConcurrency(Number(e.target.value))}
+              className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200 outline-none"
+            >
+              {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+            <div className="flex-1" />
+            <IconButton onClick={pauseAllJobs} title="全部暂停"><Pause size={14} /></IconButton>
+            <IconButton onClick={resumeAllJobs} title="全部继续"><Play size={14} /></IconButton>
+            <IconButton onClick={() => confirm('取消队列中所有任务？') && cancelAllJobs()} title="全部取消"><X size={14} /></IconButton>
+            {finished > 0 && <IconButton onClick={clearFinishedJobs} title="清除已结束的任务"><Trash2 size={14} /></IconButton>}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto p-2 space-y-2">
+            {groupJobs(jobs).map(group => {
+              if (!group.batchId) {
+                const job = group.jobs[0];
+                return (
+                  <div key={job.id} className="px-2 py-1.5 rounded-lg bg-gray-950/60">
+                    <div className="flex items-center gap-2">
+                      {job.kind === 'image' ? <ImageIcon size={12} className="text-gray-500" /> : <Mic size={12} className="text-gray-500" />}
+                      <span className="flex-1 truncate text-gray-300" title={job.label}>{job.label}</span>
+                      <span className={`text-xs ${STATUS_COLORS[job.status]}`}>{STATUS_LABELS[job.status]}</span>
+                      {renderJobControls(job)}
+                    </div>
+                    {job.status === 'error' && job.error && <p className="mt-1 text-xs text-red-400/80">{job.error}</p>}
+                  </div>
+                );
+              }
+
+              const done = group.jobs.filter(j => j.status === 'done').length;
+              const hasActive = group.jobs.some(isActive);
+              const hasPaused = group.jobs.some(j => j.status === 'paused');
+              return (
+                <div key={group.batchId} className="rounded-lg bg-gray-950/60 border border-gray-800">
+                  <div className="flex items-center gap-2 px-2 py-1.5">
+                    <span className="flex-1 truncate font-medium text-gray-200">{group.label}</span>
+                    <span className="text-xs text-gray-500">{done}/{group.jobs.length}</span>
+                    {hasActive && <IconButton onClick={() => pauseBatch(group.batchId!)} title="暂停本批"><Pause size={12} /></IconButton>}
+                    {hasPaused && <IconButton onClick={() => resumeBatch(group.batchId!)} title="继续本批"><Play size={12} /></IconButton>}
+                    {(hasActive || hasPaused) && <IconButton onClick={() => cancelBatch(group.batchId!)} title="取消本批"><X size={12} /></IconButton>}
+                  </div>
+                  <div className="h-1 bg-gray-800 mx-2 rounded-full overflow-hidden">
+                    <div className="h-full bg-purple-500 transition-all" style={{ width: `${(done / group.jobs.length) * 100}%` }} />
+                  </div>
+                  <div className="p-1 space-y-0.5">
+                    {group.jobs.map(job => (
+                      <div key={job.id} className="flex items-center gap-2 px-2 py-1 text-xs">
+                        <span className="flex-1 truncate text-gray-400" title={job.error || job.label}>{job.label}</span>
+                        <span className={STATUS_COLORS[job.status]}>{STATUS_LABELS[job.status]}</span>
+                        {renderJobControls(job)}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
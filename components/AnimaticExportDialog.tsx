@@ -0,0 +1,225 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { OutputFormat, StoryboardFrame } from '../types';
+import { AnimaticOptions, DEFAULT_ANIMATIC_OPTIONS, exportAnimatic } from '../services/animaticExporter';
+import { OUTPUT_FORMATS, getExportSize, getFormatLabel } from '../services/outputFormat';
+import { Film, X, Download, StopCircle } from 'lucide-react';
+
+interface AnimaticExportDialogProps {
+  frames: StoryboardFrame[];
+  outputFormat: OutputFormat;
+  onClose: () => void;
+}
+
+// Named by the shorter side, so 720p is 1280×720 landscape or 720×1280 portrait
+const RESOLUTIONS = [
+  { label: '720p', shortSide: 720 },
+  { label: '1080p', shortSide: 1080 },
+];
+
+export const AnimaticExportDialog: React.FC<AnimaticExportDialogProps> = ({ frames, outputFormat, onClose }) => {
+  const [options, setOptions] = useState<AnimaticOptions>(() => ({ ...DEFAULT_ANIMATIC_OPTIONS, ...getExportSize(outputFormat, RESOLUTIONS[0].shortSide) }));
+  // Another format exports the panels' reframed renditions instead of the main images
+  const [format, setFormat] = useState<OutputFormat>(outputFormat);
+  const [status, setStatus] = useState<'idle' | 'exporting' | 'done' | 'error'>('idle');
+  const [progress, setProgress] = useState(0);
+  const [message, setMessage] = useState('');
+  const [resultUrl, setResultUrl] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop recording and free the video if the dialog goes away
+  useEffect(() => () => {
+    abortRef.current?.abort();
+  }, []);
+  useEffect(() => () => {
+    if (resultUrl) URL.revokeObjectURL(resultUrl);
+  }, [resultUrl]);
+
+  const renditionFormats = OUTPUT_FORMATS.filter(f => f.id !== outputFormat && frames.some(frame => frame.renditions?.[f.id]));
+  const exportFrames = format === outputFormat
+    ? frames
+    : frames.map(f => ({ ...f, generatedImageUrl: f.renditions?.[format]?.imageUrl || f.generatedImageUrl }));
+  const missingImages = frames.filter(f => !f.generatedImageUrl).length;
+  const missingRenditions = format === outputFormat ? 0 : frames.filter(f => f.generatedImageUrl && !f.renditions?.[format]).length;
+
+  const handleFormatChange = (next: OutputFormat) => {
+    setFormat(next);
+    setOptions(prev => ({ ...prev, ...getExportSize(next, Math.min(prev.width, prev.height)) }));
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('exporting');
+    setProgress(0);
+    setResultUrl(null);
+
+    try {
+      const blob = await exportAnimatic(exportFrames, options, (p, msg) => {
+        setProgress(p);
+        setMessage(msg);
+      }, controller.signal);
+      setResultUrl(URL.createObjectURL(blob));
+      setStatus('done');
+    } catch (e: any) {
+      if (e?.name === 'AbortError') {
+        setStatus('idle');
+        setMessage('已取消导出。');
+      } else {
+        console.error(e);
+        setStatus('error');
+        setMessage(`导出失败：${e?.message || e}`);
+      }
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const isExporting = status === 'exporting';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-12">
+      <div className="bg-gray-900 w-full max-w-2xl max-h-[85vh] rounded-2xl border border-gray-700 shadow-2xl flex flex-col">
+        <div className="p-6 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2"><Film /> 导出动态分镜 (Animatic)</h2>
+            <p className="text-gray-400 text-sm">按顺序播放分镜画面并混入台词配音，生成 WebM 视频。</p>
+          </div>
+          <button onClick={onClose} disabled={isExporting} className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 disabled:opacity-30"><X /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {renditionFormats.length > 0 && (
+            <div>
+              <label className="block text-xs text-gray-500 font-bold uppercase mb-1">画幅</label>
+              <div className="flex flex-wrap gap-2">
+                {[outputFormat, ...renditionFormats.map(f => f.id)].map(id => (
+                  <button
+                    key={id}
+                    disabled={isExporting}
+                    onClick={() => handleFormatChange(id)}
+                    className={`px-3 py-1.5 rounded-lg text-sm border transition ${format === id ? 'bg-purple-900/40 text-purple-200 border-purple-500/50' : 'text-gray-400 border-gray-700 hover:bg-gray-800'}`}
+                  >
+                    {getFormatLabel(id)}{id === outputFormat ? ' (项目画幅)' : ' (画幅版本)'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs text-gray-500 font-bold uppercase mb-1">分辨率 ({getFormatLabel(format)})</label>
+              <select
+                disabled={isExporting}
+                className="w-full bg-gray-800 border border-gray-700 text-sm text-gray-300 rounded-lg p-2 outline-none"
+                value={Math.min(options.width, options.height)}
+                onChange={e => setOptions(prev => ({ ...prev, ...getExportSize(format, Number(e.target.value)) }))}
+              >
+                {RESOLUTIONS.map(r => {
+                  const size = getExportSize(format, r.shortSide);
+                  return <option key={r.label} value={r.shortSide}>{r.label} ({size.width}×{size.height})</option>;
+                })}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 font-bold uppercase mb-1">默认时长 (无配音且未设时长，秒)</label>
+              <input
+                type="number"
+                min={0.5}
+                step={0.5}
+                disabled={isExporting}
+                value={options.defaultDuration}
+                onChange={e => setOptions(prev => ({ ...prev, defaultDuration: Math.max(0.5, parseFloat(e.target.value) || 0.5) }))}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-sm text-white outline-none"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                disabled={isExporting}
+                checked={options.kenBurns}
+                onChange={e => setOptions(prev => ({ ...prev, kenBurns: e.target.checked }))}
+                className="accent-purple-500"
+              />
+              Ken Burns 推拉摇移
+            </label>
+            <div className="flex items-center gap-2 text-sm text-gray-300">
+              <span>转场时长</span>
+              <input
+                type="number"
+                min={0.1}
+                max={2}
+                step={0.1}
+                disabled={isExporting}
+                value={options.transitionDuration}
+                onChange={e => setOptions(prev => ({ ...prev, transitionDuration: Math.min(2, Math.max(0.1, parseFloat(e.target.value) || 0.1)) }))}
+                className="w-16 bg-gray-800 border border-gray-700 rounded p-1 text-xs text-white outline-none"
+              />
+              <span className="text-xs text-gray-500">s</span>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            每个画面的时长与转场 (硬切/黑场/叠化) 可在“时间线”中设置；未设置时长的画面按配音长度或默认时长播放。
+          </p>
+
+          {missingImages > 0 && (
+            <p className="text-xs text-amber-400">{missingImages} 个分镜尚未生成画面，将以占位帧导出。</p>
+          )}
+          {missingRenditions > 0 && (
+            <p className="text-xs text-amber-400">{missingRenditions} 个分镜没有 {getFormatLabel(format)} 版本，将裁切原画面导出。</p>
+          )}
+
+          {(isExporting || message) && (
+            <div className="space-y-2">
+              <div className="w-full h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-purple-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+              <p className={`text-xs ${status === 'error' ? 'text-red-400' : 'text-gray-400'}`}>{message}</p>
+              {isExporting && <p className="text-xs text-gray-600">导出为实时录制，请保持此页面在前台。</p>}
+            </div>
+          )}
+
+          {resultUrl && (
+            <video src={resultUrl} controls className="w-full rounded-lg border border-gray-800 bg-black" />
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex justify-end gap-3">
+          {isExporting ? (
+            <button
+              onClick={handleCancel}
+              className="px-6 py-2 bg-red-600 hover:bg-red-500 text-white rounded-lg flex items-center gap-2 text-sm font-bold"
+            >
+              <StopCircle size={16} /> 取消
+            </button>
+          ) : (
+            <>
+              {resultUrl && (
+                <a
+                  href={resultUrl}
+                  download="animatic.webm"
+                  className="px-6 py-2 bg-green-600 hover:bg-green-500 text-white rounded-lg flex items-center gap-2 text-sm font-bold"
+                >
+                  <Download size={16} /> 下载 WebM
+                </a>
+              )}
+              <button
+                onClick={handleExport}
+                disabled={frames.length === 0}
+                className="px-6 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg flex items-center gap-2 text-sm font-bold disabled:opacity-50"
+              >
+                <Film size={16} />
+                {resultUrl ? '重新导出' : '开始导出'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,95 +1,144 @@
-import React, { useState } from 'react';
-import { Character, StoryboardFrame } from '../types';
-import { generateSpeech } from '../services/geminiService';
-import { Play, Download, Mic, Loader2, Music, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Character, DialogueLine, LineDirection, StoryboardFrame } from '../types';
+import { generateDialogueSpeech, generateSpeech, suggestVoices } from '../services/geminiService';
+import { VoiceSuggestion, diffVoiceSuggestions, getCharacterVoice, getSampleLine, getVoiceLabel } from '../services/voices';
+import { VoicePicker } from './VoicePicker';
+import { NARRATOR_LABEL, SPEECH_RATES, SPEECH_VOLUMES, findSpeaker, formatDirection, getDialogueLines, getDirection, getLineTypeLabel, getSpeakerLabel, getSpokenLines, withDialogueLines } from '../services/dialogue';
+import { LineDirectionControls } from './LineDirectionControls';
+import { JobSpec, enqueueBatch, enqueueJob, isTargetBusy, useJobQueue } from '../services/jobQueue';
+import { formatErrorMessage } from '../services/aiErrors';
+import { confirmWithinBudget } from './UsagePanel';
+import { Play, Download, Mic, Loader2, Music, RefreshCw, Drama, Save, X, Sparkles } from 'lucide-react';
 
 interface AudioTabProps {
   frames: StoryboardFrame[];
   characters: Character[];
   setFrames: React.Dispatch<React.SetStateAction<StoryboardFrame[]>>;
+  setCharacters: React.Dispatch<React.SetStateAction<Character[]>>;
+  narratorVoice: string;
+  onNarratorVoiceChange: (voice: string) => void;
 }
 
-const VOICE_OPTIONS = [
-    { name: 'Kore (Female, Soothing)', id: 'Kore' },
-    { name: 'Puck (Male, Energetic)', id: 'Puck' },
-    { name: 'Fenrir (Male, Deep)', id: 'Fenrir' },
-    { name: 'Charon (Male, Deep)', id: 'Charon' },
-    { name: 'Zephyr (Female, Calm)', id: 'Zephyr' },
-];
-
-export const AudioTab: React.FC<AudioTabProps> = ({ frames, characters, setFrames }) => {
-    // Local state for mapping characters to voices
-    const [charVoiceMap, setCharVoiceMap] = useState<Record<string, string>>({});
-    const [generatingId, setGeneratingId] = useState<string | null>(null);
-    const [isBatchGenerating, setIsBatchGenerating] = useState(false);
-    const [progress, setProgress] = useState("");
+// Sample for auditioning the narrator
+const NARRATOR_SAMPLE = '很久以前，在一座被遗忘的城市里……';
+
+export const AudioTab: React.FC<AudioTabProps> = ({ frames, characters, setFrames, setCharacters, narratorVoice, onNarratorVoiceChange }) => {
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    // Line being re-auditioned, with the direction being tried out
+    const [audition, setAudition] = useState<{ frameId: string; lineId: string; direction: LineDirection } | null>(null);
+    const [auditionUrl, setAuditionUrl] = useState<string | null>(null);
+    const jobs = useJobQueue();
+
+    useEffect(() => () => {
+        if (auditionUrl) URL.revokeObjectURL(auditionUrl);
+    }, [auditionUrl]);
 
     // Filter frames that have dialogue
-    const dialogueFrames = frames.filter(f => f.dialogue && f.dialogue.trim().length > 0);
-
-    const getVoiceForFrame = (frame: StoryboardFrame) => {
-        const speakerName = frame.charactersPresent?.[0];
-        if (!speakerName) return 'Kore';
-        
-        const char = characters.find(c => c.name === speakerName);
-        if (char && charVoiceMap[char.id]) {
-            return charVoiceMap[char.id];
-        }
-        return 'Kore';
+    const dialogueFrames = frames.filter(f => getSpokenLines(f).length > 0);
+
+    // Narration and speakers missing from the cast use the narrator's voice
+    const getVoiceForLine = (line: DialogueLine) => {
+        const char = findSpeaker(line, characters);
+        return char ? getCharacterVoice(char) : narratorVoice;
     };
 
     const handleVoiceChange = (charId: string, voiceId: string) => {
-        setCharVoiceMap(prev => ({ ...prev, [charId]: voiceId }));
+        setCharacters(prev => prev.map(c => c.id === charId ? { ...c, defaultVoice: voiceId } : c));
     };
 
-    const handleGenerateAudio = async (frame: StoryboardFrame) => {
-        if (!frame.dialogue) return;
-        setGeneratingId(frame.id);
-        
+    const applySuggestions = (suggestions: VoiceSuggestion[]) => {
+        setCharacters(prev => prev.map(c => {
+            const suggestion = suggestions.find(s => s.characterId === c.id);
+            return suggestion ? { ...c, defaultVoice: suggestion.voiceName } : c;
+        }));
+    };
+
+    const handleSuggestVoices = async () => {
+        if (characters.length === 0) return;
+        setIsSuggesting(true);
         try {
-            const voice = getVoiceForFrame(frame);
-            const wavUrl = await generateSpeech(frame.dialogue, voice);
-            
-            setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, audioUrl: wavUrl } : f));
+            const suggestions = await suggestVoices(characters);
+            if (suggestions.length === 0) {
+                alert("AI 没有给出可用的音色推荐。");
+                return;
+            }
+            const changes = diffVoiceSuggestions(suggestions, characters);
+            if (changes.length === 0) {
+                alert("AI 推荐的音色与当前设置一致。");
+                return;
+            }
+            const summary = changes.map(c =>
+                `${c.characterName}：${getVoiceLabel(c.currentVoice)} → ${getVoiceLabel(c.voiceName)}${c.reason ? `\n   ${c.reason}` : ""}`
+            ).join("\n");
+            if (confirm(`AI 推荐的音色：\n\n${summary}\n\n应用这些音色？`)) applySuggestions(changes);
         } catch (e) {
-            console.error(e);
-            alert("配音生成失败，请重试");
+            alert(formatErrorMessage("音色推荐失败", e));
         } finally {
-            setGeneratingId(null);
+            setIsSuggesting(false);
         }
     };
 
-    const handleGenerateAllAudio = async () => {
-        setIsBatchGenerating(true);
-        let count = 0;
-        
-        for (const frame of dialogueFrames) {
-            // Force regeneration or skip? Usually batch skips existing. 
-            // Users can manually regenerate specific ones.
-            if (frame.audioUrl) continue; 
-            
-            count++;
-            setProgress(`${count} / ${dialogueFrames.filter(f => !f.audioUrl).length}`);
-            setGeneratingId(frame.id); 
-
-            try {
-                const voice = getVoiceForFrame(frame);
-                const wavUrl = await generateSpeech(frame.dialogue!, voice);
-                
-                setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, audioUrl: wavUrl } : f));
-                
-                // Small delay to prevent rate limiting
-                await new Promise(r => setTimeout(r, 500));
-            } catch (e) {
-                console.error(`Failed audio for frame ${frame.panelNumber}`, e);
-            }
-        }
-        
-        setIsBatchGenerating(false);
-        setGeneratingId(null);
-        setProgress("");
+    const buildAudioJob = (frame: StoryboardFrame): JobSpec<string> => {
+        const lines = getSpokenLines(frame).map(line => ({
+            speaker: getSpeakerLabel(line),
+            text: line.text,
+            voiceName: getVoiceForLine(line),
+            style: formatDirection(line),
+        }));
+        return {
+            kind: 'speech',
+            label: `配音 #${frame.panelNumber}`,
+            targetId: frame.id,
+            task: () => generateDialogueSpeech(lines),
+            onSuccess: wavUrl => setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, audioUrl: wavUrl } : f)),
+        };
+    };
+
+    const handleGenerateAudio = (frame: StoryboardFrame) => {
+        if (getSpokenLines(frame).length === 0) return;
+        enqueueJob({ ...buildAudioJob(frame), onError: e => alert(formatErrorMessage("配音生成失败", e)) });
+    };
+
+    const handleGenerateAllAudio = () => {
+        // Batch skips existing clips; users can regenerate specific ones manually
+        const targets = dialogueFrames.filter(f => !f.audioUrl && !isTargetBusy(jobs, f.id, 'speech'));
+        if (targets.length === 0) return;
+        if (!confirmWithinBudget('speech', targets.length)) return;
+        enqueueBatch('批量生成配音', targets.map(buildAudioJob));
     };
 
+    const openAudition = (frame: StoryboardFrame, line: DialogueLine) => {
+        setAudition({ frameId: frame.id, lineId: line.id, direction: getDirection(line) });
+        setAuditionUrl(null);
+    };
+
+    // Voices just this line with the draft direction and plays it right away
+    const handleAudition = (frame: StoryboardFrame, line: DialogueLine, direction: LineDirection) => {
+        enqueueJob<string>({
+            kind: 'speech',
+            label: `试听 #${frame.panelNumber} ${getSpeakerLabel(line)}`,
+            targetId: line.id,
+            task: () => generateSpeech(line.text, getVoiceForLine(line), formatDirection({ ...line, ...direction })),
+            onSuccess: url => {
+                setAuditionUrl(url);
+                handlePlay(url);
+            },
+            onError: e => alert(formatErrorMessage("试听失败", e)),
+        });
+    };
+
+    // The panel clip was voiced with the old direction, so it is dropped
+    const handleSaveDirection = (frame: StoryboardFrame, line: DialogueLine, direction: LineDirection) => {
+        setFrames(prev => prev.map(f => {
+            if (f.id !== frame.id) return f;
+            const lines = getDialogueLines(f).map(l => l.id === line.id ? { ...l, ...direction } : l);
+            return { ...f, ...withDialogueLines(lines), audioUrl: undefined };
+        }));
+        setAudition(null);
+    };
+
+    const pendingCount = dialogueFrames.filter(f => isTargetBusy(jobs, f.id, 'speech')).length;
+
     const handlePlay = (url: string) => {
         const audio = new Audio(url);
         audio.play();
@@ -103,6 +152,21 @@ export const AudioTab: React.FC<AudioTabProps> = ({ frames, characters, setFrame
                     <Mic className="text-purple-500" /> 配音设置
                 </h2>
                 <div className="space-y-4">
+                    <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+                        <div className="flex items-center gap-3 mb-2">
+                            <div className="w-8 h-8 rounded-full bg-gray-800 flex items-center justify-center text-gray-500">
+                                <Mic size={14} />
+                            </div>
+                            <span className="text-sm font-medium text-gray-200">{NARRATOR_LABEL}</span>
+                        </div>
+                        <VoicePicker
+                            voice={narratorVoice}
+                            onChange={onNarratorVoiceChange}
+                            sampleText={NARRATOR_SAMPLE}
+                            auditionId="voice:narrator"
+                        />
+                        <p className="text-[10px] text-gray-600 mt-2">也用于未在角色列表中的说话人</p>
+                    </div>
                     {characters.map(char => (
                         <div key={char.id} className="bg-gray-950 p-4 rounded-xl border border-gray-800">
                             <div className="flex items-center gap-3 mb-2">
@@ -111,19 +175,25 @@ export const AudioTab: React.FC<AudioTabProps> = ({ frames, characters, setFrame
                                 </div>
                                 <span className="text-sm font-medium text-gray-200">{char.name}</span>
                             </div>
-                            <select 
-                                className="w-full bg-gray-900 border border-gray-700 text-xs text-gray-300 rounded p-2 outline-none"
-                                value={charVoiceMap[char.id] || 'Kore'}
-                                onChange={(e) => handleVoiceChange(char.id, e.target.value)}
-                            >
-                                {VOICE_OPTIONS.map(v => (
-                                    <option key={v.id} value={v.id}>{v.name}</option>
-                                ))}
-                            </select>
+                            <VoicePicker
+                                voice={getCharacterVoice(char)}
+                                onChange={voice => handleVoiceChange(char.id, voice)}
+                                sampleText={getSampleLine(char, frames)}
+                                auditionId={`voice:${char.id}`}
+                            />
                         </div>
                     ))}
-                    {characters.length === 0 && (
+                    {characters.length === 0 ? (
                         <p className="text-gray-500 text-sm">暂无角色，请先创建角色。</p>
+                    ) : (
+                        <button
+                            onClick={handleSuggestVoices}
+                            disabled={isSuggesting}
+                            className="w-full py-2 bg-gray-800 hover:bg-gray-700 text-purple-300 border border-purple-500/30 rounded-lg text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            {isSuggesting ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+                            AI 按角色设定推荐音色
+                        </button>
                     )}
                 </div>
             </div>
@@ -136,13 +206,12 @@ export const AudioTab: React.FC<AudioTabProps> = ({ frames, characters, setFrame
                         {dialogueFrames.length > 0 && (
                             <button 
                                 onClick={handleGenerateAllAudio}
-                                disabled={isBatchGenerating}
                                 className="px-6 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg flex items-center gap-2 text-sm font-bold shadow-lg disabled:opacity-50"
                             >
-                                {isBatchGenerating ? (
+                                {pendingCount > 0 ? (
                                     <>
                                         <RefreshCw size={16} className="animate-spin" />
-                                        生成中 {progress}
+                                        队列中 {pendingCount} 条
                                     </>
                                 ) : (
                                     <>
@@ -154,19 +223,83 @@ export const AudioTab: React.FC<AudioTabProps> = ({ frames, characters, setFrame
                         )}
                     </div>
                     
-                    {dialogueFrames.map(frame => (
+                    {dialogueFrames.map(frame => {
+                        const isBusy = isTargetBusy(jobs, frame.id, 'speech');
+                        return (
                         <div key={frame.id} className="bg-gray-900 rounded-xl border border-gray-800 p-6 flex gap-6 items-center hover:border-purple-500/30 transition">
                             <div className="w-12 h-12 bg-gray-800 rounded-lg flex items-center justify-center text-gray-500 font-bold text-lg">
                                 {frame.panelNumber}
                             </div>
 
-                            <div className="flex-1">
-                                <p className="text-xs text-gray-500 mb-1">
-                                    {frame.charactersPresent.join(', ') || '旁白'}
-                                </p>
-                                <p className="text-lg text-gray-200 font-medium">
-                                    “{frame.dialogue}”
-                                </p>
+                            <div className="flex-1 space-y-3">
+                                {getSpokenLines(frame).map(line => {
+                                    const isCast = !line.speaker || !!findSpeaker(line, characters);
+                                    const isAuditioning = audition?.frameId === frame.id && audition.lineId === line.id;
+                                    const isAuditionBusy = isTargetBusy(jobs, line.id, 'speech');
+                                    return (
+                                    <div key={line.id} className="group/line">
+                                        <p className="text-xs text-gray-500 mb-1 flex flex-wrap items-center gap-2">
+                                            <span className={isCast ? 'text-gray-300' : 'text-amber-400'} title={isCast ? undefined : '不在角色列表中，使用旁白声音'}>
+                                                {getSpeakerLabel(line)}
+                                            </span>
+                                            <span className="text-gray-600">{getVoiceForLine(line)}</span>
+                                            {line.type !== 'dialogue' && (
+                                                <span className="px-1.5 rounded bg-gray-800 text-gray-400">{getLineTypeLabel(line.type)}</span>
+                                            )}
+                                            {line.emotion && (
+                                                <span className="px-1.5 rounded bg-purple-900/30 text-purple-300">{line.emotion}{line.intensity ? ` ${line.intensity}` : ''}</span>
+                                            )}
+                                            {line.rate && <span className="px-1.5 rounded bg-gray-800 text-gray-400">{SPEECH_RATES.find(r => r.id === line.rate)?.label}</span>}
+                                            {line.volume && <span className="px-1.5 rounded bg-gray-800 text-gray-400">{SPEECH_VOLUMES.find(v => v.id === line.volume)?.label}</span>}
+                                            {line.actingNote && <span className="text-gray-500 italic truncate max-w-[16rem]" title={line.actingNote}>{line.actingNote}</span>}
+                                            {!isAuditioning && (
+                                                <button
+                                                    onClick={() => openAudition(frame, line)}
+                                                    className="ml-auto flex items-center gap-1 text-gray-500 hover:text-purple-300 opacity-0 group-hover/line:opacity-100 transition"
+                                                    title="换一种演绎方式试听这句台词"
+                                                >
+                                                    <Drama size={12} /> 试演
+                                                </button>
+                                            )}
+                                        </p>
+                                        <p className={`text-lg text-gray-200 font-medium ${line.type === 'monologue' ? 'italic' : ''}`}>
+                                            “{line.text}”
+                                        </p>
+                                        {isAuditioning && (
+                                            <div className="mt-2 p-3 rounded-lg bg-gray-950 border border-purple-500/30 space-y-2">
+                                                <LineDirectionControls
+                                                    direction={audition.direction}
+                                                    onChange={updates => setAudition({ ...audition, direction: { ...audition.direction, ...updates } })}
+                                                />
+                                                <div className="flex items-center gap-2">
+                                                    <button
+                                                        onClick={() => handleAudition(frame, line, audition.direction)}
+                                                        disabled={isAuditionBusy}
+                                                        className="px-3 py-1 bg-purple-600 hover:bg-purple-500 text-white rounded text-xs font-bold flex items-center gap-1 disabled:opacity-50"
+                                                    >
+                                                        {isAuditionBusy ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} fill="currentColor" />} 试听
+                                                    </button>
+                                                    {auditionUrl && !isAuditionBusy && (
+                                                        <button onClick={() => handlePlay(auditionUrl)} className="px-3 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded text-xs flex items-center gap-1">
+                                                            <RefreshCw size={12} /> 重播
+                                                        </button>
+                                                    )}
+                                                    <button
+                                                        onClick={() => handleSaveDirection(frame, line, audition.direction)}
+                                                        className="px-3 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded text-xs flex items-center gap-1"
+                                                        title="保存后需重新生成本镜配音"
+                                                    >
+                                                        <Save size={12} /> 保存演绎
+                                                    </button>
+                                                    <button onClick={() => setAudition(null)} className="ml-auto p-1 text-gray-500 hover:text-white" title="关闭">
+                                                        <X size={14} />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                    );
+                                })}
                             </div>
 
                             <div className="flex items-center gap-2">
@@ -181,11 +314,11 @@ export const AudioTab: React.FC<AudioTabProps> = ({ frames, characters, setFrame
                                         </button>
                                         <button 
                                             onClick={() => handleGenerateAudio(frame)}
-                                            disabled={generatingId === frame.id}
+                                            disabled={isBusy}
                                             className="w-10 h-10 rounded-full bg-gray-800 hover:bg-gray-700 text-gray-300 flex items-center justify-center transition border border-gray-700"
                                             title="重新生成"
                                         >
-                                           {generatingId === frame.id ? <Loader2 size={16} className="animate-spin"/> : <RefreshCw size={16} />}
+                                           {isBusy ? <Loader2 size={16} className="animate-spin"/> : <RefreshCw size={16} />}
                                         </button>
                                         <a 
                                             href={frame.audioUrl} 
@@ -199,10 +332,10 @@ export const AudioTab: React.FC<AudioTabProps> = ({ frames, characters, setFrame
                                 ) : (
                                     <button 
                                         onClick={() => handleGenerateAudio(frame)}
-                                        disabled={generatingId === frame.id || isBatchGenerating}
+                                        disabled={isBusy}
                                         className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white rounded-lg text-sm font-medium flex items-center gap-2 transition disabled:opacity-50"
                                     >
-                                        {generatingId === frame.id ? (
+                                        {isBusy ? (
                                             <Loader2 size={16} className="animate-spin" />
                                         ) : (
                                             <Music size={16} />
@@ -212,7 +345,8 @@ export const AudioTab: React.FC<AudioTabProps> = ({ frames, characters, setFrame
                                 )}
                             </div>
                         </div>
-                    ))}
+                        );
+                    })}
                     
                     {dialogueFrames.length === 0 && (
                         <div className="text-center text-gray-500 mt-20">
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { ImageVersion } from '../types';
+import { CheckCircle, Trash2, Sparkles } from 'lucide-react';
+
+interface CandidatePickerProps {
+  candidates: ImageVersion[];
+  onPick: (versionId: string, keepOthers: boolean) => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Grid of freshly generated candidates. The artist picks the winner and
+ * decides whether the rest go to the history or are thrown away.
+ */
+export const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, onPick, onDiscard }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const handleDiscard = () => {
+    if (!confirm(`放弃全部 ${candidates.length} 张候选图？`)) return;
+    onDiscard();
+  };
+
+  return (
+    <div className="bg-gray-950 border border-purple-500/40 rounded-xl p-3 space-y-3">
+      <div className="flex items-center gap-2 text-xs">
+        <Sparkles size={14} className="text-purple-400" />
+        <span className="font-bold text-purple-200">{candidates.length} 张候选图，请选择一张</span>
+        <div className="flex-1" />
+        <button onClick={handleDiscard} className="text-gray-500 hover:text-red-400 flex items-center gap-1">
+          <Trash2 size={12} /> 全部放弃
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {candidates.map((candidate, i) => (
+          <button
+            key={candidate.id}
+            onClick={() => setSelectedId(candidate.id)}
+            onDoubleClick={() => onPick(candidate.id, true)}
+            className={`relative rounded-lg overflow-hidden border-2 bg-black transition ${selectedId === candidate.id ? 'border-purple-500' : 'border-gray-800 hover:border-gray-600'}`}
+            title="单击选中，双击直接选用"
+          >
+            <img src={candidate.imageUrl} className="w-full h-full object-contain" alt={`Candidate ${i + 1}`} />
+            <span className="absolute top-1 left-1 px-1.5 rounded bg-black/70 text-[10px] text-white">{i + 1}</span>
+            {selectedId === candidate.id && <CheckCircle size={18} className="absolute top-1 right-1 text-purple-400" />}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => selectedId && onPick(selectedId, true)}
+          disabled={!selectedId}
+          className="flex-1 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-xs font-bold disabled:opacity-40"
+        >
+          选用，其余保留到历史
+        </button>
+        <button
+          onClick={() => selectedId && onPick(selectedId, false)}
+          disabled={!selectedId}
+          className="flex-1 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg text-xs font-bold disabled:opacity-40"
+        >
+          选用，丢弃其余
+        </button>
+      </div>
+    </div>
+  );
+};
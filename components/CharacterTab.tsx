@@ -1,24 +1,38 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Character } from '../types';
-import { generateImage, constructCharacterPrompt } from '../services/geminiService';
-import { Plus, Trash2, RefreshCw, Save, Sparkles, Users, Play, Download, Upload, Book, X, Copy } from 'lucide-react';
+import { Character, ImageHistory, ImageVersion, StoryboardFrame, StyleGuide } from '../types';
+import { editImageVersion, generateImageCandidates, constructCharacterPrompt, suggestVoices } from '../services/geminiService';
+import { getImageCandidateCount } from '../services/providers';
+import { UPLOAD_MODEL, addVersions, createVersion, getActiveVersion, getEditBase, pickCandidate, removeVersion, setActiveVersion } from '../services/imageHistory';
+import { JobSpec, enqueueBatch, enqueueJob, isTargetBusy, useJobQueue } from '../services/jobQueue';
+import { formatErrorMessage } from '../services/aiErrors';
+import { confirmWithinBudget } from './UsagePanel';
+import { DEFAULT_VOICE, getCharacterVoice, getSampleLine, getVoiceLabel } from '../services/voices';
+import { VersionFilmstrip } from './VersionFilmstrip';
+import { CandidatePicker } from './CandidatePicker';
+import { ImageEditDialog } from './ImageEditDialog';
+import { StyleStaleBadge } from './StyleStaleBadge';
+import { VoicePicker } from './VoicePicker';
+import { Plus, Trash2, RefreshCw, Save, Sparkles, Users, Play, Download, Upload, Book, X, Copy, Wand2, Loader2 } from 'lucide-react';
 
 interface CharacterTabProps {
   characters: Character[];
   setCharacters: React.Dispatch<React.SetStateAction<Character[]>>;
+  frames: StoryboardFrame[]; // For audition lines in the character's own words
+  styleGuide: StyleGuide;
 }
 
-export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setCharacters }) => {
+export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setCharacters, frames, styleGuide }) => {
   const [selectedId, setSelectedId] = useState<string | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [isGeneratingAll, setIsGeneratingAll] = useState(false);
-  const [progress, setProgress] = useState("");
+  const jobs = useJobQueue();
   const [editForm, setEditForm] = useState<Partial<Character>>({
     name: '',
     description: '',
     visualPrompt: '',
   });
 
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [isSuggestingVoice, setIsSuggestingVoice] = useState(false);
+
   // Library State
   const [showLibrary, setShowLibrary] = useState(false);
   const [library, setLibrary] = useState<Character[]>([]);
@@ -38,6 +52,30 @@ export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setChara
     }
   }, []);
 
+  // Generation jobs finish in the background; reflect new images in the open form
+  useEffect(() => {
+    const selected = characters.find(c => c.id === selectedId);
+    if (selected && (
+      selected.imageUrl !== editForm.imageUrl ||
+      selected.imageHistory !== editForm.imageHistory ||
+      selected.candidates !== editForm.candidates ||
+      selected.styleStale !== editForm.styleStale ||
+      selected.defaultVoice !== editForm.defaultVoice
+    )) {
+      setEditForm(prev => ({
+        ...prev,
+        imageUrl: selected.imageUrl,
+        imageHistory: selected.imageHistory,
+        candidates: selected.candidates,
+        styleStale: selected.styleStale,
+        defaultVoice: selected.defaultVoice,
+      }));
+    }
+  }, [characters]);
+
+  const isGenerating = !!selectedId && isTargetBusy(jobs, selectedId);
+  const pendingCount = characters.filter(c => isTargetBusy(jobs, c.id)).length;
+
   const handleSelect = (char: Character) => {
     setSelectedId(char.id);
     setEditForm(char);
@@ -65,6 +103,37 @@ export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setChara
     alert("角色信息已更新。");
   };
 
+  // Casting applies right away, like the voice pickers in the audio tab
+  const handleVoiceChange = (voice: string) => {
+    setEditForm(prev => ({ ...prev, defaultVoice: voice }));
+    setCharacters(prev => prev.map(c => c.id === selectedId ? { ...c, defaultVoice: voice } : c));
+  };
+
+  const handleSuggestVoice = async () => {
+    const selected = characters.find(c => c.id === selectedId);
+    if (!selected) return;
+    // Unsaved edits to the description count too
+    const draft = { ...selected, ...editForm } as Character;
+    setIsSuggestingVoice(true);
+    try {
+      const [suggestion] = await suggestVoices([draft]);
+      if (!suggestion) {
+        alert("AI 没有给出可用的音色推荐。");
+        return;
+      }
+      if (suggestion.voiceName === getCharacterVoice(draft)) {
+        alert(`AI 认为当前音色 ${getVoiceLabel(suggestion.voiceName)} 已经合适。`);
+        return;
+      }
+      const reason = suggestion.reason ? `\n${suggestion.reason}` : "";
+      if (confirm(`AI 推荐的音色：${getVoiceLabel(suggestion.voiceName)}${reason}\n\n应用这个音色？`)) handleVoiceChange(suggestion.voiceName);
+    } catch (e) {
+      alert(formatErrorMessage("音色推荐失败", e));
+    } finally {
+      setIsSuggestingVoice(false);
+    }
+  };
+
   const handleSaveToLibrary = () => {
     if (!editForm.name) return;
     
@@ -75,6 +144,7 @@ export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setChara
         description: editForm.description || "",
         visualPrompt: editForm.visualPrompt || "",
         imageUrl: editForm.imageUrl || "",
+        defaultVoice: editForm.defaultVoice,
     };
 
     const newLib = [charToSave, ...library];
@@ -117,77 +187,105 @@ export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setChara
       const reader = new FileReader();
       reader.onloadend = () => {
           const base64 = reader.result as string;
-          // Update Form
-          setEditForm(prev => ({ ...prev, imageUrl: base64 }));
-          // Update List
-          setCharacters(prev => prev.map(c => c.id === selectedId ? { ...c, imageUrl: base64 } : c));
+          // Uploads become a take too, so the previous design can be restored
+          addCharacterVersions(selectedId, [createVersion(base64, '', UPLOAD_MODEL)], true);
       };
       reader.readAsDataURL(file);
       // Reset input
       e.target.value = '';
   };
 
-  const handleGenerateDesign = async () => {
+  // The form mirrors the list through the sync effect above.
+  // Several takes wait in the candidate picker unless autoPick takes the first.
+  // Edits keep the old look, so they leave a stale style flag in place.
+  const addCharacterVersions = (charId: string, versions: ImageVersion[], autoPick: boolean, restyled: boolean = true) => {
+      setCharacters(prev => prev.map(c => {
+          if (c.id !== charId) return c;
+          if (versions.length > 1 && !autoPick) return { ...c, candidates: versions };
+          return {
+              ...c,
+              imageUrl: versions[0].imageUrl,
+              imageHistory: addVersions(c.imageHistory, versions, versions[0].id, c.imageUrl, constructCharacterPrompt(c, styleGuide)),
+              candidates: undefined,
+              styleStale: restyled ? undefined : c.styleStale,
+          };
+      }));
+  };
+
+  const pickCharacterCandidate = (versionId: string, keepOthers: boolean) => {
+      setCharacters(prev => prev.map(c => {
+          if (c.id !== selectedId || !c.candidates) return c;
+          const imageHistory = pickCandidate(c.imageHistory, c.candidates, versionId, keepOthers, c.imageUrl, constructCharacterPrompt(c, styleGuide));
+          return { ...c, imageHistory, candidates: undefined, styleStale: undefined, imageUrl: getActiveVersion(imageHistory)?.imageUrl };
+      }));
+  };
+
+  const updateCharacterHistory = (update: (history: ImageHistory, versionId: string) => ImageHistory, versionId: string) => {
+      setCharacters(prev => prev.map(c => {
+          if (c.id !== selectedId || !c.imageHistory) return c;
+          const imageHistory = update(c.imageHistory, versionId);
+          return { ...c, imageHistory, imageUrl: getActiveVersion(imageHistory)?.imageUrl };
+      }));
+  };
+
+  const buildDesignJob = (char: Partial<Character> & { id: string }, autoPick: boolean = false): JobSpec<ImageVersion[]> => ({
+    kind: 'image',
+    label: `角色设定图：${char.name}`,
+    targetId: char.id,
+    task: () => generateImageCandidates(constructCharacterPrompt(char, styleGuide), "16:9"),
+    onSuccess: versions => addCharacterVersions(char.id, versions, autoPick),
+  });
+
+  const handleGenerateDesign = () => {
     if (!selectedId) return;
-    setIsGenerating(true);
-    try {
-      const promptToUse = constructCharacterPrompt(editForm);
-      const base64Img = await generateImage(promptToUse, "16:9");
-      
-      const updatedChar = { ...editForm, imageUrl: base64Img };
-      setEditForm(updatedChar);
-      setCharacters(prev => prev.map(c => c.id === selectedId ? { ...c, imageUrl: base64Img } : c));
-    } catch (e) {
-      alert("生成失败。请检查API Key。");
-    } finally {
-      setIsGenerating(false);
-    }
+    // Generate from the form as currently edited, even if not yet saved
+    enqueueJob({
+      ...buildDesignJob({ ...editForm, id: selectedId }),
+      onError: e => alert(formatErrorMessage("角色设定图生成失败", e)),
+    });
   };
 
-  const handleGenerateAll = async () => {
+  const handleEditDesign = (base: ImageVersion, instruction: string) => {
+    if (!selectedId) return;
+    const charId = selectedId;
+    enqueueJob<ImageVersion>({
+      kind: 'image',
+      label: `修改角色设定图：${editForm.name}：${instruction}`,
+      targetId: charId,
+      task: () => editImageVersion(base, instruction, "16:9"),
+      onSuccess: version => addCharacterVersions(charId, [version], true, false),
+      onError: e => alert(formatErrorMessage("角色设定图修改失败", e)),
+    });
+  };
+
+  const handleGenerateAll = () => {
     if (characters.length === 0) {
         alert("没有角色可生成。请先添加角色。");
         return;
     }
-    if (!confirm(`将自动为 ${characters.length} 个角色生成图片。这需要一点时间。`)) return;
+    const targets = characters.filter(c => !isTargetBusy(jobs, c.id));
+    if (targets.length === 0) return;
+    if (!confirm(`将自动为 ${targets.length} 个角色生成图片，任务将加入生成队列。`)) return;
+    if (!confirmWithinBudget('image', targets.length * getImageCandidateCount())) return;
 
-    setIsGeneratingAll(true);
-    let count = 0;
-    
-    // Iterate through current list state to avoid stale closures
-    for (const char of characters) {
-        count++;
-        setProgress(`${count} / ${characters.length}`);
-        
-        try {
-            const promptToUse = constructCharacterPrompt(char);
-            const base64Img = await generateImage(promptToUse, "16:9");
-            
-            // Critical: Use functional update to ensure we are modifying the latest state
-            // and NOT overwriting other completed characters with old state.
-            setCharacters(prevChars => 
-                prevChars.map(c => c.id === char.id ? { ...c, imageUrl: base64Img } : c)
-            );
-            
-            // If this is the currently selected character, update the form view too
-            if (selectedId === char.id) {
-                setEditForm(prev => ({ ...prev, imageUrl: base64Img }));
-            }
-
-            // Delay to prevent rate limiting
-            await new Promise(r => setTimeout(r, 1500));
-        } catch (e) {
-            console.error(`Failed to generate ${char.name}`, e);
-        }
-    }
-    
-    setIsGeneratingAll(false);
-    setProgress("");
-    alert("所有角色生成完毕！");
+    enqueueBatch('批量生成角色图', targets.map(c => buildDesignJob(c, true)));
   };
 
+  const editBase = showEditDialog
+    ? getEditBase(editForm.imageHistory, editForm.imageUrl, constructCharacterPrompt(editForm, styleGuide))
+    : undefined;
+
   return (
     <div className="flex h-full relative">
+      {editBase && (
+        <ImageEditDialog
+          title={`修改角色设定图：${editForm.name}`}
+          base={editBase}
+          onSubmit={instruction => handleEditDesign(editBase, instruction)}
+          onClose={() => setShowEditDialog(false)}
+        />
+      )}
+
       {/* Character Library Modal */}
       {showLibrary && (
           <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-12">
@@ -258,11 +356,11 @@ export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setChara
           
           <button 
               onClick={handleGenerateAll}
-              disabled={isGeneratingAll || characters.length === 0}
+              disabled={characters.length === 0}
               className="w-full py-3 bg-purple-900/50 hover:bg-purple-800 text-purple-200 rounded-lg transition disabled:opacity-50 border border-purple-500/30 flex items-center justify-center gap-2 font-bold"
           >
-            {isGeneratingAll ? (
-                <><RefreshCw size={18} className="animate-spin"/> 正在生成 {progress}</>
+            {pendingCount > 0 ? (
+                <><RefreshCw size={18} className="animate-spin"/> 队列中 {pendingCount} 个角色</>
             ) : (
                 <><Play size={18} /> 一键生成所有角色图</>
             )}
@@ -289,6 +387,7 @@ export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setChara
                 ) : (
                   <div className="w-full h-full flex items-center justify-center text-gray-500">?</div>
                 )}
+                {char.styleStale && <div className="absolute bottom-0.5 right-0.5"><StyleStaleBadge compact /></div>}
               </div>
               <div className="min-w-0">
                 <p className="font-medium text-gray-200 truncate">{char.name}</p>
@@ -362,9 +461,32 @@ export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setChara
                   </p>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">配音音色</label>
+                  <div className="flex gap-2">
+                    <div className="flex-1">
+                      <VoicePicker
+                        voice={editForm.defaultVoice || DEFAULT_VOICE}
+                        onChange={handleVoiceChange}
+                        sampleText={getSampleLine({ ...editForm, id: selectedId } as Character, frames)}
+                        auditionId={`voice:${selectedId}`}
+                      />
+                    </div>
+                    <button
+                      onClick={handleSuggestVoice}
+                      disabled={isSuggestingVoice}
+                      className="px-3 bg-gray-800 hover:bg-gray-700 text-purple-300 border border-purple-500/30 rounded text-xs flex items-center gap-1 disabled:opacity-50"
+                      title="根据角色描述推荐音色"
+                    >
+                      {isSuggestingVoice ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} AI 推荐
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">配音时该角色的台词都使用此音色；试听会朗读角色在分镜中的第一句台词。</p>
+                </div>
+
                 <button 
                   onClick={handleGenerateDesign}
-                  disabled={isGenerating || isGeneratingAll}
+                  disabled={isGenerating}
                   className="w-full py-3 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white font-bold rounded-lg flex items-center justify-center gap-2 transition disabled:opacity-50"
                 >
                   {isGenerating ? <RefreshCw className="animate-spin" /> : <Sparkles />}
@@ -395,6 +517,8 @@ export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setChara
                       </div>
                     )}
                     
+                    {editForm.styleStale && <div className="absolute top-2 left-2 z-10"><StyleStaleBadge /></div>}
+
                     {/* Overlay Buttons */}
                     <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition flex items-center justify-center gap-4">
                         <input 
@@ -410,9 +534,32 @@ export const CharacterTab: React.FC<CharacterTabProps> = ({ characters, setChara
                         >
                             <Upload size={18} /> 上传图片
                         </button>
+                        {editForm.imageUrl && (
+                            <button
+                                onClick={() => setShowEditDialog(true)}
+                                disabled={isGenerating}
+                                className="px-4 py-2 bg-purple-600 text-white rounded-lg font-bold flex items-center gap-2 hover:bg-purple-500 disabled:opacity-50"
+                            >
+                                <Wand2 size={18} /> AI 修改
+                            </button>
+                        )}
                     </div>
                  </div>
                  <p className="text-xs text-gray-500 text-center">如果不满意AI生成的结果，可以点击图片区域上传本地图片替换。</p>
+
+                 {editForm.candidates && editForm.candidates.length > 0 && (
+                    <CandidatePicker
+                        candidates={editForm.candidates}
+                        onPick={pickCharacterCandidate}
+                        onDiscard={() => setCharacters(prev => prev.map(c => c.id === selectedId ? { ...c, candidates: undefined } : c))}
+                    />
+                 )}
+
+                 <VersionFilmstrip
+                    history={editForm.imageHistory}
+                    onSelect={versionId => updateCharacterHistory(setActiveVersion, versionId)}
+                    onDelete={versionId => updateCharacterHistory(removeVersion, versionId)}
+                 />
               </div>
             </div>
           </div>
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Character, DialogueLine, DialogueLineType } from '../types';
+import { DIALOGUE_LINE_TYPES, NARRATOR_LABEL, createDialogueLine } from '../services/dialogue';
+import { LineDirectionControls } from './LineDirectionControls';
+import { Plus, X } from 'lucide-react';
+
+interface DialogueLinesEditorProps {
+  lines: DialogueLine[];
+  characters: Character[];
+  defaultSpeaker?: string; // Speaker for newly added lines
+  onChange: (lines: DialogueLine[]) => void;
+}
+
+/**
+ * A panel's lines in spoken order, each with its speaker, line type and
+ * performance direction.
+ */
+export const DialogueLinesEditor: React.FC<DialogueLinesEditorProps> = ({ lines, characters, defaultSpeaker = '', onChange }) => {
+  const updateLine = (id: string, updates: Partial<DialogueLine>) =>
+    onChange(lines.map(l => l.id === id ? { ...l, ...updates } : l));
+
+  const handleTypeChange = (line: DialogueLine, type: DialogueLineType) =>
+    updateLine(line.id, type === 'narration' ? { type, speaker: '' } : { type });
+
+  const handleAdd = () => {
+    // Hand the turn back to the previous speaker, which suits the usual two-person exchange
+    const last = lines[lines.length - 1];
+    const previous = last && [...lines].reverse().find(l => l.speaker && l.speaker !== last.speaker);
+    const speaker = last ? previous?.speaker || last.speaker : defaultSpeaker;
+    onChange([...lines, createDialogueLine({ speaker, type: speaker ? 'dialogue' : 'narration' })]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map(line => {
+        // Keep speakers that are not (or no longer) in the cast selectable
+        const isUnknown = !!line.speaker && !characters.some(c => c.name === line.speaker);
+        return (
+          <div key={line.id} className="group/line flex gap-2 items-start">
+            <div className="flex flex-col gap-1 w-28 flex-shrink-0">
+              <select
+                className={`bg-gray-800 border border-gray-700 rounded text-xs p-1 outline-none focus:border-purple-500 ${isUnknown ? 'text-amber-400' : 'text-gray-300'}`}
+                value={line.speaker}
+                disabled={line.type === 'narration'}
+                onChange={e => updateLine(line.id, { speaker: e.target.value })}
+                title={isUnknown ? '不在角色列表中' : undefined}
+              >
+                <option value="">{NARRATOR_LABEL}</option>
+                {characters.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+                {isUnknown && <option value={line.speaker}>{line.speaker}</option>}
+              </select>
+              <select
+                className="bg-gray-800 border border-gray-700 rounded text-xs text-gray-400 p-1 outline-none focus:border-purple-500"
+                value={line.type}
+                onChange={e => handleTypeChange(line, e.target.value as DialogueLineType)}
+              >
+                {DIALOGUE_LINE_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+              </select>
+            </div>
+            <div className="flex-1 space-y-1">
+              <textarea
+                className={`w-full bg-transparent text-gray-300 outline-none resize-none rounded border border-transparent hover:border-gray-800 focus:border-purple-500 p-1 ${line.type === 'monologue' ? 'italic' : ''}`}
+                rows={2}
+                value={line.text}
+                onChange={e => updateLine(line.id, { text: e.target.value })}
+                placeholder="台词"
+              />
+              <LineDirectionControls direction={line} onChange={updates => updateLine(line.id, updates)} />
+            </div>
+            <button
+              onClick={() => onChange(lines.filter(l => l.id !== line.id))}
+              className="p-1 rounded text-gray-600 hover:text-red-400 opacity-0 group-hover/line:opacity-100 transition"
+              title="删除这句台词"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        );
+      })}
+      <button onClick={handleAdd} className="text-xs text-gray-500 hover:text-purple-300 flex items-center gap-1">
+        <Plus size={12} /> 添加台词
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ImageVersion } from '../types';
+import { X, Wand2 } from 'lucide-react';
+
+const SUGGESTIONS = ['让人物微笑', '镜头再低一些', '改为夜晚', '加强逆光', '背景更简洁', '人物看向镜头'];
+
+interface ImageEditDialogProps {
+  title: string;
+  base: ImageVersion;
+  onSubmit: (instruction: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Asks for a natural-language change to an existing image. The result is
+ * generated in the queue and lands as a new version.
+ */
+export const ImageEditDialog: React.FC<ImageEditDialogProps> = ({ title, base, onSubmit, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const handleSubmit = () => {
+    if (!instruction.trim()) return;
+    onSubmit(instruction.trim());
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-3xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Wand2 size={18} className="text-purple-400" /> {title}</h3>
+          <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="bg-black rounded-xl overflow-hidden border border-gray-800">
+            <img src={base.imageUrl} className="w-full max-h-[45vh] object-contain" alt="Current" />
+          </div>
+
+          {base.editChain && base.editChain.length > 0 && (
+            <div className="text-xs text-gray-400">
+              <p className="text-gray-500 mb-1">此版本已应用的修改：</p>
+              <ol className="list-decimal pl-5 space-y-0.5">
+                {base.editChain.map((step, i) => <li key={i}>{step}</li>)}
+              </ol>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">修改要求</label>
+            <textarea
+              autoFocus
+              value={instruction}
+              onChange={e => setInstruction(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit(); }}
+              placeholder="用自然语言描述要改的地方，例如：让她微笑 / move the camera lower"
+              className="w-full bg-gray-950 border border-gray-700 rounded-lg p-3 text-gray-200 focus:border-purple-500 focus:outline-none h-24 resize-none text-sm"
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {SUGGESTIONS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => setInstruction(s)}
+                  className="px-2 py-1 rounded-full text-xs bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-white"
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleSubmit}
+            disabled={!instruction.trim()}
+            className="w-full py-2.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Wand2 size={16} /> 生成修改版本
+          </button>
+          <p className="text-xs text-gray-500 text-center">修改结果会作为新版本加入历史，原图不会丢失。</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,25 @@
 import React from 'react';
 import { AppTab } from '../types';
-import { BookOpen, Users, Image as ImageIcon, Settings, FileText, Mic } from 'lucide-react';
+import { ActivityPanel } from './ActivityPanel';
+import { BookOpen, Users, Image as ImageIcon, Settings, FileText, Mic, Clapperboard, FolderOpen, Cloud, CloudOff, Loader2 } from 'lucide-react';
 
 interface LayoutProps {
   activeTab: AppTab;
   setActiveTab: (tab: AppTab) => void;
+  projectName: string;
+  saveStatus: 'idle' | 'saving' | 'saved' | 'error';
+  onOpenProjects: () => void;
   children: React.ReactNode;
 }
 
-export const Layout: React.FC<LayoutProps> = ({ activeTab, setActiveTab, children }) => {
+export const Layout: React.FC<LayoutProps> = ({ activeTab, setActiveTab, projectName, saveStatus, onOpenProjects, children }) => {
   const navItems = [
     { id: AppTab.SCRIPT, label: '1. 剧本上传', icon: FileText },
     { id: AppTab.CHARACTERS, label: '2. 角色设定', icon: Users },
     { id: AppTab.SCENES, label: '3. 场景设定', icon: ImageIcon },
     { id: AppTab.STORYBOARD, label: '4. 分镜生成', icon: BookOpen },
     { id: AppTab.AUDIO, label: '5. 配音生成', icon: Mic },
+    { id: AppTab.TIMELINE, label: '6. 时间线', icon: Clapperboard },
     { id: AppTab.SETTINGS, label: '设置', icon: Settings },
   ];
 
@@ -29,6 +34,24 @@ export const Layout: React.FC<LayoutProps> = ({ activeTab, setActiveTab, childre
           <span className="hidden lg:block ml-3 font-bold text-xl tracking-tight">欢玺AI短剧工厂</span>
         </div>
 
+        {/* Project Switcher */}
+        <button
+          onClick={onOpenProjects}
+          className="mx-3 mt-4 p-3 rounded-xl bg-gray-800/60 hover:bg-gray-800 border border-gray-700 flex items-center gap-3 text-left transition"
+          title="项目管理"
+        >
+          <FolderOpen className="w-6 h-6 flex-shrink-0 text-gray-400" />
+          <div className="hidden lg:block min-w-0 flex-1">
+            <p className="text-sm font-medium text-gray-200 truncate">{projectName}</p>
+            <p className="text-xs text-gray-500 flex items-center gap-1">
+              {saveStatus === 'saving' && <><Loader2 size={10} className="animate-spin" /> 保存中...</>}
+              {saveStatus === 'saved' && <><Cloud size={10} /> 已自动保存</>}
+              {saveStatus === 'error' && <span className="text-red-400 flex items-center gap-1"><CloudOff size={10} /> 保存失败</span>}
+              {saveStatus === 'idle' && '切换 / 新建项目'}
+            </p>
+          </div>
+        </button>
+
         <nav className="flex-1 py-6 px-3 space-y-2">
           {navItems.map((item) => (
             <button
@@ -56,6 +79,7 @@ export const Layout: React.FC<LayoutProps> = ({ activeTab, setActiveTab, childre
       {/* Main Content */}
       <main className="flex-1 flex flex-col min-w-0 overflow-hidden relative">
         {children}
+        <ActivityPanel />
       </main>
     </div>
   );
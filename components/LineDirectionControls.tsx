@@ -0,0 +1,56 @@
+import React from 'react';
+import { LineDirection, SpeechRate, SpeechVolume } from '../types';
+import { MAX_INTENSITY, SPEECH_RATES, SPEECH_VOLUMES } from '../services/dialogue';
+
+interface LineDirectionControlsProps {
+  direction: LineDirection;
+  onChange: (updates: Partial<LineDirection>) => void;
+}
+
+const selectClass = 'bg-gray-800 border border-gray-700 rounded text-xs text-gray-400 p-1 outline-none focus:border-purple-500';
+
+/**
+ * Compact inputs for how a line is performed: emotion, intensity, pace,
+ * volume and a free-text acting note.
+ */
+export const LineDirectionControls: React.FC<LineDirectionControlsProps> = ({ direction, onChange }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <input
+      className="w-24 bg-transparent text-xs text-purple-300 placeholder-gray-600 outline-none border-b border-transparent hover:border-gray-800 focus:border-purple-500 px-1"
+      value={direction.emotion || ''}
+      onChange={e => onChange({ emotion: e.target.value || undefined })}
+      placeholder="情绪"
+    />
+    <select
+      className={selectClass}
+      value={direction.intensity || ''}
+      onChange={e => onChange({ intensity: Number(e.target.value) || undefined })}
+      title="情绪强度"
+    >
+      <option value="">强度 -</option>
+      {Array.from({ length: MAX_INTENSITY }, (_, i) => i + 1).map(n => (
+        <option key={n} value={n}>强度 {n}</option>
+      ))}
+    </select>
+    <select
+      className={selectClass}
+      value={direction.rate || 'normal'}
+      onChange={e => onChange({ rate: e.target.value === 'normal' ? undefined : e.target.value as SpeechRate })}
+    >
+      {SPEECH_RATES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+    </select>
+    <select
+      className={selectClass}
+      value={direction.volume || 'normal'}
+      onChange={e => onChange({ volume: e.target.value === 'normal' ? undefined : e.target.value as SpeechVolume })}
+    >
+      {SPEECH_VOLUMES.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+    </select>
+    <input
+      className="flex-1 min-w-[8rem] bg-transparent text-xs text-gray-400 placeholder-gray-600 outline-none border-b border-transparent hover:border-gray-800 focus:border-purple-500 px-1"
+      value={direction.actingNote || ''}
+      onChange={e => onChange({ actingNote: e.target.value || undefined })}
+      placeholder="表演提示 (可留空)"
+    />
+  </div>
+);
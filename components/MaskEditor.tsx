@@ -0,0 +1,222 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createMaskCanvas } from '../services/imageUtils';
+import { X, Brush, Eraser, FlipHorizontal2, Trash2 } from 'lucide-react';
+
+const OVERLAY_COLOR = 'rgb(239, 68, 68)';
+
+type MaskTool = 'brush' | 'eraser';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  initialMask?: string; // Mask of a previous repaint, so it can be repeated or tweaked
+  initialPrompt?: string;
+  onSubmit: (maskDataUrl: string, prompt: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Paint the region to repaint over the image. The overlay canvas is kept at
+ * the image's natural size so the exported mask lines up pixel for pixel.
+ */
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, initialMask, initialPrompt, onSubmit, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(60);
+  const [prompt, setPrompt] = useState(initialPrompt || '');
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  // Restore the previous mask once the canvas has its size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size || !initialMask) return;
+    createMaskCanvas(initialMask, size.width, size.height).then(mask => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(mask, 0, 0);
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = OVERLAY_COLOR;
+      ctx.fillRect(0, 0, size.width, size.height);
+      ctx.globalCompositeOperation = 'source-over';
+    }).catch(e => console.warn('Failed to restore mask', e));
+  }, [size, initialMask]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const strokeTo = (point: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPoint.current || point;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = OVERLAY_COLOR;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+    lastPoint.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    strokeTo(toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    strokeTo(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    lastPoint.current = null;
+  };
+
+  const handleInvert = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillStyle = OVERLAY_COLOR;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  // Black background, white where painted
+  const exportMask = (): string | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const painted = canvas.getContext('2d')?.getImageData(0, 0, canvas.width, canvas.height).data;
+    if (!painted || !painted.some((value, i) => i % 4 === 3 && value > 0)) return null;
+
+    const white = document.createElement('canvas');
+    white.width = canvas.width;
+    white.height = canvas.height;
+    const whiteCtx = white.getContext('2d')!;
+    whiteCtx.drawImage(canvas, 0, 0);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = '#fff';
+    whiteCtx.fillRect(0, 0, white.width, white.height);
+
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const maskCtx = mask.getContext('2d')!;
+    maskCtx.fillStyle = '#000';
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+    maskCtx.drawImage(white, 0, 0);
+    return mask.toDataURL('image/png');
+  };
+
+  const handleSubmit = () => {
+    if (!prompt.trim()) return;
+    const mask = exportMask();
+    if (!mask) {
+      alert('请先在图上涂抹需要重绘的区域');
+      return;
+    }
+    onSubmit(mask, prompt.trim());
+    onClose();
+  };
+
+  const toolButton = (value: MaskTool, icon: React.ReactNode, label: string) => (
+    <button
+      onClick={() => setTool(value)}
+      className={`px-3 py-1.5 rounded-lg text-xs flex items-center gap-1 border transition ${tool === value ? 'bg-purple-900/40 text-purple-200 border-purple-500/50' : 'text-gray-400 border-gray-700 hover:bg-gray-800'}`}
+    >
+      {icon} {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-5xl max-h-full flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Brush size={18} className="text-purple-400" /> 局部重绘</h3>
+          <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-2">
+            {toolButton('brush', <Brush size={14} />, '画笔')}
+            {toolButton('eraser', <Eraser size={14} />, '橡皮')}
+            <label className="flex items-center gap-2 text-xs text-gray-400 ml-2">
+              笔刷大小
+              <input type="range" min={10} max={300} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} className="w-32 accent-purple-500" />
+              <span className="w-8 font-mono">{brushSize}</span>
+            </label>
+            <div className="flex-1" />
+            <button onClick={handleInvert} className="px-3 py-1.5 rounded-lg text-xs flex items-center gap-1 text-gray-400 border border-gray-700 hover:bg-gray-800">
+              <FlipHorizontal2 size={14} /> 反选
+            </button>
+            <button onClick={handleClear} className="px-3 py-1.5 rounded-lg text-xs flex items-center gap-1 text-gray-400 border border-gray-700 hover:text-red-400 hover:bg-gray-800">
+              <Trash2 size={14} /> 清空
+            </button>
+          </div>
+
+          <div className="flex justify-center bg-black rounded-xl border border-gray-800 p-2">
+            <div className="relative inline-block">
+              <img
+                src={imageUrl}
+                className="block max-h-[55vh] max-w-full select-none"
+                draggable={false}
+                onLoad={e => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                alt="Source"
+              />
+              {size && (
+                <canvas
+                  ref={canvasRef}
+                  width={size.width}
+                  height={size.height}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  className="absolute inset-0 w-full h-full opacity-50 touch-none"
+                  style={{ cursor: 'crosshair' }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">涂抹区域的新内容</label>
+            <textarea
+              value={prompt}
+              onChange={e => setPrompt(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit(); }}
+              placeholder="例如：换成一把红色雨伞 / remove the lamp post"
+              className="w-full bg-gray-950 border border-gray-700 rounded-lg p-3 text-gray-200 focus:border-purple-500 focus:outline-none h-20 resize-none text-sm"
+            />
+          </div>
+
+          <button
+            onClick={handleSubmit}
+            disabled={!prompt.trim()}
+            className="w-full py-2.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Brush size={16} /> 重绘涂抹区域
+          </button>
+          <p className="text-xs text-gray-500 text-center">只有涂抹区域会改变，结果作为新版本加入历史，蒙版和提示词会随版本保存。</p>
+        </div>
+      </div>
+    </div>
+  );
+};
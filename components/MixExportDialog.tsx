@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { AudioMix, StoryboardFrame } from '../types';
+import { MAX_DUCKING_DB, renderMix } from '../services/audioMix';
+import { Download, Loader2, SlidersHorizontal, X } from 'lucide-react';
+
+interface MixExportDialogProps {
+  frames: StoryboardFrame[];
+  mix: AudioMix;
+  onMixChange: (updates: Partial<AudioMix>) => void;
+  onClose: () => void;
+}
+
+export const MixExportDialog: React.FC<MixExportDialogProps> = ({ frames, mix, onMixChange, onClose }) => {
+  const [status, setStatus] = useState<'idle' | 'rendering' | 'done' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  const [resultUrl, setResultUrl] = useState<string | null>(null);
+
+  useEffect(() => () => {
+    if (resultUrl) URL.revokeObjectURL(resultUrl);
+  }, [resultUrl]);
+
+  const dialogueCount = frames.filter(f => f.audioUrl).length;
+  const activeTracks = mix.tracks.filter(t => !t.muted).length;
+
+  const handleRender = async () => {
+    setStatus('rendering');
+    setResultUrl(null);
+    try {
+      setResultUrl(await renderMix(frames, mix, setMessage));
+      setStatus('done');
+      setMessage('');
+    } catch (e: any) {
+      console.error(e);
+      setStatus('error');
+      setMessage(`混音失败：${e?.message || e}`);
+    }
+  };
+
+  const isRendering = status === 'rendering';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-12">
+      <div className="bg-gray-900 w-full max-w-xl rounded-2xl border border-gray-700 shadow-2xl flex flex-col">
+        <div className="p-6 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2"><SlidersHorizontal /> 混音导出</h2>
+            <p className="text-gray-400 text-sm">将台词配音、背景音乐与音效按时间线混合为一个 WAV 文件。</p>
+          </div>
+          <button onClick={onClose} disabled={isRendering} className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 disabled:opacity-30"><X /></button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-6">
+            <div>
+              <label className="block text-xs text-gray-500 font-bold uppercase mb-1">台词音量 {Math.round(mix.dialogueVolume * 100)}%</label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                disabled={isRendering}
+                value={mix.dialogueVolume}
+                onChange={e => onMixChange({ dialogueVolume: parseFloat(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 font-bold uppercase mb-1">
+                台词时音乐压低 {mix.duckingDb > 0 ? `${mix.duckingDb} dB` : '(关闭)'}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={MAX_DUCKING_DB}
+                step={1}
+                disabled={isRendering}
+                value={mix.duckingDb}
+                onChange={e => onMixChange({ duckingDb: parseInt(e.target.value, 10) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {dialogueCount} 段台词配音 · {activeTracks} 条音乐/音效轨。镜头时长与时间线一致，音效不受压低影响。
+          </p>
+
+          {message && (
+            <p className={`text-xs flex items-center gap-2 ${status === 'error' ? 'text-red-400' : 'text-gray-400'}`}>
+              {isRendering && <Loader2 size={12} className="animate-spin" />} {message}
+            </p>
+          )}
+
+          {resultUrl && <audio src={resultUrl} controls className="w-full" />}
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex justify-end gap-3">
+          {resultUrl && !isRendering && (
+            <a
+              href={resultUrl}
+              download="mix.wav"
+              className="px-6 py-2 bg-green-600 hover:bg-green-500 text-white rounded-lg flex items-center gap-2 text-sm font-bold"
+            >
+              <Download size={16} /> 下载 WAV
+            </a>
+          )}
+          <button
+            onClick={handleRender}
+            disabled={isRendering || frames.length === 0}
+            className="px-6 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg flex items-center gap-2 text-sm font-bold disabled:opacity-50"
+          >
+            {isRendering ? <Loader2 size={16} className="animate-spin" /> : <SlidersHorizontal size={16} />}
+            {resultUrl ? '重新混音' : '开始混音'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
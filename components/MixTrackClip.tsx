@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { PlacedTrack } from '../services/audioMix';
+import { Repeat, VolumeX } from 'lucide-react';
+
+interface MixTrackClipProps {
+  placed: PlacedTrack;
+  pixelsPerSecond: number;
+  isSelected: boolean;
+  onSelect: () => void;
+  onMove: (start: number) => void; // New start on the timeline, in seconds
+}
+
+// Pointer travel before a press counts as a drag rather than a click
+const DRAG_THRESHOLD_PX = 3;
+
+/**
+ * A music or effect track's span on its lane. Drag sideways to move it;
+ * fades are shaded at either end.
+ */
+export const MixTrackClip: React.FC<MixTrackClipProps> = ({ placed, pixelsPerSecond, isSelected, onSelect, onMove }) => {
+  const { track, start, end } = placed;
+  const [drag, setDrag] = useState<{ originX: number; deltaX: number } | null>(null);
+
+  const width = Math.max((end - start) * pixelsPerSecond, 6);
+  const left = start * pixelsPerSecond + (drag?.deltaX ?? 0);
+  const fadeInWidth = Math.min(track.fadeIn * pixelsPerSecond, width / 2);
+  const fadeOutWidth = Math.min(track.fadeOut * pixelsPerSecond, width / 2);
+  const colors = track.kind === 'music'
+    ? 'bg-sky-900/50 border-sky-500/50 text-sky-200'
+    : 'bg-amber-900/50 border-amber-500/50 text-amber-200';
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (Math.abs(drag.deltaX) >= DRAG_THRESHOLD_PX) onMove(start + drag.deltaX / pixelsPerSecond);
+    else onSelect();
+    setDrag(null);
+  };
+
+  return (
+    <div
+      onPointerDown={e => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDrag({ originX: e.clientX, deltaX: 0 });
+      }}
+      onPointerMove={e => drag && setDrag({ ...drag, deltaX: e.clientX - drag.originX })}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+      className={`absolute top-0 h-full rounded border text-[10px] px-1 overflow-hidden whitespace-nowrap cursor-grab select-none touch-none
+        ${colors} ${isSelected ? 'ring-2 ring-white/70' : ''} ${track.muted ? 'opacity-40' : ''} ${drag ? 'cursor-grabbing' : ''}`}
+      style={{ left, width }}
+      title={track.name}
+    >
+      {fadeInWidth > 0 && <div className="absolute inset-y-0 left-0 bg-gradient-to-r from-black/60 to-transparent pointer-events-none" style={{ width: fadeInWidth }} />}
+      {fadeOutWidth > 0 && <div className="absolute inset-y-0 right-0 bg-gradient-to-l from-black/60 to-transparent pointer-events-none" style={{ width: fadeOutWidth }} />}
+      <span className="relative flex items-center gap-1 h-full">
+        {track.muted && <VolumeX size={10} />}
+        {track.loop && <Repeat size={10} />}
+        {track.name}
+      </span>
+    </div>
+  );
+};
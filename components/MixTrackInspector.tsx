@@ -0,0 +1,102 @@
+import React from 'react';
+import { MixTrack, StoryboardFrame } from '../types';
+import { PlacedTrack, TRACK_KIND_LABELS } from '../services/audioMix';
+import { formatTimecode } from '../services/timeline';
+import { AlertTriangle, Trash2, Volume2, VolumeX } from 'lucide-react';
+
+interface MixTrackInspectorProps {
+  placed: PlacedTrack;
+  frames: StoryboardFrame[];
+  fileDuration?: number;
+  onChange: (updates: Partial<MixTrack>) => void;
+  onDelete: () => void;
+}
+
+const inputClass = 'w-20 bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white outline-none focus:border-purple-500';
+
+const parseSeconds = (value: string) => Math.max(0, Math.round((parseFloat(value) || 0) * 10) / 10);
+
+/**
+ * Placement, level and fades of the selected music or effect track.
+ */
+export const MixTrackInspector: React.FC<MixTrackInspectorProps> = ({ placed, frames, fileDuration, onChange, onDelete }) => {
+  const { track, start, end, anchorMissing } = placed;
+
+  const handleDelete = () => {
+    if (!confirm(`删除${TRACK_KIND_LABELS[track.kind]}轨“${track.name}”？`)) return;
+    onDelete();
+  };
+
+  return (
+    <div className="flex flex-wrap gap-6 items-start">
+      <div className="min-w-0 w-56">
+        <h3 className="text-white font-bold mb-1 truncate" title={track.name}>{TRACK_KIND_LABELS[track.kind]} · {track.name}</h3>
+        <p className="text-xs text-gray-500">
+          {formatTimecode(start)} – {formatTimecode(end)}
+          {fileDuration ? ` · 文件 ${fileDuration.toFixed(1)}s` : ''}
+        </p>
+        {anchorMissing && (
+          <p className="text-xs text-amber-400 mt-1 flex items-center gap-1"><AlertTriangle size={12} /> 起始镜头已删除，请重新选择</p>
+        )}
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 font-bold uppercase mb-1">起始镜头</label>
+        <select
+          value={anchorMissing ? '' : track.anchorFrameId}
+          onChange={e => onChange({ anchorFrameId: e.target.value })}
+          className="w-40 bg-gray-950 border border-gray-700 text-sm text-gray-300 rounded-lg p-2 outline-none"
+        >
+          {anchorMissing && <option value="">(已删除)</option>}
+          {frames.map(f => <option key={f.id} value={f.id}>#{f.panelNumber} {f.description.slice(0, 12)}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 font-bold uppercase mb-1">偏移 (秒)</label>
+        <input type="number" min={0} step={0.1} value={track.offset} onChange={e => onChange({ offset: parseSeconds(e.target.value) })} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 font-bold uppercase mb-1">长度 (秒)</label>
+        <input
+          type="number"
+          min={0}
+          step={0.1}
+          value={track.length ?? ''}
+          placeholder={track.loop ? '到结尾' : '整段'}
+          onChange={e => onChange({ length: parseSeconds(e.target.value) || undefined })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 font-bold uppercase mb-1">淡入 / 淡出 (秒)</label>
+        <div className="flex gap-2">
+          <input type="number" min={0} step={0.1} value={track.fadeIn} onChange={e => onChange({ fadeIn: parseSeconds(e.target.value) })} className={inputClass} />
+          <input type="number" min={0} step={0.1} value={track.fadeOut} onChange={e => onChange({ fadeOut: parseSeconds(e.target.value) })} className={inputClass} />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 font-bold uppercase mb-1">音量 {Math.round(track.volume * 100)}%</label>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={track.volume}
+          onChange={e => onChange({ volume: parseFloat(e.target.value) })}
+          className="w-32 accent-purple-500 mt-2"
+        />
+      </div>
+      <div className="flex flex-col gap-2 text-sm text-gray-300">
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input type="checkbox" checked={!!track.loop} onChange={e => onChange({ loop: e.target.checked })} className="accent-purple-500" />
+          循环播放
+        </label>
+        <button onClick={() => onChange({ muted: !track.muted })} className="flex items-center gap-2 text-gray-400 hover:text-white">
+          {track.muted ? <VolumeX size={14} /> : <Volume2 size={14} />} {track.muted ? '已静音' : '静音'}
+        </button>
+      </div>
+      <button onClick={handleDelete} className="ml-auto p-2 rounded-lg text-red-400 hover:bg-red-400/10" title="删除此轨道">
+        <Trash2 size={18} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { OutputFormat } from '../types';
+import { OUTPUT_FORMATS } from '../services/outputFormat';
+import { Monitor } from 'lucide-react';
+
+interface OutputFormatPanelProps {
+  outputFormat: OutputFormat;
+  onChange: (outputFormat: OutputFormat) => void;
+}
+
+/**
+ * Picks the project's frame shape. Existing panels keep their images; the
+ * storyboard flags the ones that no longer fit.
+ */
+export const OutputFormatPanel: React.FC<OutputFormatPanelProps> = ({ outputFormat, onChange }) => (
+  <div className="max-w-3xl w-full bg-gray-900 border border-gray-800 rounded-2xl p-8 shadow-xl">
+    <div className="flex items-center gap-3 mb-6">
+      <div className="p-3 bg-cyan-600/20 rounded-xl">
+        <Monitor className="w-8 h-8 text-cyan-400" />
+      </div>
+      <div>
+        <h2 className="text-xl font-bold text-white">项目画幅</h2>
+        <p className="text-gray-400 text-sm">分镜生成、场景全景、预览与导出都使用此画幅</p>
+      </div>
+    </div>
+
+    <div className="flex flex-wrap gap-4 items-end">
+      {OUTPUT_FORMATS.map(format => {
+        const isActive = format.id === outputFormat;
+        return (
+          <button
+            key={format.id}
+            onClick={() => onChange(format.id)}
+            className={`flex flex-col items-center gap-2 p-3 rounded-xl border transition ${isActive ? 'bg-cyan-900/30 border-cyan-500/60 text-cyan-200' : 'border-gray-700 text-gray-400 hover:bg-gray-800'}`}
+          >
+            <div
+              className={`border-2 rounded ${isActive ? 'border-cyan-400' : 'border-gray-500'}`}
+              style={{ width: format.width >= format.height ? 48 : 48 * format.width / format.height, height: format.width >= format.height ? 48 * format.height / format.width : 48 }}
+            />
+            <span className="text-xs font-bold">{format.label}</span>
+          </button>
+        );
+      })}
+    </div>
+    <p className="text-xs text-gray-500 mt-4">切换画幅不会修改已有图片；与新画幅不符的分镜会在分镜页中标出。</p>
+  </div>
+);
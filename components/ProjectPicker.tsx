@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ProjectSummary } from '../types';
+import { listProjects, deleteProject, duplicateProject, loadProject, saveProject } from '../services/projectStore';
+import { exportProjectBundle, importProjectBundle, getBundleFileName } from '../services/projectBundle';
+import { FolderOpen, Plus, Copy, Trash2, X, Loader2, Film, Download, Upload } from 'lucide-react';
+
+interface ProjectPickerProps {
+  currentProjectId: string;
+  currentProjectName: string;
+  onOpen: (id: string) => Promise<void>;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (name: string) => void;
+  onDeleted: (id: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export const ProjectPicker: React.FC<ProjectPickerProps> = ({
+  currentProjectId,
+  currentProjectName,
+  onOpen,
+  onCreate,
+  onRename,
+  onDeleted,
+  onClose
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error("Failed to list projects", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      await onCreate(newName.trim() || '未命名项目');
+      setNewName('');
+    } catch (e) {
+      console.error(e);
+      alert("新建项目失败。");
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    setBusyId(id);
+    try {
+      await onOpen(id);
+    } catch (e) {
+      console.error(e);
+      alert("打开项目失败。");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    setBusyId(id);
+    try {
+      await duplicateProject(id);
+      await refresh();
+    } catch (e) {
+      console.error(e);
+      alert("复制项目失败。");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`确定要删除项目“${project.name}”吗？所有生成的图片和配音都将丢失。`)) return;
+    setBusyId(project.id);
+    try {
+      await deleteProject(project.id);
+    } catch (e) {
+      console.error(e);
+      alert("删除项目失败。");
+      setBusyId(null);
+      return;
+    }
+    try {
+      await onDeleted(project.id);
+    } catch (e) {
+      console.error(e);
+      alert("项目已删除，但无法打开其他项目。");
+    }
+    await refresh();
+    setBusyId(null);
+  };
+
+  const handleExport = async (id: string) => {
+    setBusyId(id);
+    try {
+      const project = await loadProject(id);
+      if (!project) throw new Error("Project not found");
+      const bundle = await exportProjectBundle(project);
+
+      const url = URL.createObjectURL(bundle);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBundleFileName(project);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error(e);
+      alert("导出项目失败。");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const project = await importProjectBundle(file);
+      await saveProject(project);
+      await refresh();
+    } catch (err: any) {
+      console.error(err);
+      alert(`导入项目失败：${err.message || err}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-12">
+      <div className="bg-gray-900 w-full max-w-4xl h-full max-h-[80vh] rounded-2xl border border-gray-700 shadow-2xl flex flex-col">
+        <div className="p-6 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2"><FolderOpen /> 项目管理</h2>
+            <p className="text-gray-400 text-sm">所有修改会自动保存在本地浏览器 (IndexedDB) 中。</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="file"
+              ref={importInputRef}
+              onChange={handleImportFile}
+              accept=".zip,application/zip"
+              className="hidden"
+            />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+              className="px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 border border-gray-700 rounded-lg text-sm flex items-center gap-2 disabled:opacity-50"
+              title="导入项目包 (.zip)"
+            >
+              {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} 导入项目包
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg text-gray-400"><X /></button>
+          </div>
+        </div>
+
+        <div className="p-6 border-b border-gray-800 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs text-gray-500 font-bold uppercase mb-1">当前项目名称</label>
+            <input
+              type="text"
+              value={currentProjectName}
+              onChange={e => onRename(e.target.value)}
+              className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-white focus:border-purple-500 focus:outline-none text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 font-bold uppercase mb-1">新建项目</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleCreate()}
+                placeholder="项目名称..."
+                className="flex-1 bg-gray-950 border border-gray-700 rounded-lg p-2 text-white focus:border-purple-500 focus:outline-none text-sm"
+              />
+              <button
+                onClick={handleCreate}
+                className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-sm font-bold flex items-center gap-1"
+              >
+                <Plus size={16} /> 新建
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-2 md:grid-cols-3 gap-6 content-start">
+          {isLoading ? (
+            <div className="col-span-full flex justify-center py-20 text-gray-500">
+              <Loader2 className="animate-spin" />
+            </div>
+          ) : projects.length === 0 ? (
+            <div className="col-span-full text-center text-gray-500 py-20">暂无已保存的项目。</div>
+          ) : (
+            projects.map(project => (
+              <div
+                key={project.id}
+                className={`bg-gray-800 rounded-xl overflow-hidden border group transition ${project.id === currentProjectId ? 'border-purple-500' : 'border-gray-700 hover:border-purple-500/50'}`}
+              >
+                <div className="aspect-video bg-gray-950 relative">
+                  {project.thumbnailUrl ? (
+                    <img src={project.thumbnailUrl} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-gray-600"><Film /></div>
+                  )}
+                  <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition flex items-center justify-center gap-2">
+                    {busyId === project.id ? (
+                      <Loader2 className="animate-spin text-white" />
+                    ) : (
+                      <>
+                        {project.id !== currentProjectId && (
+                          <button
+                            onClick={() => handleOpen(project.id)}
+                            className="px-3 py-1.5 bg-purple-600 text-white rounded text-sm font-bold flex items-center gap-1"
+                          >
+                            <FolderOpen size={14} /> 打开
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleExport(project.id)}
+                          className="px-3 py-1.5 bg-gray-700 text-white rounded text-sm font-bold"
+                          title="导出项目包 (.zip)"
+                        >
+                          <Download size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleDuplicate(project.id)}
+                          className="px-3 py-1.5 bg-gray-700 text-white rounded text-sm font-bold"
+                          title="复制项目"
+                        >
+                          <Copy size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(project)}
+                          className="px-3 py-1.5 bg-red-600 text-white rounded text-sm font-bold"
+                          title="删除项目"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div className="p-3">
+                  <h3 className="font-bold text-gray-200 truncate">
+                    {project.id === currentProjectId ? currentProjectName : project.name}
+                    {project.id === currentProjectId && <span className="ml-2 text-xs text-purple-400">(当前)</span>}
+                  </h3>
+                  <p className="text-xs text-gray-500">
+                    {project.frameCount} 个分镜 · {new Date(project.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import {
+  AICapability,
+  MAX_IMAGE_CANDIDATES,
+  PROVIDERS,
+  ProviderId,
+  ProviderSettings,
+  getProviderSettings,
+  getProvidersFor,
+  isMockMode,
+  saveProviderSettings,
+} from '../services/providers';
+import { Cpu, Save, CheckCircle, FlaskConical } from 'lucide-react';
+
+const CAPABILITIES: { id: AICapability; label: string; hint: string }[] = [
+  { id: 'text', label: '文本分析', hint: '剧本拆解、角色/场景提取' },
+  { id: 'image', label: '图像生成', hint: '角色设定图、场景图、分镜画面' },
+  { id: 'speech', label: '语音合成', hint: '台词配音' },
+];
+
+export const ProviderSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<ProviderSettings>(getProviderSettings);
+  const [saved, setSaved] = useState(false);
+
+  const handleProviderChange = (capability: AICapability, provider: ProviderId) => {
+    // Switching provider resets the model to that provider's default
+    setSettings(prev => ({
+      ...prev,
+      [capability]: { provider, model: PROVIDERS[provider].defaultModels[capability] || '' },
+    }));
+  };
+
+  const handleModelChange = (capability: AICapability, model: string) => {
+    setSettings(prev => ({ ...prev, [capability]: { ...prev[capability], model } }));
+  };
+
+  const handleSave = () => {
+    saveProviderSettings(settings);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 3000);
+  };
+
+  const usesProvider = (id: ProviderId) => CAPABILITIES.some(c => settings[c.id].provider === id);
+  const forcedByEnv = isMockMode() && !getProviderSettings().mockMode;
+
+  return (
+    <div className="max-w-md w-full bg-gray-900 border border-gray-800 rounded-2xl p-8 shadow-xl">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-3 bg-blue-600/20 rounded-xl">
+          <Cpu className="w-8 h-8 text-blue-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-white">AI 服务提供方</h2>
+          <p className="text-gray-400 text-sm">为每项能力选择服务和模型</p>
+        </div>
+      </div>
+
+      <div className="space-y-5">
+        {/* Mock Mode */}
+        <label className="flex items-start gap-3 bg-gray-950 p-4 rounded-xl border border-gray-800 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.mockMode || forcedByEnv}
+            disabled={forcedByEnv}
+            onChange={e => setSettings(prev => ({ ...prev, mockMode: e.target.checked }))}
+            className="mt-1 accent-amber-500"
+          />
+          <div>
+            <span className="text-sm font-medium text-amber-300 flex items-center gap-1"><FlaskConical size={14} /> 离线模拟模式</span>
+            <p className="text-xs text-gray-500 mt-1">
+              {forcedByEnv
+                ? '已通过环境变量 AI_MOCK 强制开启。'
+                : '不调用任何 API：根据剧本规则生成角色与分镜，绘制占位图，合成提示音。相同输入总是得到相同结果，适合开发和演示。'}
+            </p>
+          </div>
+        </label>
+
+        {CAPABILITIES.map(cap => {
+          const setting = settings[cap.id];
+          const provider = PROVIDERS[setting.provider];
+          const listId = `models-${cap.id}`;
+          return (
+            <div key={cap.id} className={`bg-gray-950 p-4 rounded-xl border border-gray-800 space-y-2 ${settings.mockMode || forcedByEnv ? 'opacity-50' : ''}`}>
+              <div className="flex justify-between items-baseline">
+                <label className="text-sm font-medium text-gray-300">{cap.label}</label>
+                <span className="text-xs text-gray-500">{cap.hint}</span>
+              </div>
+              <select
+                className="w-full bg-gray-900 border border-gray-700 text-sm text-gray-300 rounded-lg p-2 outline-none focus:border-blue-500"
+                value={setting.provider}
+                onChange={e => handleProviderChange(cap.id, e.target.value as ProviderId)}
+              >
+                {getProvidersFor(cap.id).map(p => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                list={listId}
+                value={setting.model}
+                onChange={e => handleModelChange(cap.id, e.target.value)}
+                placeholder={provider.defaultModels[cap.id] || '模型名称 (留空使用服务端默认)'}
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-white focus:border-blue-500 focus:outline-none font-mono text-xs"
+              />
+              <datalist id={listId}>
+                {(provider.suggestedModels[cap.id] || []).map(m => <option key={m} value={m} />)}
+              </datalist>
+              {cap.id === 'image' && (
+                <div className="flex items-center gap-2 pt-1 text-xs text-gray-400">
+                  <span>每次生成候选图数量</span>
+                  <select
+                    className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none focus:border-blue-500"
+                    value={settings.imageCandidates}
+                    onChange={e => setSettings(prev => ({ ...prev, imageCandidates: Number(e.target.value) }))}
+                  >
+                    {Array.from({ length: MAX_IMAGE_CANDIDATES }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                  <span className="text-gray-600">多于 1 张时从候选中挑选</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {usesProvider('openai') && (
+          <div className="bg-gray-950 p-4 rounded-xl border border-gray-800 space-y-2">
+            <label className="text-sm font-medium text-gray-300">OpenAI 兼容接口</label>
+            <input
+              type="text"
+              value={settings.openai.baseUrl}
+              onChange={e => setSettings(prev => ({ ...prev, openai: { ...prev.openai, baseUrl: e.target.value } }))}
+              placeholder="https://api.openai.com/v1"
+              className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-white focus:border-blue-500 focus:outline-none font-mono text-xs"
+            />
+            <input
+              type="password"
+              value={settings.openai.apiKey}
+              onChange={e => setSettings(prev => ({ ...prev, openai: { ...prev.openai, apiKey: e.target.value } }))}
+              placeholder="sk-..."
+              className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-white focus:border-blue-500 focus:outline-none font-mono text-xs"
+            />
+          </div>
+        )}
+
+        {usesProvider('sdwebui') && (
+          <div className="bg-gray-950 p-4 rounded-xl border border-gray-800 space-y-2">
+            <label className="text-sm font-medium text-gray-300">Stable Diffusion 服务地址</label>
+            <input
+              type="text"
+              value={settings.sdwebui.baseUrl}
+              onChange={e => setSettings(prev => ({ ...prev, sdwebui: { baseUrl: e.target.value } }))}
+              placeholder="http://127.0.0.1:7860"
+              className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-white focus:border-blue-500 focus:outline-none font-mono text-xs"
+            />
+            <p className="text-xs text-gray-500">需要以 <code>--api --cors-allow-origins=*</code> 启动 WebUI。</p>
+          </div>
+        )}
+
+        <button
+          onClick={handleSave}
+          className="w-full py-2.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium flex items-center justify-center gap-2 transition"
+        >
+          <Save size={18} /> 保存服务配置
+        </button>
+
+        {saved && (
+          <div className="flex items-center gap-2 text-green-400 text-sm bg-green-400/10 p-3 rounded-lg border border-green-400/20">
+            <CheckCircle size={16} /> 服务配置已保存。
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { OutputFormat, StoryboardFrame } from '../types';
+import { ReframeMode } from '../services/geminiService';
+import { OUTPUT_FORMATS, getFormatLabel } from '../services/outputFormat';
+import { X, Crop } from 'lucide-react';
+
+const MODES: { id: ReframeMode; label: string; hint: string }[] = [
+  { id: 'outpaint', label: '扩图', hint: '保留原画面全部像素，由模型补全新增的边缘' },
+  { id: 'recompose', label: '重新构图', hint: '以原画面为参考，按新画幅重新绘制整个镜头' },
+];
+
+interface ReframeDialogProps {
+  frames: StoryboardFrame[];
+  outputFormat: OutputFormat;
+  onSubmit: (target: OutputFormat, mode: ReframeMode, skipExisting: boolean) => void;
+  onClose: () => void;
+}
+
+/**
+ * Batch settings for adapting finished panels to another delivery format.
+ */
+export const ReframeDialog: React.FC<ReframeDialogProps> = ({ frames, outputFormat, onSubmit, onClose }) => {
+  const [target, setTarget] = useState<OutputFormat>(() => OUTPUT_FORMATS.find(f => f.id !== outputFormat)!.id);
+  const [mode, setMode] = useState<ReframeMode>('outpaint');
+  const [skipExisting, setSkipExisting] = useState(true);
+
+  const withImage = frames.filter(f => f.generatedImageUrl);
+  const existing = withImage.filter(f => f.renditions?.[target]).length;
+  const count = skipExisting ? withImage.length - existing : withImage.length;
+
+  const handleSubmit = () => {
+    if (count === 0) return;
+    onSubmit(target, mode, skipExisting);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Crop size={18} className="text-cyan-400" /> 批量改画幅</h3>
+          <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-800">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">目标画幅</label>
+            <div className="flex flex-wrap gap-2">
+              {OUTPUT_FORMATS.map(format => (
+                <button
+                  key={format.id}
+                  onClick={() => setTarget(format.id)}
+                  className={`px-3 py-1.5 rounded-lg text-sm border transition ${target === format.id ? 'bg-cyan-900/40 text-cyan-200 border-cyan-500/50' : 'text-gray-400 border-gray-700 hover:bg-gray-800'}`}
+                >
+                  {format.label}{format.id === outputFormat ? ' (当前)' : ''}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">方式</label>
+            <div className="space-y-2">
+              {MODES.map(m => (
+                <label key={m.id} className="flex items-start gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input type="radio" checked={mode === m.id} onChange={() => setMode(m.id)} className="mt-1 accent-cyan-500" />
+                  <span><span className="font-bold">{m.label}</span><span className="block text-xs text-gray-500">{m.hint}</span></span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none">
+            <input type="checkbox" checked={skipExisting} onChange={e => setSkipExisting(e.target.checked)} className="accent-cyan-500" />
+            跳过已有 {getFormatLabel(target)} 版本的分镜 ({existing} 个)
+          </label>
+
+          <button
+            onClick={handleSubmit}
+            disabled={count === 0}
+            className="w-full py-2.5 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Crop size={16} /> 为 {count} 个分镜生成 {getFormatLabel(target)} 版本
+          </button>
+          <p className="text-xs text-gray-500 text-center">结果作为独立的画幅版本保存，不会替换原画面。</p>
+        </div>
+      </div>
+    </div>
+  );
+};
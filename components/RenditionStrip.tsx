@@ -0,0 +1,52 @@
+import React from 'react';
+import { ImageVersion, OutputFormat } from '../types';
+import { OUTPUT_FORMATS, getCssAspectRatio } from '../services/outputFormat';
+import { Crop, Download, X } from 'lucide-react';
+
+interface RenditionStripProps {
+  renditions?: Partial<Record<OutputFormat, ImageVersion>>;
+  onDownload: (format: OutputFormat, version: ImageVersion) => void;
+  onDelete: (format: OutputFormat) => void;
+}
+
+/**
+ * The panel's reframed copies for other delivery formats, one per format.
+ */
+export const RenditionStrip: React.FC<RenditionStripProps> = ({ renditions, onDownload, onDelete }) => {
+  const entries = OUTPUT_FORMATS
+    .map(format => ({ format, version: renditions?.[format.id] }))
+    .filter((e): e is { format: typeof e.format; version: ImageVersion } => !!e.version);
+  if (entries.length === 0) return null;
+
+  const handleDelete = (format: OutputFormat) => {
+    if (!confirm('删除这个画幅版本？')) return;
+    onDelete(format);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <Crop size={12} />
+        <span className="font-bold uppercase tracking-wider">画幅版本</span>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {entries.map(({ format, version }) => (
+          <div key={format.id} className="relative flex-shrink-0 group/rendition">
+            <a href={version.imageUrl} target="_blank" rel="noreferrer" className="block h-20 rounded overflow-hidden border-2 border-gray-800 hover:border-cyan-500 transition" style={{ aspectRatio: getCssAspectRatio(format.id) }}>
+              <img src={version.imageUrl} className="w-full h-full object-cover" />
+            </a>
+            <span className="absolute bottom-0.5 left-1 text-[10px] text-white/90 drop-shadow">{format.id}</span>
+            <div className="absolute top-0.5 right-0.5 flex gap-0.5 opacity-0 group-hover/rendition:opacity-100 transition">
+              <button onClick={() => onDownload(format.id, version)} className="p-0.5 rounded bg-black/70 text-gray-300 hover:text-white" title="下载">
+                <Download size={10} />
+              </button>
+              <button onClick={() => handleDelete(format.id)} className="p-0.5 rounded bg-black/70 text-gray-300 hover:text-red-400" title="删除此画幅版本">
+                <X size={10} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
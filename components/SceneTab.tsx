@@ -1,24 +1,73 @@
-import React, { useState } from 'react';
-import { Scene } from '../types';
-import { generateImage, constructScenePrompt, constructSceneGridPrompt } from '../services/geminiService';
-import { Plus, Trash2, RefreshCw, Save, Image as ImageIcon, Play, Grid3X3, Download, Layers } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { ImageHistory, ImageVersion, OutputFormat, Scene, StyleGuide } from '../types';
+import { editImageVersion, generateImageCandidates, constructScenePrompt, constructSceneGridPrompt } from '../services/geminiService';
+import { getImageCandidateCount } from '../services/providers';
+import { addVersions, getActiveVersion, getEditBase, pickCandidate, removeVersion, setActiveVersion } from '../services/imageHistory';
+import { JobSpec, enqueueBatch, enqueueJob, isTargetBusy, useJobQueue } from '../services/jobQueue';
+import { formatErrorMessage } from '../services/aiErrors';
+import { confirmWithinBudget } from './UsagePanel';
+import { getCssAspectRatio } from '../services/outputFormat';
+import { VersionFilmstrip } from './VersionFilmstrip';
+import { CandidatePicker } from './CandidatePicker';
+import { ImageEditDialog } from './ImageEditDialog';
+import { StyleStaleBadge } from './StyleStaleBadge';
+import { Plus, Trash2, RefreshCw, Save, Image as ImageIcon, Play, Grid3X3, Download, Layers, Wand2 } from 'lucide-react';
+
+// Each scene has two image slots, each with its own history
+type SceneImageSlot = 'panorama' | 'grid';
+
+const SLOT_FIELDS: Record<SceneImageSlot, {
+  url: 'imageUrl' | 'gridUrl';
+  history: 'imageHistory' | 'gridHistory';
+  stale: 'styleStale' | 'gridStyleStale';
+  label: string;
+}> = {
+  panorama: { url: 'imageUrl', history: 'imageHistory', stale: 'styleStale', label: '全景' },
+  grid: { url: 'gridUrl', history: 'gridHistory', stale: 'gridStyleStale', label: '细节九宫格' },
+};
 
 interface SceneTabProps {
   scenes: Scene[];
   setScenes: React.Dispatch<React.SetStateAction<Scene[]>>;
+  styleGuide: StyleGuide;
+  outputFormat: OutputFormat;
 }
 
-export const SceneTab: React.FC<SceneTabProps> = ({ scenes, setScenes }) => {
+export const SceneTab: React.FC<SceneTabProps> = ({ scenes, setScenes, styleGuide, outputFormat }) => {
   const [selectedId, setSelectedId] = useState<string | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [isGeneratingAll, setIsGeneratingAll] = useState(false);
-  const [progress, setProgress] = useState("");
+  const jobs = useJobQueue();
+  const [editingSlot, setEditingSlot] = useState<SceneImageSlot | null>(null);
   const [editForm, setEditForm] = useState<Partial<Scene>>({
     name: '',
     description: '',
     visualPrompt: '',
   });
 
+  // Generation jobs finish in the background; reflect new images in the open form
+  useEffect(() => {
+    const selected = scenes.find(s => s.id === selectedId);
+    if (selected && (
+      selected.imageUrl !== editForm.imageUrl || selected.gridUrl !== editForm.gridUrl ||
+      selected.imageHistory !== editForm.imageHistory || selected.gridHistory !== editForm.gridHistory ||
+      selected.candidates !== editForm.candidates || selected.styleStale !== editForm.styleStale ||
+      selected.gridStyleStale !== editForm.gridStyleStale
+    )) {
+      setEditForm(prev => ({
+        ...prev,
+        imageUrl: selected.imageUrl,
+        gridUrl: selected.gridUrl,
+        imageHistory: selected.imageHistory,
+        gridHistory: selected.gridHistory,
+        candidates: selected.candidates,
+        styleStale: selected.styleStale,
+        gridStyleStale: selected.gridStyleStale,
+      }));
+    }
+  }, [scenes]);
+
+  const isGenerating = !!selectedId && isTargetBusy(jobs, selectedId);
+  const pendingCount = scenes.filter(s => isTargetBusy(jobs, s.id)).length;
+
   const handleSelect = (scene: Scene) => {
     setSelectedId(scene.id);
     setEditForm(scene);
@@ -55,78 +104,114 @@ export const SceneTab: React.FC<SceneTabProps> = ({ scenes, setScenes }) => {
       document.body.removeChild(link);
   };
 
-  const handleGenerateFullSet = async () => {
-    if (!selectedId) return;
-    setIsGenerating(true);
-    
-    try {
-        // 1. Generate Panorama (16:9)
-        const panoramaPrompt = constructScenePrompt(editForm);
-        const panoramaImg = await generateImage(panoramaPrompt, "16:9");
+  // The panorama is framed like the panels it backs; the detail grid is always square
+  const slotAspectRatio = (slot: SceneImageSlot): OutputFormat => slot === 'panorama' ? outputFormat : '1:1';
 
-        // 2. Generate Grid (1:1) - Wait a bit to be polite
-        await new Promise(r => setTimeout(r, 500));
-        
-        const gridPrompt = constructSceneGridPrompt(editForm);
-        const gridImg = await generateImage(gridPrompt, "1:1");
+  const slotPrompt = (s: Partial<Scene>, slot: SceneImageSlot) =>
+    slot === 'panorama' ? constructScenePrompt(s, styleGuide) : constructSceneGridPrompt(s, styleGuide);
 
-        const updatedScene = { 
-            ...editForm, 
-            imageUrl: panoramaImg,
-            gridUrl: gridImg
-        };
-        
-        setEditForm(updatedScene);
-        setScenes(prev => prev.map(s => s.id === selectedId ? { ...s, imageUrl: panoramaImg, gridUrl: gridImg } : s));
+  // Several panorama takes wait in the candidate picker unless autoPick takes the first.
+  // Edits keep the old look, so they leave the slot's stale style flag in place.
+  const addSceneVersions = (sceneId: string, slot: SceneImageSlot, versions: ImageVersion[], autoPick: boolean, restyled: boolean = true) => {
+    const { url, history, stale } = SLOT_FIELDS[slot];
+    setScenes(prev => prev.map(s => {
+      if (s.id !== sceneId) return s;
+      if (versions.length > 1 && !autoPick) return { ...s, candidates: versions };
+      return {
+        ...s,
+        [url]: versions[0].imageUrl,
+        [history]: addVersions(s[history], versions, versions[0].id, s[url], slotPrompt(s, slot)),
+        ...(slot === 'panorama' ? { candidates: undefined } : {}),
+        [stale]: restyled ? undefined : s[stale],
+      };
+    }));
+  };
 
-    } catch (e) {
-        alert("生成失败，请稍后重试。");
-        console.error(e);
-    } finally {
-        setIsGenerating(false);
-    }
+  const pickPanoramaCandidate = (versionId: string, keepOthers: boolean) => {
+    setScenes(prev => prev.map(s => {
+      if (s.id !== selectedId || !s.candidates) return s;
+      const imageHistory = pickCandidate(s.imageHistory, s.candidates, versionId, keepOthers, s.imageUrl, constructScenePrompt(s, styleGuide));
+      return { ...s, imageHistory, candidates: undefined, styleStale: undefined, imageUrl: getActiveVersion(imageHistory)?.imageUrl };
+    }));
   };
 
-  const handleGenerateAll = async () => {
-    if (scenes.length === 0) return;
-    if (!confirm(`将为 ${scenes.length} 个场景自动生成【全套概念图】，耗时较长。是否继续？`)) return;
+  const updateSceneHistory = (slot: SceneImageSlot, update: (history: ImageHistory, versionId: string) => ImageHistory, versionId: string) => {
+    const { url, history } = SLOT_FIELDS[slot];
+    setScenes(prev => prev.map(s => {
+      const current = s[history];
+      if (s.id !== selectedId || !current) return s;
+      const next = update(current, versionId);
+      return { ...s, [history]: next, [url]: getActiveVersion(next)?.imageUrl };
+    }));
+  };
 
-    setIsGeneratingAll(true);
-    let count = 0;
-    
-    for (const scene of scenes) {
-        count++;
-        setProgress(`${count}/${scenes.length}`);
-        try {
-            // Panorama
-            const panPrompt = constructScenePrompt(scene);
-            const panImg = await generateImage(panPrompt, "16:9");
-            
-            await new Promise(r => setTimeout(r, 1000));
+  // Full set = panorama in the project format (with candidates) + 1:1 detail grid, queued as two jobs
+  const buildFullSetJobs = (scene: Partial<Scene> & { id: string }, autoPick: boolean = false): JobSpec<ImageVersion[]>[] => [
+    {
+      kind: 'image',
+      label: `场景全景：${scene.name}`,
+      targetId: scene.id,
+      task: () => generateImageCandidates(constructScenePrompt(scene, styleGuide), slotAspectRatio('panorama')),
+      onSuccess: versions => addSceneVersions(scene.id, 'panorama', versions, autoPick),
+    },
+    {
+      kind: 'image',
+      label: `场景细节九宫格：${scene.name}`,
+      targetId: scene.id,
+      task: () => generateImageCandidates(constructSceneGridPrompt(scene, styleGuide), "1:1", [], 1),
+      onSuccess: versions => addSceneVersions(scene.id, 'grid', versions, true),
+    },
+  ];
 
-            // Grid
-            const gridPrompt = constructSceneGridPrompt(scene);
-            const gridImg = await generateImage(gridPrompt, "1:1");
-            
-            setScenes(prev => prev.map(s => s.id === scene.id ? { ...s, imageUrl: panImg, gridUrl: gridImg } : s));
-            
-            if (selectedId === scene.id) {
-                setEditForm(prev => ({ ...prev, imageUrl: panImg, gridUrl: gridImg }));
-            }
-            
-            await new Promise(r => setTimeout(r, 1000));
-        } catch (e) {
-            console.error(`Failed to generate for ${scene.name}`, e);
-        }
-    }
-    
-    setIsGeneratingAll(false);
-    setProgress("");
-    alert("批量场景生成完成！");
+  // Images the full set costs: panorama candidates plus one grid
+  const fullSetImageCount = () => getImageCandidateCount() + 1;
+
+  const handleGenerateFullSet = () => {
+    if (!selectedId) return;
+    // Generate from the form as currently edited, even if not yet saved
+    const jobSpecs = buildFullSetJobs({ ...editForm, id: selectedId })
+      .map(spec => ({ ...spec, onError: (e: unknown) => alert(formatErrorMessage("场景图生成失败", e)) }));
+    if (!confirmWithinBudget('image', fullSetImageCount())) return;
+    enqueueBatch(`场景全套：${editForm.name}`, jobSpecs);
+  };
+
+  const handleEditImage = (slot: SceneImageSlot, base: ImageVersion, instruction: string) => {
+    if (!selectedId) return;
+    const sceneId = selectedId;
+    enqueueJob<ImageVersion[]>({
+      kind: 'image',
+      label: `修改场景${SLOT_FIELDS[slot].label}：${editForm.name}：${instruction}`,
+      targetId: sceneId,
+      task: async () => [await editImageVersion(base, instruction, slotAspectRatio(slot))],
+      onSuccess: versions => addSceneVersions(sceneId, slot, versions, true, false),
+      onError: e => alert(formatErrorMessage("场景图修改失败", e)),
+    });
   };
 
+  const handleGenerateAll = () => {
+    const targets = scenes.filter(s => !isTargetBusy(jobs, s.id));
+    if (targets.length === 0) return;
+    if (!confirm(`将为 ${targets.length} 个场景自动生成【全套概念图】，任务将加入生成队列。是否继续？`)) return;
+
+    if (!confirmWithinBudget('image', targets.length * fullSetImageCount())) return;
+    enqueueBatch('批量生成场景全套', targets.flatMap(s => buildFullSetJobs(s, true)));
+  };
+
+  const editBase = editingSlot
+    ? getEditBase(editForm[SLOT_FIELDS[editingSlot].history], editForm[SLOT_FIELDS[editingSlot].url], slotPrompt(editForm, editingSlot))
+    : undefined;
+
   return (
     <div className="flex h-full">
+      {editingSlot && editBase && (
+        <ImageEditDialog
+          title={`修改场景${SLOT_FIELDS[editingSlot].label}：${editForm.name}`}
+          base={editBase}
+          onSubmit={instruction => handleEditImage(editingSlot, editBase, instruction)}
+          onClose={() => setEditingSlot(null)}
+        />
+      )}
+
       {/* List */}
       <div className="w-80 border-r border-gray-800 bg-gray-900 overflow-y-auto">
         <div className="p-4 flex justify-between items-center border-b border-gray-800 sticky top-0 bg-gray-900 z-10">
@@ -134,14 +219,14 @@ export const SceneTab: React.FC<SceneTabProps> = ({ scenes, setScenes }) => {
           <div className="flex gap-2">
             <button 
                 onClick={handleGenerateAll}
-                disabled={isGeneratingAll || scenes.length === 0}
+                disabled={scenes.length === 0}
                 className="p-2 bg-blue-900/50 hover:bg-blue-800 text-blue-200 rounded-lg transition disabled:opacity-50 flex items-center gap-2"
                 title="一键生成所有场景全套"
             >
-               {isGeneratingAll ? (
+               {pendingCount > 0 ? (
                    <>
                     <RefreshCw size={20} className="animate-spin"/>
-                    <span className="text-xs font-mono">{progress}</span>
+                    <span className="text-xs font-mono">{pendingCount}</span>
                    </>
                ) : <Play size={20} />}
             </button>
@@ -160,12 +245,13 @@ export const SceneTab: React.FC<SceneTabProps> = ({ scenes, setScenes }) => {
               onClick={() => handleSelect(scene)}
               className={`p-3 rounded-xl cursor-pointer flex items-center gap-3 transition ${selectedId === scene.id ? 'bg-gray-800 border border-blue-500/50' : 'hover:bg-gray-800/50 border border-transparent'}`}
             >
-              <div className="w-16 h-10 bg-gray-700 rounded overflow-hidden flex-shrink-0">
+              <div className="w-16 h-10 bg-gray-700 rounded overflow-hidden flex-shrink-0 relative">
                 {scene.imageUrl ? (
                   <img src={scene.imageUrl} className="w-full h-full object-cover" alt={scene.name} />
                 ) : (
                   <div className="w-full h-full flex items-center justify-center text-gray-500">?</div>
                 )}
+                {(scene.styleStale || scene.gridStyleStale) && <div className="absolute bottom-0.5 right-0.5"><StyleStaleBadge compact /></div>}
               </div>
               <div className="min-w-0">
                 <p className="font-medium text-gray-200 truncate">{scene.name}</p>
@@ -226,7 +312,7 @@ export const SceneTab: React.FC<SceneTabProps> = ({ scenes, setScenes }) => {
                 <div className="flex gap-4">
                     <button 
                     onClick={handleGenerateFullSet}
-                    disabled={isGenerating || isGeneratingAll}
+                    disabled={isGenerating}
                     className="w-full py-4 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 text-white font-bold rounded-lg flex items-center justify-center gap-2 transition disabled:opacity-50"
                     >
                     {isGenerating ? <RefreshCw className="animate-spin" /> : <Layers />}
@@ -240,14 +326,17 @@ export const SceneTab: React.FC<SceneTabProps> = ({ scenes, setScenes }) => {
                   {/* Panorama Slot */}
                   <div className="space-y-2">
                       <div className="flex justify-between items-center">
-                        <label className="text-sm font-medium text-gray-400">全景图 (Panorama)</label>
+                        <label className="text-sm font-medium text-gray-400 flex items-center gap-2">全景图 (Panorama) {editForm.styleStale && <StyleStaleBadge />}</label>
                         {editForm.imageUrl && (
+                          <div className="flex gap-3">
+                            <button onClick={() => setEditingSlot('panorama')} disabled={isGenerating} className="text-xs text-purple-400 hover:text-purple-300 flex items-center gap-1 disabled:opacity-50"><Wand2 size={14}/> AI 修改</button>
                             <button onClick={() => handleDownload(editForm.imageUrl!, editForm.name!, "全景")} className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"><Download size={14}/> 下载</button>
+                          </div>
                         )}
                       </div>
-                      <div className="w-full aspect-video bg-gray-900 rounded-xl border-2 border-dashed border-gray-800 flex items-center justify-center overflow-hidden">
+                      <div className="w-full bg-gray-900 rounded-xl border-2 border-dashed border-gray-800 flex items-center justify-center overflow-hidden" style={{ aspectRatio: getCssAspectRatio(outputFormat) }}>
                         {editForm.imageUrl ? (
-                            <img src={editForm.imageUrl} className="w-full h-full object-cover" alt="Panorama" />
+                            <img src={editForm.imageUrl} className="w-full h-full object-contain" alt="Panorama" />
                         ) : (
                             <div className="text-center p-4">
                                 <ImageIcon className="w-8 h-8 text-gray-700 mx-auto mb-2" />
@@ -255,14 +344,29 @@ export const SceneTab: React.FC<SceneTabProps> = ({ scenes, setScenes }) => {
                             </div>
                         )}
                       </div>
+                      {editForm.candidates && editForm.candidates.length > 0 && (
+                        <CandidatePicker
+                          candidates={editForm.candidates}
+                          onPick={pickPanoramaCandidate}
+                          onDiscard={() => setScenes(prev => prev.map(s => s.id === selectedId ? { ...s, candidates: undefined } : s))}
+                        />
+                      )}
+                      <VersionFilmstrip
+                        history={editForm.imageHistory}
+                        onSelect={versionId => updateSceneHistory('panorama', setActiveVersion, versionId)}
+                        onDelete={versionId => updateSceneHistory('panorama', removeVersion, versionId)}
+                      />
                   </div>
 
                   {/* Grid Slot */}
                   <div className="space-y-2">
                       <div className="flex justify-between items-center">
-                        <label className="text-sm font-medium text-gray-400">9宫格细节 (Grid)</label>
+                        <label className="text-sm font-medium text-gray-400 flex items-center gap-2">9宫格细节 (Grid) {editForm.gridStyleStale && <StyleStaleBadge />}</label>
                         {editForm.gridUrl && (
+                          <div className="flex gap-3">
+                            <button onClick={() => setEditingSlot('grid')} disabled={isGenerating} className="text-xs text-purple-400 hover:text-purple-300 flex items-center gap-1 disabled:opacity-50"><Wand2 size={14}/> AI 修改</button>
                             <button onClick={() => handleDownload(editForm.gridUrl!, editForm.name!, "细节")} className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"><Download size={14}/> 下载</button>
+                          </div>
                         )}
                       </div>
                       <div className="w-full aspect-square bg-gray-900 rounded-xl border-2 border-dashed border-gray-800 flex items-center justify-center overflow-hidden">
@@ -275,6 +379,11 @@ export const SceneTab: React.FC<SceneTabProps> = ({ scenes, setScenes }) => {
                             </div>
                         )}
                       </div>
+                      <VersionFilmstrip
+                        history={editForm.gridHistory}
+                        onSelect={versionId => updateSceneHistory('grid', setActiveVersion, versionId)}
+                        onDelete={versionId => updateSceneHistory('grid', removeVersion, versionId)}
+                      />
                   </div>
               </div>
             </div>
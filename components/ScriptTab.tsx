@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { extractWorldInfo, analyzeScript, constructPanelPrompt } from '../services/geminiService';
-import { Character, Scene, AppTab, ScriptPanel, StoryboardFrame } from '../types';
+import { extractWorldInfoInChunks, analyzeScriptInChunks, constructPanelPrompt } from '../services/geminiService';
+import { splitScript } from '../services/scriptChunker';
+import { formatErrorMessage } from '../services/aiErrors';
+import { confirmWithinBudget } from './UsagePanel';
+import { Character, Scene, AppTab, ScriptPanel, StoryboardFrame, StyleGuide } from '../types';
 import { Sparkles, ArrowRight, Save, FileText, Loader2, CheckCircle2 } from 'lucide-react';
 
 interface ScriptTabProps {
@@ -10,6 +13,7 @@ interface ScriptTabProps {
   setScenes: React.Dispatch<React.SetStateAction<Scene[]>>;
   setFrames: React.Dispatch<React.SetStateAction<StoryboardFrame[]>>;
   setActiveTab: (tab: AppTab) => void;
+  styleGuide: StyleGuide;
 }
 
 export const ScriptTab: React.FC<ScriptTabProps> = ({ 
@@ -18,9 +22,12 @@ export const ScriptTab: React.FC<ScriptTabProps> = ({
   setCharacters, 
   setScenes, 
   setFrames,
-  setActiveTab 
+  setActiveTab,
+  styleGuide
 }) => {
   const [status, setStatus] = useState<'idle' | 'extracting' | 'storyboarding' | 'done'>('idle');
+  // Current chunk (1-based) and chunk count while a long script is analyzed in parts
+  const [chunkProgress, setChunkProgress] = useState<{ current: number; total: number } | null>(null);
   const [extractedData, setExtractedData] = useState<{
     characters: Partial<Character>[], 
     scenes: Partial<Scene>[],
@@ -30,15 +37,21 @@ export const ScriptTab: React.FC<ScriptTabProps> = ({
   const handleAnalyze = async () => {
     if (!script.trim()) return;
     
+    // Long scripts are analyzed in parts to stay within the model's output limit
+    const chunks = splitScript(script);
+    // Two text calls per chunk: world info, then panels
+    if (!confirmWithinBudget('text', chunks.length * 2)) return;
+    const onProgress = (index: number, total: number) => setChunkProgress({ current: index + 1, total });
+
     try {
       // Step 1: Extract World Info
       setStatus('extracting');
-      const worldData = await extractWorldInfo(script);
+      const worldData = await extractWorldInfoInChunks(chunks, onProgress);
       
       // Step 2: Generate Storyboard Script (using extracted characters for context)
       setStatus('storyboarding');
       // We cast Partial<Character> to Character[] for the service, as it only needs names
-      const panels = await analyzeScript(script, worldData.characters as Character[]);
+      const panels = await analyzeScriptInChunks(chunks, worldData.characters as Character[], onProgress);
 
       setExtractedData({
         characters: worldData.characters,
@@ -48,12 +61,16 @@ export const ScriptTab: React.FC<ScriptTabProps> = ({
       setStatus('done');
 
     } catch (e) {
-      alert("全流程分析失败，请检查 API Key 设置或重试。");
+      alert(formatErrorMessage("全流程分析失败", e));
       console.error(e);
       setStatus('idle');
+    } finally {
+      setChunkProgress(null);
     }
   };
 
+  const chunkLabel = chunkProgress && chunkProgress.total > 1 ? ` (第 ${chunkProgress.current}/${chunkProgress.total} 段)` : '';
+
   const handleApply = () => {
     if (!extractedData) return;
     
@@ -89,7 +106,8 @@ export const ScriptTab: React.FC<ScriptTabProps> = ({
         const initialPrompt = constructPanelPrompt(
             p, 
             newChars, 
-            matchedScene
+            matchedScene,
+            styleGuide
         );
 
         return {
@@ -137,8 +155,8 @@ export const ScriptTab: React.FC<ScriptTabProps> = ({
             } disabled:opacity-50 disabled:cursor-not-allowed`}
         >
             {status === 'idle' && <><Sparkles /> 开始全流程智能分析</>}
-            {status === 'extracting' && <><Loader2 className="animate-spin" /> 正在提取角色与场景...</>}
-            {status === 'storyboarding' && <><Loader2 className="animate-spin" /> 正在生成分镜脚本...</>}
+            {status === 'extracting' && <><Loader2 className="animate-spin" /> 正在提取角色与场景{chunkLabel}...</>}
+            {status === 'storyboarding' && <><Loader2 className="animate-spin" /> 正在生成分镜脚本{chunkLabel}...</>}
             {status === 'done' && <><CheckCircle2 /> 分析完成 - 请在右侧确认</>}
         </button>
       </div>
@@ -1,7 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { Save, Trash2, Key, CheckCircle, AlertCircle } from 'lucide-react';
+import { ProviderSettingsPanel } from './ProviderSettingsPanel';
+import { UsagePanel } from './UsagePanel';
+import { StyleGuidePanel } from './StyleGuidePanel';
+import { OutputFormatPanel } from './OutputFormatPanel';
+import { OutputFormat, StyleGuide } from '../types';
 
-export const SettingsTab: React.FC = () => {
+interface SettingsTabProps {
+  styleGuide: StyleGuide;
+  onStyleGuideChange: (styleGuide: StyleGuide) => void;
+  outputFormat: OutputFormat;
+  onOutputFormatChange: (outputFormat: OutputFormat) => void;
+}
+
+export const SettingsTab: React.FC<SettingsTabProps> = ({ styleGuide, onStyleGuideChange, outputFormat, onOutputFormatChange }) => {
   const [apiKey, setApiKey] = useState('');
   const [savedKey, setSavedKey] = useState('');
   const [status, setStatus] = useState<'idle' | 'success' | 'deleted'>('idle');
@@ -31,7 +43,7 @@ export const SettingsTab: React.FC = () => {
   };
 
   return (
-    <div className="h-full flex flex-col items-center justify-center p-8 bg-gray-950">
+    <div className="h-full overflow-y-auto flex flex-col items-center gap-6 p-8 bg-gray-950">
       <div className="max-w-md w-full bg-gray-900 border border-gray-800 rounded-2xl p-8 shadow-xl">
         <div className="flex items-center gap-3 mb-6">
           <div className="p-3 bg-purple-600/20 rounded-xl">
@@ -97,6 +109,14 @@ export const SettingsTab: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <ProviderSettingsPanel />
+
+      <OutputFormatPanel outputFormat={outputFormat} onChange={onOutputFormatChange} />
+
+      <StyleGuidePanel styleGuide={styleGuide} onChange={onStyleGuideChange} />
+
+      <UsagePanel />
     </div>
   );
 };
\ No newline at end of file
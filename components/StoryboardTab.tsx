@@ -1,7 +1,25 @@
-import React from 'react';
-import { Character, Scene, StoryboardFrame } from '../types';
-import { constructPanelPrompt, generateImage } from '../services/geminiService';
-import { Play, Download, Edit2, RefreshCw, MapPin, Image as ImageIcon, CheckSquare, Square } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Character, ImageVersion, OutputFormat, Scene, StoryboardFrame, StyleGuide } from '../types';
+import { collectPanelReferences, constructPanelPrompt, editImageVersion, generateImageCandidates, inpaintImageVersion, reframeImageVersion, ReframeMode } from '../services/geminiService';
+import { getImageCandidateCount } from '../services/providers';
+import { diffText } from '../services/textDiff';
+import { JobSpec, enqueueBatch, enqueueJob, isTargetBusy, useJobQueue } from '../services/jobQueue';
+import { formatErrorMessage } from '../services/aiErrors';
+import { confirmWithinBudget } from './UsagePanel';
+import { getCssAspectRatio, getFormatLabel, getFormatRatio, isPortraitFormat, matchesFormat, measureImageRatio } from '../services/outputFormat';
+import { addVersion, addVersions, getActiveVersion, getEditBase, pickCandidate, removeVersion, setActiveVersion } from '../services/imageHistory';
+import { deleteFrame, duplicateFrame, insertFrame, mergeWithNext, splitFrame } from '../services/storyboardEdit';
+import { getDialogueLines, withDialogueLines } from '../services/dialogue';
+import { AnimaticExportDialog } from './AnimaticExportDialog';
+import { VersionFilmstrip } from './VersionFilmstrip';
+import { CandidatePicker } from './CandidatePicker';
+import { ImageEditDialog } from './ImageEditDialog';
+import { MaskEditor } from './MaskEditor';
+import { StyleStaleBadge } from './StyleStaleBadge';
+import { ReframeDialog } from './ReframeDialog';
+import { RenditionStrip } from './RenditionStrip';
+import { DialogueLinesEditor } from './DialogueLinesEditor';
+import { Play, Download, Edit2, RefreshCw, MapPin, Image as ImageIcon, CheckSquare, Square, Link2, Lock, Unlock, GitCompare, Film, Wand2, ArrowUpToLine, ArrowDownToLine, Copy, Scissors, Merge, Trash2, Plus, Brush, Crop } from 'lucide-react';
 
 interface StoryboardTabProps {
   characters: Character[];
@@ -9,52 +27,195 @@ interface StoryboardTabProps {
   script: string;
   frames: StoryboardFrame[];
   setFrames: React.Dispatch<React.SetStateAction<StoryboardFrame[]>>;
+  styleGuide: StyleGuide;
+  outputFormat: OutputFormat;
 }
 
 export const StoryboardTab: React.FC<StoryboardTabProps> = ({
   characters,
   scenes,
   frames,
-  setFrames
+  setFrames,
+  styleGuide,
+  outputFormat
 }) => {
-  
-  const generateFrame = async (frame: StoryboardFrame) => {
-    setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, status: 'generating' } : f));
+  // Frames whose prompt panel shows the manual-vs-auto diff
+  const [diffFrameIds, setDiffFrameIds] = useState<string[]>([]);
+  const [showAnimaticExport, setShowAnimaticExport] = useState(false);
+  const [editingFrameId, setEditingFrameId] = useState<string | null>(null);
+  const [maskingFrameId, setMaskingFrameId] = useState<string | null>(null);
+  const [showReframe, setShowReframe] = useState(false);
+  const jobs = useJobQueue();
+  // Image URL -> width/height, to flag panels that don't fit the project format
+  const [imageRatios, setImageRatios] = useState<Record<string, number>>({});
 
-    try {
-      // FIX: Always reconstruct the prompt based on CURRENT state (scene binding, characters)
-      // This ensures that if the user changed the scene dropdown, it IS included in the new generation.
+  const buildAutoPrompt = (frame: StoryboardFrame) =>
+      constructPanelPrompt(frame, characters, scenes.find(s => s.id === frame.assignedSceneId), styleGuide);
+
+  // Keep unlocked prompts in sync when characters, scenes or the style are edited in other tabs
+  useEffect(() => {
+      setFrames(prev => {
+          let changed = false;
+          const next = prev.map(f => {
+              if (f.promptLocked) return f;
+              const autoPrompt = buildAutoPrompt(f);
+              if (autoPrompt === f.currentPrompt) return f;
+              changed = true;
+              return { ...f, currentPrompt: autoPrompt };
+          });
+          return changed ? next : prev;
+      });
+  }, [characters, scenes, styleGuide]);
+
+  useEffect(() => {
+      // Forget replaced takes so their data URLs can be freed
+      const current = new Set(frames.map(f => f.generatedImageUrl));
+      setImageRatios(prev => {
+          const stale = Object.keys(prev).filter(url => !current.has(url));
+          if (stale.length === 0) return prev;
+          const next = { ...prev };
+          stale.forEach(url => delete next[url]);
+          return next;
+      });
+      frames.forEach(f => {
+          const url = f.generatedImageUrl;
+          if (!url || imageRatios[url] !== undefined) return;
+          measureImageRatio(url)
+              .then(ratio => setImageRatios(prev => ({ ...prev, [url]: ratio })))
+              .catch(e => console.warn('Failed to measure panel image', e));
+      });
+  }, [frames]);
+
+  const isFormatMismatch = (frame: StoryboardFrame) => {
+      const ratio = frame.generatedImageUrl ? imageRatios[frame.generatedImageUrl] : undefined;
+      return ratio !== undefined && !matchesFormat(ratio, outputFormat);
+  };
+
+  // With several candidates the artist picks one, unless autoPick takes the first (batch mode)
+  const buildFrameJob = (frame: StoryboardFrame, autoPick: boolean = false): JobSpec<ImageVersion[]> => ({
+    kind: 'image',
+    label: `分镜 #${frame.panelNumber}`,
+    targetId: frame.id,
+    task: async () => {
+      // Locked prompts are used exactly as written. Otherwise reconstruct from CURRENT state
+      // (scene binding, characters) so a changed scene dropdown IS included in the new generation.
       const assignedScene = scenes.find(s => s.id === frame.assignedSceneId);
-      const promptToUse = constructPanelPrompt(frame, characters, assignedScene);
+      const prompt = frame.promptLocked ? frame.currentPrompt : buildAutoPrompt(frame);
+
+      // Attach approved character sheets / scene panorama so identities don't drift between panels
+      const excluded = frame.excludedReferenceIds || [];
+      const references = collectPanelReferences(frame, characters, assignedScene)
+        .filter(ref => !excluded.includes(ref.sourceId));
+
+      return generateImageCandidates(prompt, outputFormat, references);
+    },
+    onStart: () => setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, status: 'generating' } : f)),
+    onSuccess: versions => setFrames(prev => prev.map(f => {
+      if (f.id !== frame.id) return f;
+      const prompt = versions[0].prompt; // Save the prompt we actually used
+      if (versions.length > 1 && !autoPick) {
+        return { ...f, status: f.generatedImageUrl ? 'done' : 'pending', candidates: versions, currentPrompt: prompt };
+      }
+      return {
+        ...f,
+        status: 'done',
+        generatedImageUrl: versions[0].imageUrl,
+        imageHistory: addVersions(f.imageHistory, versions, versions[0].id, f.generatedImageUrl, f.currentPrompt),
+        candidates: undefined,
+        styleStale: undefined,
+        currentPrompt: prompt
+      };
+    })),
+    onError: () => setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, status: 'error' } : f)),
+    onStop: () => setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, status: f.generatedImageUrl ? 'done' : 'pending' } : f)),
+  });
 
-      const imageUrl = await generateImage(promptToUse, "16:9");
+  const generateFrame = (frame: StoryboardFrame) => {
+    const job = buildFrameJob(frame);
+    enqueueJob({
+      ...job,
+      onError: e => {
+        job.onError?.(e);
+        alert(formatErrorMessage(`生成失败 (Frame ${frame.panelNumber})`, e));
+      },
+    });
+  };
 
-      setFrames(prev => prev.map(f => f.id === frame.id ? {
+  // Edits start from the active take and land as a new active take
+  const runFrameEdit = (frame: StoryboardFrame, label: string, instruction: string, task: () => Promise<ImageVersion>) => {
+    enqueueJob<ImageVersion>({
+      kind: 'image',
+      label: `${label}分镜 #${frame.panelNumber}：${instruction}`,
+      targetId: frame.id,
+      task,
+      onStart: () => setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, status: 'generating' } : f)),
+      onSuccess: version => setFrames(prev => prev.map(f => f.id === frame.id ? {
         ...f,
         status: 'done',
-        generatedImageUrl: imageUrl,
-        currentPrompt: promptToUse // Save the prompt we actually used
-      } : f));
-
-    } catch (e) {
-      setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, status: 'error' } : f));
-      console.error(e);
-      alert(`生成失败 (Frame ${frame.panelNumber}): 请重试`);
-    }
+        generatedImageUrl: version.imageUrl,
+        imageHistory: addVersion(f.imageHistory, version, f.generatedImageUrl, f.currentPrompt),
+      } : f)),
+      onError: e => {
+        setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, status: 'done' } : f));
+        alert(formatErrorMessage(`${label}失败 (Frame ${frame.panelNumber})`, e));
+      },
+      onStop: () => setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, status: 'done' } : f)),
+    });
+  };
+
+  const editFrame = (frame: StoryboardFrame, base: ImageVersion, instruction: string) =>
+    runFrameEdit(frame, '修改', instruction, () => editImageVersion(base, instruction, outputFormat));
+
+  const inpaintFrame = (frame: StoryboardFrame, base: ImageVersion, maskDataUrl: string, prompt: string) =>
+    runFrameEdit(frame, '局部重绘', prompt, () => inpaintImageVersion(base, maskDataUrl, prompt, outputFormat));
+
+  const handleGenerateAll = () => {
+    // Generate 'Pending' or 'Error' frames, skip 'Done' unless user explicitly clicks individual regenerate
+    const targets = frames.filter(f => (!f.generatedImageUrl || f.status === 'error') && !isTargetBusy(jobs, f.id, 'image'));
+    if (targets.length === 0) return;
+    if(!confirm(`即将批量生成 ${targets.length} 个未完成的分镜，任务将加入生成队列。是否继续？`)) return;
+    if (!confirmWithinBudget('image', targets.length * getImageCandidateCount())) return;
+
+    enqueueBatch('批量生成分镜画面', targets.map(f => buildFrameJob(f, true)));
+  };
+
+  // Renditions sit beside the main image, so the frame's own status is left alone
+  const handleReframe = (target: OutputFormat, mode: ReframeMode, skipExisting: boolean) => {
+    const targets = frames.filter(f =>
+      f.generatedImageUrl && !(skipExisting && f.renditions?.[target]) && !isTargetBusy(jobs, f.id, 'image')
+    );
+    if (targets.length === 0) return;
+    if (!confirmWithinBudget('image', targets.length)) return;
+
+    enqueueBatch(`改画幅为 ${getFormatLabel(target)}`, targets.map((frame): JobSpec<ImageVersion> => ({
+      kind: 'image',
+      label: `改画幅 分镜 #${frame.panelNumber} → ${target}`,
+      targetId: frame.id,
+      task: () => reframeImageVersion(getEditBase(frame.imageHistory, frame.generatedImageUrl, frame.currentPrompt)!, target, mode),
+      onSuccess: version => setFrames(prev => prev.map(f => f.id === frame.id ? {
+        ...f,
+        renditions: { ...f.renditions, [target]: version },
+      } : f)),
+    })));
+  };
+
+  const deleteRendition = (frameId: string, format: OutputFormat) => {
+    setFrames(prev => prev.map(f => {
+      if (f.id !== frameId || !f.renditions) return f;
+      const { [format]: _removed, ...rest } = f.renditions;
+      return { ...f, renditions: Object.keys(rest).length > 0 ? rest : undefined };
+    }));
   };
 
-  const handleGenerateAll = async () => {
-    if(!confirm(`即将批量生成 ${frames.filter(f => !f.generatedImageUrl).length} 个未完成的分镜，是否继续？`)) return;
-
-    for (const frame of frames) {
-        // Only generate if not already done (to save tokens), or forcing? 
-        // Logic: Generate 'Pending' or 'Error' frames, skip 'Done' unless user explicitly clicks individual regenerate
-        if (!frame.generatedImageUrl || frame.status === 'error') {
-            await generateFrame(frame);
-            // Delay to prevent rate limits
-            await new Promise(r => setTimeout(r, 2000));
-        }
-    }
+  // Panels drawn in an old style or for a different format
+  const outdatedFrames = frames.filter(f => (f.styleStale || isFormatMismatch(f)) && !isTargetBusy(jobs, f.id, 'image'));
+
+  const handleRegenerateOutdated = () => {
+    if (outdatedFrames.length === 0) return;
+    if (!confirm(`即将按当前风格与画幅重绘 ${outdatedFrames.length} 个分镜，任务将加入生成队列。是否继续？`)) return;
+    if (!confirmWithinBudget('image', outdatedFrames.length * getImageCandidateCount())) return;
+
+    enqueueBatch('按当前风格与画幅重绘分镜', outdatedFrames.map(f => buildFrameJob(f, true)));
   };
 
   // Helper to reconstruct prompt immediately when dependencies change (visual feedback only)
@@ -67,21 +228,49 @@ export const StoryboardTab: React.FC<StoryboardTabProps> = ({
           if (f.id !== frameId) return f;
           
           const updatedFrame = { ...f, ...updates };
-          
-          // Optional: We can update the preview prompt here too, but generateFrame handles the real logic
-          const scene = scenes.find(s => s.id === updatedFrame.assignedSceneId);
-          const newPrompt = constructPanelPrompt(updatedFrame, characters, scene);
+          if (updatedFrame.promptLocked) return updatedFrame;
 
-          return { ...updatedFrame, currentPrompt: newPrompt };
+          return { ...updatedFrame, currentPrompt: buildAutoPrompt(updatedFrame) };
       }));
   };
 
+  // Structural edits create or combine panel text, so unlocked prompts are rebuilt afterwards
+  const applyStructureEdit = (edit: (prev: StoryboardFrame[]) => StoryboardFrame[]) => {
+      setFrames(prev => edit(prev).map(f => f.promptLocked ? f : { ...f, currentPrompt: buildAutoPrompt(f) }));
+  };
+
+  const handleDeleteFrame = (frame: StoryboardFrame) => {
+      if (!confirm(`确定删除分镜 #${frame.panelNumber} 吗？已生成的画面与配音将一并删除。`)) return;
+      applyStructureEdit(prev => deleteFrame(prev, frame.id));
+  };
+
+  const handleMergeWithNext = (index: number) => {
+      if (!confirm(`将分镜 #${index + 1} 与 #${index + 2} 合并？合并后保留 #${index + 1} 的画面。`)) return;
+      applyStructureEdit(prev => mergeWithNext(prev, index));
+  };
+
   const handleAssignScene = (frameId: string, sceneId: string) => {
     updateFrameData(frameId, { assignedSceneId: sceneId });
   };
 
+  // Hand-editing a prompt locks it so later scene/character changes don't overwrite it
   const updateFramePromptManual = (frameId: string, newPrompt: string) => {
-      setFrames(prev => prev.map(f => f.id === frameId ? { ...f, currentPrompt: newPrompt } : f));
+      setFrames(prev => prev.map(f => f.id === frameId ? { ...f, currentPrompt: newPrompt, promptLocked: true } : f));
+  };
+
+  const togglePromptLock = (frame: StoryboardFrame) => {
+      if (!frame.promptLocked) {
+          setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, promptLocked: true } : f));
+          return;
+      }
+      const autoPrompt = buildAutoPrompt(frame);
+      if (autoPrompt !== frame.currentPrompt && !confirm("解锁后将丢弃手动修改，恢复为自动生成的提示词。是否继续？")) return;
+      setFrames(prev => prev.map(f => f.id === frame.id ? { ...f, promptLocked: false, currentPrompt: autoPrompt } : f));
+      setDiffFrameIds(prev => prev.filter(id => id !== frame.id));
+  };
+
+  const toggleDiffView = (frameId: string) => {
+      setDiffFrameIds(prev => prev.includes(frameId) ? prev.filter(id => id !== frameId) : [...prev, frameId]);
   };
 
   const toggleCharacterInFrame = (frameId: string, charName: string) => {
@@ -96,17 +285,104 @@ export const StoryboardTab: React.FC<StoryboardTabProps> = ({
       updateFrameData(frameId, { charactersPresent: newList });
   };
 
-  const handleDownload = (url: string, id: number) => {
+  const toggleReferenceInFrame = (frameId: string, sourceId: string) => {
+      setFrames(prev => prev.map(f => {
+          if (f.id !== frameId) return f;
+          const excluded = f.excludedReferenceIds || [];
+          return {
+              ...f,
+              excludedReferenceIds: excluded.includes(sourceId)
+                  ? excluded.filter(id => id !== sourceId)
+                  : [...excluded, sourceId]
+          };
+      }));
+  };
+
+  // Switching takes only swaps the image; the prompt box keeps describing the next generation
+  const selectFrameVersion = (frameId: string, versionId: string) => {
+      setFrames(prev => prev.map(f => {
+          if (f.id !== frameId || !f.imageHistory) return f;
+          const imageHistory = setActiveVersion(f.imageHistory, versionId);
+          return { ...f, imageHistory, generatedImageUrl: getActiveVersion(imageHistory)?.imageUrl };
+      }));
+  };
+
+  const pickFrameCandidate = (frameId: string, versionId: string, keepOthers: boolean) => {
+      setFrames(prev => prev.map(f => {
+          if (f.id !== frameId || !f.candidates) return f;
+          const imageHistory = pickCandidate(f.imageHistory, f.candidates, versionId, keepOthers, f.generatedImageUrl, f.currentPrompt);
+          return { ...f, imageHistory, candidates: undefined, styleStale: undefined, status: 'done', generatedImageUrl: getActiveVersion(imageHistory)?.imageUrl };
+      }));
+  };
+
+  const discardFrameCandidates = (frameId: string) => {
+      setFrames(prev => prev.map(f => f.id === frameId ? { ...f, candidates: undefined } : f));
+  };
+
+  const deleteFrameVersion = (frameId: string, versionId: string) => {
+      setFrames(prev => prev.map(f => {
+          if (f.id !== frameId || !f.imageHistory) return f;
+          const imageHistory = removeVersion(f.imageHistory, versionId);
+          return { ...f, imageHistory, generatedImageUrl: getActiveVersion(imageHistory)?.imageUrl };
+      }));
+  };
+
+  const handleDownload = (url: string, id: number, suffix: string = '') => {
     const link = document.createElement('a');
     link.href = url;
-    link.download = `storyboard_panel_${id}.png`;
+    link.download = `storyboard_panel_${id}${suffix}.png`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const isPortrait = isPortraitFormat(outputFormat);
+
+  // Capped by height so a 9:16 or square panel doesn't fill several screens
+  const canvasStyle: React.CSSProperties = {
+      aspectRatio: getCssAspectRatio(outputFormat),
+      maxWidth: `calc(70vh * ${getFormatRatio(outputFormat)})`,
+  };
+
+  const editingFrame = frames.find(f => f.id === editingFrameId);
+  const editBase = editingFrame && getEditBase(editingFrame.imageHistory, editingFrame.generatedImageUrl, editingFrame.currentPrompt);
+  const maskingFrame = frames.find(f => f.id === maskingFrameId);
+  const maskBase = maskingFrame && getEditBase(maskingFrame.imageHistory, maskingFrame.generatedImageUrl, maskingFrame.currentPrompt);
+
   return (
     <div className="flex h-full flex-col">
+       {showAnimaticExport && (
+          <AnimaticExportDialog frames={frames} outputFormat={outputFormat} onClose={() => setShowAnimaticExport(false)} />
+       )}
+
+       {editingFrame && editBase && (
+          <ImageEditDialog
+             title={`修改分镜 #${editingFrame.panelNumber}`}
+             base={editBase}
+             onSubmit={instruction => editFrame(editingFrame, editBase, instruction)}
+             onClose={() => setEditingFrameId(null)}
+          />
+       )}
+
+       {showReframe && (
+          <ReframeDialog
+             frames={frames}
+             outputFormat={outputFormat}
+             onSubmit={handleReframe}
+             onClose={() => setShowReframe(false)}
+          />
+       )}
+
+       {maskingFrame && maskBase && (
+          <MaskEditor
+             imageUrl={maskBase.imageUrl}
+             initialMask={maskBase.inpaint?.maskUrl}
+             initialPrompt={maskBase.inpaint?.prompt}
+             onSubmit={(mask, prompt) => inpaintFrame(maskingFrame, maskBase, mask, prompt)}
+             onClose={() => setMaskingFrameId(null)}
+          />
+       )}
+
        {/* Header */}
        <div className="h-16 bg-gray-900 border-b border-gray-800 flex items-center justify-between px-6 sticky top-0 z-30">
           <div className="flex items-center gap-4">
@@ -114,9 +390,44 @@ export const StoryboardTab: React.FC<StoryboardTabProps> = ({
               <span className="text-sm text-gray-400">
                   {frames.length > 0 ? `${frames.length} 个分镜` : '暂无数据'}
               </span>
+              <span className="px-2 py-0.5 rounded bg-gray-800 text-xs text-gray-400 border border-gray-700" title="可在设置中修改项目画幅">
+                  {getFormatLabel(outputFormat)}
+              </span>
           </div>
           
           <div className="flex gap-3">
+             <button
+                 onClick={() => applyStructureEdit(prev => insertFrame(prev, prev.length))}
+                 className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700 rounded-lg flex items-center gap-2 text-sm font-bold"
+             >
+                 <Plus size={16} /> 新增分镜
+             </button>
+             {frames.some(f => f.generatedImageUrl) && (
+                <button
+                    onClick={() => setShowReframe(true)}
+                    className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700 rounded-lg flex items-center gap-2 text-sm font-bold"
+                    title="为已完成的分镜生成其他画幅的版本"
+                >
+                    <Crop size={16} /> 改画幅
+                </button>
+             )}
+             {frames.length > 0 && (
+                <button
+                    onClick={() => setShowAnimaticExport(true)}
+                    className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700 rounded-lg flex items-center gap-2 text-sm font-bold"
+                >
+                    <Film size={16} /> 导出动态分镜
+                </button>
+             )}
+             {outdatedFrames.length > 0 && (
+                <button
+                    onClick={handleRegenerateOutdated}
+                    className="px-4 py-2 bg-amber-900/40 hover:bg-amber-800/50 text-amber-200 border border-amber-500/40 rounded-lg flex items-center gap-2 text-sm font-bold"
+                    title="这些分镜仍是旧风格，或与项目画幅不符"
+                >
+                    <RefreshCw size={16} /> 重绘过期画面 ({outdatedFrames.length})
+                </button>
+             )}
              {frames.length > 0 && (
                 <button 
                     onClick={handleGenerateAll}
@@ -131,125 +442,315 @@ export const StoryboardTab: React.FC<StoryboardTabProps> = ({
       {/* List */}
       <div className="flex-1 bg-gray-950 overflow-y-auto p-8">
         <div className="space-y-12 max-w-6xl mx-auto">
-            {frames.map((frame) => (
+            {frames.map((frame, index) => {
+                const references = collectPanelReferences(frame, characters, scenes.find(s => s.id === frame.assignedSceneId));
+                const autoPrompt = frame.promptLocked ? buildAutoPrompt(frame) : frame.currentPrompt;
+                const isPromptModified = autoPrompt !== frame.currentPrompt;
+                const showDiff = diffFrameIds.includes(frame.id) && !!frame.promptLocked && isPromptModified;
+                const isBusy = isTargetBusy(jobs, frame.id, 'image');
+                const isMismatched = isFormatMismatch(frame);
+                const imageCanvas = (
+                    <div className="w-full bg-black flex justify-center group-hover:bg-gray-950 transition-colors">
+                    <div className="relative w-full flex items-center justify-center" style={canvasStyle}>
+                        {frame.status === 'generating' && (
+                            <div className="absolute inset-0 z-10 bg-black/60 backdrop-blur-sm flex items-center justify-center flex-col">
+                                <RefreshCw className="animate-spin text-purple-500 mb-4" size={40} />
+                                <span className="text-sm text-purple-300 font-bold">正在绘制...</span>
+                            </div>
+                        )}
+                        {!isBusy && (frame.styleStale || isMismatched) && (
+                            <div className="absolute top-4 left-4 z-10 flex gap-2">
+                                {frame.styleStale && <StyleStaleBadge />}
+                                {isMismatched && (
+                                    <span
+                                        className="inline-flex items-center px-1.5 py-0.5 rounded bg-cyan-500/90 text-black text-[10px] font-bold shadow"
+                                        title={`图片比例与项目画幅 ${outputFormat} 不符，重绘即可更新`}
+                                    >
+                                        画幅不符
+                                    </span>
+                                )}
+                            </div>
+                        )}
+                        {isBusy && frame.status !== 'generating' && (
+                            <div className="absolute top-4 left-4 z-10 px-3 py-1 rounded-full bg-black/70 text-xs text-gray-300 border border-white/10">
+                                排队中...
+                            </div>
+                        )}
+                            
+                        {frame.generatedImageUrl ? (
+                            <img src={frame.generatedImageUrl} className="w-full h-full object-contain" alt="Panel" />
+                        ) : (
+                            <div className="text-gray-600 flex flex-col items-center">
+                                <ImageIcon size={32} className="mb-2 opacity-50" />
+                                <span className="text-sm">点击生成按钮开始绘制</span>
+                            </div>
+                        )}
+
+                        {/* Hover Actions */}
+                        <div className={`absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition duration-200 flex gap-2 ${isPortrait ? 'left-4 flex-wrap justify-end' : ''}`}>
+                            {frame.generatedImageUrl && (
+                                <button 
+                                    onClick={() => handleDownload(frame.generatedImageUrl!, frame.panelNumber)}
+                                    className="p-2 bg-black/70 hover:bg-gray-700 text-white rounded-lg backdrop-blur-md shadow-xl border border-white/10"
+                                    title="下载"
+                                >
+                                    <Download size={16} />
+                                </button>
+                            )}
+                            {frame.generatedImageUrl && (
+                                <button
+                                    onClick={() => setEditingFrameId(frame.id)}
+                                    disabled={isBusy}
+                                    className="px-3 py-2 bg-black/70 hover:bg-gray-700 text-white rounded-lg backdrop-blur-md shadow-xl border border-white/10 flex items-center gap-2 text-sm disabled:opacity-50"
+                                    title="用一句话描述要修改的地方"
+                                >
+                                    <Wand2 size={14} /> AI 修改
+                                </button>
+                            )}
+                            {frame.generatedImageUrl && (
+                                <button
+                                    onClick={() => setMaskingFrameId(frame.id)}
+                                    disabled={isBusy}
+                                    className="px-3 py-2 bg-black/70 hover:bg-gray-700 text-white rounded-lg backdrop-blur-md shadow-xl border border-white/10 flex items-center gap-2 text-sm disabled:opacity-50"
+                                    title="涂抹区域后只重绘该部分"
+                                >
+                                    <Brush size={14} /> 局部重绘
+                                </button>
+                            )}
+                            <button 
+                                onClick={() => generateFrame(frame)}
+                                disabled={isBusy}
+                                className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg backdrop-blur-md transition flex items-center gap-2 text-sm font-bold shadow-xl disabled:opacity-50"
+                            >
+                                <RefreshCw size={14} /> {frame.generatedImageUrl ? "重绘" : "生成"}
+                            </button>
+                        </div>
+                    </div>
+                    </div>
+                );
+                return (
                 <div key={frame.id} className="flex gap-6 items-start group">
-                    <div className="w-16 flex-shrink-0 flex flex-col items-center pt-4">
-                        <span className="text-3xl font-black text-gray-800">#{frame.panelNumber}</span>
+                    <div className="w-16 flex-shrink-0 flex flex-col items-center pt-4 gap-1">
+                        <span className="text-3xl font-black text-gray-800 mb-2">#{frame.panelNumber}</span>
+                        {/* Structure Tools */}
+                        <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition">
+                            <button onClick={() => applyStructureEdit(prev => insertFrame(prev, index))} className="p-1.5 rounded text-gray-500 hover:text-white hover:bg-gray-800" title="在前方插入分镜">
+                                <ArrowUpToLine size={14} />
+                            </button>
+                            <button onClick={() => applyStructureEdit(prev => insertFrame(prev, index + 1))} className="p-1.5 rounded text-gray-500 hover:text-white hover:bg-gray-800" title="在后方插入分镜">
+                                <ArrowDownToLine size={14} />
+                            </button>
+                            <button onClick={() => applyStructureEdit(prev => duplicateFrame(prev, frame.id))} className="p-1.5 rounded text-gray-500 hover:text-white hover:bg-gray-800" title="复制分镜">
+                                <Copy size={14} />
+                            </button>
+                            <button onClick={() => applyStructureEdit(prev => splitFrame(prev, frame.id))} className="p-1.5 rounded text-gray-500 hover:text-white hover:bg-gray-800" title="拆分为两个分镜 (按句子平分描述与台词)">
+                                <Scissors size={14} />
+                            </button>
+                            {index < frames.length - 1 && (
+                                <button onClick={() => handleMergeWithNext(index)} className="p-1.5 rounded text-gray-500 hover:text-white hover:bg-gray-800" title="与下一个分镜合并">
+                                    <Merge size={14} />
+                                </button>
+                            )}
+                            <button onClick={() => handleDeleteFrame(frame)} className="p-1.5 rounded text-gray-500 hover:text-red-400 hover:bg-gray-800" title="删除分镜">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
                     </div>
 
-                    <div className="flex-1 bg-gray-900 rounded-xl border border-gray-800 overflow-hidden shadow-lg">
-                        {/* Control Panel */}
-                        <div className="p-5 border-b border-gray-800 flex flex-col md:flex-row gap-6 bg-gray-900">
-                           <div className="flex-1 space-y-3">
-                                <div className="flex items-center gap-2 mb-2">
-                                    <span className="px-2 py-1 rounded bg-gray-800 text-xs text-gray-400 border border-gray-700">{frame.cameraAngle}</span>
-                                </div>
-                                <p className="text-gray-200 text-lg leading-relaxed">{frame.description}</p>
-                                {frame.dialogue && (
+                    <div className={`flex-1 bg-gray-900 rounded-xl border border-gray-800 overflow-hidden shadow-lg ${isPortrait ? 'flex flex-col md:flex-row' : ''}`}>
+                        {/* Tall panels sit beside the details rather than as a strip below them */}
+                        {isPortrait && <div className="md:w-80 flex-shrink-0 flex items-center bg-black">{imageCanvas}</div>}
+                        <div className="flex-1 min-w-0">
+                            {/* Control Panel */}
+                            <div className="p-5 border-b border-gray-800 flex flex-col md:flex-row gap-6 bg-gray-900">
+                               <div className="flex-1 space-y-3">
+                                    <div className="flex items-center gap-2 mb-2">
+                                        <input
+                                            className="px-2 py-1 rounded bg-gray-800 text-xs text-gray-400 border border-gray-700 focus:border-purple-500 outline-none w-48"
+                                            value={frame.cameraAngle || ''}
+                                            onChange={(e) => updateFrameData(frame.id, { cameraAngle: e.target.value })}
+                                            placeholder="镜头角度"
+                                        />
+                                    </div>
+                                    <textarea
+                                        className="w-full bg-transparent text-gray-200 text-lg leading-relaxed rounded-lg border border-transparent hover:border-gray-800 focus:border-purple-500 focus:bg-gray-950 outline-none resize-y p-1 -m-1"
+                                        rows={3}
+                                        value={frame.description}
+                                        onChange={(e) => updateFrameData(frame.id, { description: e.target.value })}
+                                        placeholder="画面描述..."
+                                    />
                                     <div className="bg-black/30 p-3 rounded-lg border-l-4 border-purple-500">
-                                        <p className="text-gray-400 italic">"{frame.dialogue}"</p>
+                                        <DialogueLinesEditor
+                                            lines={getDialogueLines(frame)}
+                                            characters={characters}
+                                            defaultSpeaker={frame.charactersPresent[0]}
+                                            onChange={lines => updateFrameData(frame.id, withDialogueLines(lines))}
+                                        />
                                     </div>
-                                )}
-                           </div>
+                               </div>
                            
-                           {/* Right Settings Column */}
-                           <div className="w-full md:w-64 flex-shrink-0 space-y-4">
-                                {/* Scene Selector */}
-                                <div>
-                                    <label className="text-xs text-gray-500 font-bold uppercase mb-1 block">绑定场景</label>
-                                    <div className="relative">
-                                        <select 
-                                            className="w-full bg-gray-800 border border-gray-700 text-sm text-gray-300 rounded-lg p-2 appearance-none focus:border-purple-500 outline-none"
-                                            value={frame.assignedSceneId || ""}
-                                            onChange={(e) => handleAssignScene(frame.id, e.target.value)}
-                                        >
-                                            <option value="">(未指定场景 - 自动背景)</option>
-                                            {scenes.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
-                                        </select>
-                                        <MapPin size={14} className="absolute right-3 top-3 text-gray-500 pointer-events-none" />
+                               {/* Right Settings Column */}
+                               <div className="w-full md:w-64 flex-shrink-0 space-y-4">
+                                    {/* Scene Selector */}
+                                    <div>
+                                        <label className="text-xs text-gray-500 font-bold uppercase mb-1 block">绑定场景</label>
+                                        <div className="relative">
+                                            <select 
+                                                className="w-full bg-gray-800 border border-gray-700 text-sm text-gray-300 rounded-lg p-2 appearance-none focus:border-purple-500 outline-none"
+                                                value={frame.assignedSceneId || ""}
+                                                onChange={(e) => handleAssignScene(frame.id, e.target.value)}
+                                            >
+                                                <option value="">(未指定场景 - 自动背景)</option>
+                                                {scenes.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                            </select>
+                                            <MapPin size={14} className="absolute right-3 top-3 text-gray-500 pointer-events-none" />
+                                        </div>
                                     </div>
-                                </div>
 
-                                {/* Character Checklist */}
-                                <div>
-                                    <label className="text-xs text-gray-500 font-bold uppercase mb-1 block">出场人物 (点击切换)</label>
-                                    <div className="bg-gray-950 p-2 rounded-lg border border-gray-800 max-h-32 overflow-y-auto space-y-1">
-                                        {characters.map(char => {
-                                            const isPresent = (frame.charactersPresent || []).includes(char.name);
-                                            return (
-                                                <div 
-                                                    key={char.id} 
-                                                    onClick={() => toggleCharacterInFrame(frame.id, char.name)}
-                                                    className={`flex items-center gap-2 text-xs p-1.5 rounded cursor-pointer select-none transition ${isPresent ? 'bg-purple-900/30 text-purple-200' : 'text-gray-500 hover:bg-gray-800'}`}
-                                                >
-                                                    {isPresent ? <CheckSquare size={14} /> : <Square size={14} />}
-                                                    <span className="truncate">{char.name}</span>
-                                                </div>
-                                            );
-                                        })}
+                                    {/* Character Checklist */}
+                                    <div>
+                                        <label className="text-xs text-gray-500 font-bold uppercase mb-1 block">出场人物 (点击切换)</label>
+                                        <div className="bg-gray-950 p-2 rounded-lg border border-gray-800 max-h-32 overflow-y-auto space-y-1">
+                                            {characters.map(char => {
+                                                const isPresent = (frame.charactersPresent || []).includes(char.name);
+                                                return (
+                                                    <div 
+                                                        key={char.id} 
+                                                        onClick={() => toggleCharacterInFrame(frame.id, char.name)}
+                                                        className={`flex items-center gap-2 text-xs p-1.5 rounded cursor-pointer select-none transition ${isPresent ? 'bg-purple-900/30 text-purple-200' : 'text-gray-500 hover:bg-gray-800'}`}
+                                                    >
+                                                        {isPresent ? <CheckSquare size={14} /> : <Square size={14} />}
+                                                        <span className="truncate">{char.name}</span>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
                                     </div>
-                                </div>
-                           </div>
-                        </div>
 
-                        {/* Image Canvas */}
-                        <div className="relative w-full aspect-video bg-black flex items-center justify-center group-hover:bg-gray-950 transition-colors">
-                            {frame.status === 'generating' && (
-                                <div className="absolute inset-0 z-10 bg-black/60 backdrop-blur-sm flex items-center justify-center flex-col">
-                                    <RefreshCw className="animate-spin text-purple-500 mb-4" size={40} />
-                                    <span className="text-sm text-purple-300 font-bold">正在绘制...</span>
+                                    {/* Reference Images */}
+                                    <div>
+                                        <label className="text-xs text-gray-500 font-bold uppercase mb-1 flex items-center gap-1"><Link2 size={12} /> 参考图 (点击切换)</label>
+                                        {references.length === 0 ? (
+                                            <p className="text-xs text-gray-600">出场人物/场景暂无设定图</p>
+                                        ) : (
+                                            <div className="flex flex-wrap gap-2">
+                                                {references.map(ref => {
+                                                    const isUsed = !(frame.excludedReferenceIds || []).includes(ref.sourceId);
+                                                    const name = ref.kind === 'character'
+                                                        ? characters.find(c => c.id === ref.sourceId)?.name
+                                                        : scenes.find(s => s.id === ref.sourceId)?.name;
+                                                    return (
+                                                        <button
+                                                            key={ref.sourceId}
+                                                            onClick={() => toggleReferenceInFrame(frame.id, ref.sourceId)}
+                                                            className={`relative w-14 h-10 rounded overflow-hidden border-2 transition ${isUsed ? 'border-purple-500' : 'border-gray-800 opacity-40 grayscale'}`}
+                                                            title={`${ref.kind === 'character' ? '角色' : '场景'}：${name}${isUsed ? '' : ' (未使用)'}`}
+                                                        >
+                                                            <img src={ref.dataUrl} className="w-full h-full object-cover" />
+                                                        </button>
+                                                    );
+                                                })}
+                                            </div>
+                                        )}
+                                    </div>
+                               </div>
+                            </div>
+
+                            {/* Image Canvas */}
+                            {!isPortrait && imageCanvas}
+
+                            {/* Candidate Picker */}
+                            {frame.candidates && frame.candidates.length > 0 && (
+                                <div className="p-3 bg-gray-950 border-t border-gray-800">
+                                    <CandidatePicker
+                                        candidates={frame.candidates}
+                                        onPick={(versionId, keepOthers) => pickFrameCandidate(frame.id, versionId, keepOthers)}
+                                        onDiscard={() => discardFrameCandidates(frame.id)}
+                                    />
                                 </div>
                             )}
-                            
-                            {frame.generatedImageUrl ? (
-                                <img src={frame.generatedImageUrl} className="w-full h-full object-contain" alt="Panel" />
-                            ) : (
-                                <div className="text-gray-600 flex flex-col items-center">
-                                    <ImageIcon size={32} className="mb-2 opacity-50" />
-                                    <span className="text-sm">点击生成按钮开始绘制</span>
+
+                            {/* Version Filmstrip */}
+                            {frame.imageHistory && frame.imageHistory.versions.length > 0 && (
+                                <div className="px-3 pt-3 bg-gray-950 border-t border-gray-800">
+                                    <VersionFilmstrip
+                                        history={frame.imageHistory}
+                                        onSelect={versionId => selectFrameVersion(frame.id, versionId)}
+                                        onDelete={versionId => deleteFrameVersion(frame.id, versionId)}
+                                    />
                                 </div>
                             )}
 
-                            {/* Hover Actions */}
-                            <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition duration-200 flex gap-2">
-                                {frame.generatedImageUrl && (
-                                    <button 
-                                        onClick={() => handleDownload(frame.generatedImageUrl!, frame.panelNumber)}
-                                        className="p-2 bg-black/70 hover:bg-gray-700 text-white rounded-lg backdrop-blur-md shadow-xl border border-white/10"
-                                        title="下载"
-                                    >
-                                        <Download size={16} />
-                                    </button>
-                                )}
-                                <button 
-                                    onClick={() => generateFrame(frame)}
-                                    className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg backdrop-blur-md transition flex items-center gap-2 text-sm font-bold shadow-xl"
-                                >
-                                    <RefreshCw size={14} /> {frame.generatedImageUrl ? "重绘" : "生成"}
-                                </button>
-                            </div>
-                        </div>
-
-                        {/* Prompt Debugger */}
-                        <div className="p-3 bg-gray-950 border-t border-gray-800">
-                             <div className="group/details">
-                                 <div className="flex items-center gap-2 text-xs text-gray-500 mb-2 select-none">
-                                    <Edit2 size={12} />
-                                    <span className="font-bold uppercase tracking-wider">实时提示词 (自动更新，点击重绘生效)</span>
-                                 </div>
-                                 <div>
-                                    <textarea 
-                                        className="w-full bg-gray-900 text-xs text-gray-400 p-3 rounded-lg border border-gray-800 focus:border-purple-500 focus:outline-none h-20 resize-none font-mono"
-                                        value={frame.currentPrompt}
-                                        readOnly
-                                        placeholder="提示词将根据上方设置自动生成..."
+                            {/* Renditions */}
+                            {frame.renditions && (
+                                <div className="px-3 pt-3 bg-gray-950 border-t border-gray-800">
+                                    <RenditionStrip
+                                        renditions={frame.renditions}
+                                        onDownload={(format, version) => handleDownload(version.imageUrl, frame.panelNumber, `_${format.replace(':', 'x')}`)}
+                                        onDelete={format => deleteRendition(frame.id, format)}
                                     />
+                                </div>
+                            )}
+
+                            {/* Prompt Editor */}
+                            <div className="p-3 bg-gray-950 border-t border-gray-800">
+                                 <div className="group/details">
+                                     <div className="flex items-center justify-between mb-2">
+                                        <div className="flex items-center gap-2 text-xs text-gray-500 select-none">
+                                            <Edit2 size={12} />
+                                            <span className="font-bold uppercase tracking-wider">
+                                                {frame.promptLocked ? '手动提示词 (已锁定，按原文生成)' : '实时提示词 (自动更新，编辑后自动锁定)'}
+                                            </span>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            {frame.promptLocked && isPromptModified && (
+                                                <button
+                                                    onClick={() => toggleDiffView(frame.id)}
+                                                    className={`px-2 py-1 rounded text-xs flex items-center gap-1 border transition ${showDiff ? 'bg-blue-900/40 text-blue-300 border-blue-500/40' : 'text-gray-400 border-gray-700 hover:bg-gray-800'}`}
+                                                    title="对比手动提示词与自动生成的提示词"
+                                                >
+                                                    <GitCompare size={12} /> 对比
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => togglePromptLock(frame)}
+                                                className={`px-2 py-1 rounded text-xs flex items-center gap-1 border transition ${frame.promptLocked ? 'bg-amber-900/30 text-amber-300 border-amber-500/40' : 'text-gray-400 border-gray-700 hover:bg-gray-800'}`}
+                                                title={frame.promptLocked ? '解锁：恢复自动生成' : '锁定：固定当前提示词'}
+                                            >
+                                                {frame.promptLocked ? <><Lock size={12} /> 已锁定</> : <><Unlock size={12} /> 自动</>}
+                                            </button>
+                                        </div>
+                                     </div>
+                                     <div>
+                                        <textarea 
+                                            className={`w-full bg-gray-900 text-xs text-gray-400 p-3 rounded-lg border focus:border-purple-500 focus:outline-none h-20 resize-y font-mono ${frame.promptLocked ? 'border-amber-500/30' : 'border-gray-800'}`}
+                                            value={frame.currentPrompt}
+                                            onChange={(e) => updateFramePromptManual(frame.id, e.target.value)}
+                                            placeholder="提示词将根据上方设置自动生成..."
+                                        />
+                                     </div>
+                                     {showDiff && (
+                                        <div className="mt-2 p-3 bg-gray-900 rounded-lg border border-blue-500/20 text-xs font-mono whitespace-pre-wrap leading-relaxed max-h-48 overflow-y-auto">
+                                            <p className="text-gray-500 mb-2 font-sans">
+                                                <span className="text-green-400">绿色</span> = 手动新增，<span className="text-red-400 line-through">红色</span> = 自动提示词中被删除的内容
+                                            </p>
+                                            {diffText(autoPrompt, frame.currentPrompt).map((seg, i) => (
+                                                <span
+                                                    key={i}
+                                                    className={seg.type === 'added' ? 'bg-green-900/40 text-green-300' : seg.type === 'removed' ? 'bg-red-900/30 text-red-400 line-through' : 'text-gray-500'}
+                                                >
+                                                    {seg.text}
+                                                </span>
+                                            ))}
+                                        </div>
+                                     )}
                                  </div>
-                             </div>
+                            </div>
                         </div>
                     </div>
                 </div>
-            ))}
+                );
+            })}
         </div>
       </div>
     </div>
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { StyleGuide } from '../types';
+import { STYLE_FIELDS, STYLE_PRESETS, formatNegativeTerms, formatStyle, isSameStyle } from '../services/styleGuide';
+import { Palette, Save } from 'lucide-react';
+
+const FIELD_LABELS: Record<(typeof STYLE_FIELDS)[number], { label: string; placeholder: string }> = {
+  medium: { label: '媒介', placeholder: '例如：2D anime / Live-action film still' },
+  artStyle: { label: '画风', placeholder: '例如：clean line art, cel shading' },
+  palette: { label: '色调', placeholder: '例如：muted teal and orange' },
+  lightingMood: { label: '光影氛围', placeholder: '例如：moody low-key lighting' },
+  negativeTerms: { label: '避免元素 (逗号分隔)', placeholder: '例如：text, watermark, blurry' },
+};
+
+interface StyleGuidePanelProps {
+  styleGuide: StyleGuide;
+  onChange: (styleGuide: StyleGuide) => void;
+}
+
+/**
+ * Edits the project's visual style. Changes are applied explicitly because
+ * applying one flags every existing image as stale.
+ */
+export const StyleGuidePanel: React.FC<StyleGuidePanelProps> = ({ styleGuide, onChange }) => {
+  const [draft, setDraft] = useState<StyleGuide>(styleGuide);
+
+  // Another project was opened
+  useEffect(() => setDraft(styleGuide), [styleGuide]);
+
+  const isDirty = !isSameStyle(draft, styleGuide);
+
+  const handleApply = () => {
+    if (!isDirty) return;
+    if (!confirm('应用新风格后，已生成的角色、场景和分镜图会被标记为"风格已过期"，可随后按新风格重绘。是否继续？')) return;
+    onChange(draft);
+  };
+
+  return (
+    <div className="max-w-3xl w-full bg-gray-900 border border-gray-800 rounded-2xl p-8 shadow-xl">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-3 bg-amber-600/20 rounded-xl">
+          <Palette className="w-8 h-8 text-amber-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-white">项目视觉风格</h2>
+          <p className="text-gray-400 text-sm">注入到角色、场景和分镜的所有生图提示词中</p>
+        </div>
+      </div>
+
+      <div className="space-y-5">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">预设</label>
+          <div className="flex flex-wrap gap-2">
+            {STYLE_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => setDraft({ ...preset.guide, presetId: preset.id })}
+                className={`px-3 py-1.5 rounded-lg text-sm border transition ${draft.presetId === preset.id ? 'bg-amber-900/40 text-amber-200 border-amber-500/50' : 'text-gray-400 border-gray-700 hover:bg-gray-800'}`}
+              >
+                {preset.label}
+              </button>
+            ))}
+            {!draft.presetId && <span className="px-3 py-1.5 text-sm text-gray-500">自定义</span>}
+          </div>
+        </div>
+
+        {STYLE_FIELDS.map(field => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-300 mb-1">{FIELD_LABELS[field].label}</label>
+            <input
+              value={draft[field]}
+              onChange={e => setDraft(prev => ({ ...prev, [field]: e.target.value, presetId: undefined }))}
+              placeholder={FIELD_LABELS[field].placeholder}
+              className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2.5 text-gray-200 focus:border-amber-500 focus:outline-none text-sm"
+            />
+          </div>
+        ))}
+
+        <div className="bg-gray-950 p-3 rounded-lg border border-gray-800 text-xs font-mono text-gray-500 whitespace-pre-wrap">
+          [Style] {formatStyle(draft)}{formatNegativeTerms(draft)}
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleApply}
+            disabled={!isDirty}
+            className="flex-1 py-2.5 bg-amber-600 hover:bg-amber-500 text-white rounded-lg font-medium flex items-center justify-center gap-2 transition disabled:opacity-40"
+          >
+            <Save size={18} /> 应用风格
+          </button>
+          {isDirty && (
+            <button onClick={() => setDraft(styleGuide)} className="px-4 py-2.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg text-sm">
+              撤销修改
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
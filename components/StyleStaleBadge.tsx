@@ -0,0 +1,18 @@
+import React from 'react';
+import { Palette } from 'lucide-react';
+
+interface StyleStaleBadgeProps {
+  compact?: boolean; // Icon only, for thumbnails
+}
+
+/**
+ * Marks an image generated before the project style last changed.
+ */
+export const StyleStaleBadge: React.FC<StyleStaleBadgeProps> = ({ compact }) => (
+  <span
+    className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-500/90 text-black text-[10px] font-bold shadow"
+    title="项目风格已变更，此图仍是旧风格。重新生成即可更新。"
+  >
+    <Palette size={10} /> {!compact && '风格已过期'}
+  </span>
+);
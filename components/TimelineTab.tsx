@@ -0,0 +1,431 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AudioMix, FrameTransition, MixTrack, MixTrackKind, OutputFormat, StoryboardFrame } from '../types';
+import { getAudioDuration } from '../services/audioUtils';
+import {
+  TARGET_RUNTIME_MAX,
+  TARGET_RUNTIME_MIN,
+  TRANSITION_OPTIONS,
+  buildTimeline,
+  formatTimecode,
+  moveFrame,
+} from '../services/timeline';
+import { TRACK_KIND_LABELS, anchorAt, createMixTrack, placeTracks } from '../services/audioMix';
+import { getCssAspectRatio, isPortraitFormat } from '../services/outputFormat';
+import { AnimaticExportDialog } from './AnimaticExportDialog';
+import { MixExportDialog } from './MixExportDialog';
+import { MixTrackClip } from './MixTrackClip';
+import { MixTrackInspector } from './MixTrackInspector';
+import { Clapperboard, Film, GripVertical, Mic, Music, Timer, ZoomIn, ZoomOut, RotateCcw, SlidersHorizontal, Zap } from 'lucide-react';
+
+interface TimelineTabProps {
+  frames: StoryboardFrame[];
+  setFrames: React.Dispatch<React.SetStateAction<StoryboardFrame[]>>;
+  outputFormat: OutputFormat;
+  mix: AudioMix;
+  setMix: React.Dispatch<React.SetStateAction<AudioMix>>;
+}
+
+const MIN_ZOOM = 20;
+const MAX_ZOOM = 160;
+const TRACK_LABEL_WIDTH = 72;
+
+const TRANSITION_BADGES: Record<FrameTransition, string> = {
+  cut: '',
+  fade: 'F',
+  dissolve: 'D',
+};
+
+export const TimelineTab: React.FC<TimelineTabProps> = ({ frames, setFrames, outputFormat, mix, setMix }) => {
+  // Audio URL -> clip length in seconds (dialogue and imported music/effects)
+  const [audioDurations, setAudioDurations] = useState<Record<string, number>>({});
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(60);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null);
+  const [showAnimaticExport, setShowAnimaticExport] = useState(false);
+  const [showMixExport, setShowMixExport] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importKindRef = useRef<MixTrackKind>('music');
+
+  // Measure any clips we haven't seen yet
+  useEffect(() => {
+    const pending = [...frames.map(f => f.audioUrl), ...mix.tracks.map(t => t.audioUrl)]
+      .filter((url): url is string => !!url && audioDurations[url] === undefined);
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(pending.map(url => getAudioDuration(url).then(d => [url, d] as const).catch(() => [url, 0] as const)))
+      .then(entries => {
+        if (cancelled) return;
+        setAudioDurations(prev => ({ ...prev, ...Object.fromEntries(entries) }));
+      });
+    return () => { cancelled = true; };
+  }, [frames, mix.tracks, audioDurations]);
+
+  const { clips, totalDuration } = buildTimeline(frames, audioDurations);
+  const placedTracks = placeTracks(mix.tracks, clips, totalDuration, audioDurations);
+  const selectedClip = clips.find(c => c.frame.id === selectedId);
+  const selectedTrack = placedTracks.find(p => p.track.id === selectedTrackId);
+  const withinTarget = totalDuration >= TARGET_RUNTIME_MIN && totalDuration <= TARGET_RUNTIME_MAX;
+  const trackWidth = Math.max(totalDuration * pixelsPerSecond, 400);
+
+  const updateFrame = (id: string, updates: Partial<StoryboardFrame>) => {
+    setFrames(prev => prev.map(f => f.id === id ? { ...f, ...updates } : f));
+  };
+
+  const handleDurationChange = (id: string, value: string) => {
+    const seconds = parseFloat(value);
+    updateFrame(id, { duration: seconds > 0 ? Math.round(seconds * 10) / 10 : undefined });
+  };
+
+  const selectFrame = (id: string) => {
+    setSelectedId(id);
+    setSelectedTrackId(null);
+  };
+
+  const selectTrack = (id: string) => {
+    setSelectedTrackId(id);
+    setSelectedId(null);
+  };
+
+  const updateTrack = (id: string, updates: Partial<MixTrack>) => {
+    setMix(prev => ({ ...prev, tracks: prev.tracks.map(t => t.id === id ? { ...t, ...updates } : t) }));
+  };
+
+  const deleteTrack = (id: string) => {
+    setMix(prev => ({ ...prev, tracks: prev.tracks.filter(t => t.id !== id) }));
+    setSelectedTrackId(null);
+  };
+
+  const openImport = (kind: MixTrackKind) => {
+    importKindRef.current = kind;
+    fileInputRef.current?.click();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    try {
+      const duration = await getAudioDuration(url);
+      setAudioDurations(prev => ({ ...prev, [url]: duration }));
+    } catch (err) {
+      URL.revokeObjectURL(url);
+      alert(`无法读取音频文件“${file.name}”，请换一个格式（如 MP3 或 WAV）。`);
+      return;
+    }
+
+    // New tracks start at the selected shot, or at the top of the timeline
+    const anchorFrameId = selectedClip?.frame.id ?? frames[0].id;
+    const track = createMixTrack(importKindRef.current, file.name.replace(/\.[^.]+$/, ''), url, anchorFrameId);
+    setMix(prev => ({ ...prev, tracks: [...prev.tracks, track] }));
+    selectTrack(track.id);
+  };
+
+  const handleDrop = (toIndex: number) => {
+    if (dragIndex !== null && dragIndex !== toIndex) {
+      // Dropping after the dragged clip shifts the target left by one
+      const target = toIndex > dragIndex ? toIndex - 1 : toIndex;
+      setFrames(prev => moveFrame(prev, dragIndex, target));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // One tick per second when zoomed in, every 5s when zoomed out
+  const tickStep = pixelsPerSecond >= 40 ? 1 : 5;
+  const ticks = Array.from({ length: Math.floor(totalDuration / tickStep) + 1 }, (_, i) => i * tickStep);
+
+  if (frames.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-500">
+        <Clapperboard size={48} className="mb-4 opacity-50" />
+        <p>暂无分镜，请先在剧本页生成分镜脚本。</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-gray-950">
+      {/* Header */}
+      <div className="p-6 border-b border-gray-800 flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+            <Clapperboard className="text-purple-500" /> 时间线
+          </h2>
+          <p className="text-gray-400 text-sm">拖动画面调整顺序，设置每个镜头的时长与转场。</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="text-right">
+            <div className={`text-2xl font-mono font-bold flex items-center gap-2 ${withinTarget ? 'text-green-400' : 'text-amber-400'}`}>
+              <Timer size={20} /> {formatTimecode(totalDuration)}
+            </div>
+            <p className="text-xs text-gray-500">
+              目标时长 {TARGET_RUNTIME_MIN / 60}–{TARGET_RUNTIME_MAX / 60} 分钟
+              {!withinTarget && (totalDuration < TARGET_RUNTIME_MIN ? '，当前偏短' : '，当前超长')}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 bg-gray-900 border border-gray-800 rounded-lg p-1">
+            <button
+              onClick={() => setPixelsPerSecond(z => Math.max(MIN_ZOOM, z / 1.5))}
+              disabled={pixelsPerSecond <= MIN_ZOOM}
+              className="p-1.5 rounded hover:bg-gray-800 text-gray-400 disabled:opacity-30"
+              title="缩小"
+            >
+              <ZoomOut size={16} />
+            </button>
+            <button
+              onClick={() => setPixelsPerSecond(z => Math.min(MAX_ZOOM, z * 1.5))}
+              disabled={pixelsPerSecond >= MAX_ZOOM}
+              className="p-1.5 rounded hover:bg-gray-800 text-gray-400 disabled:opacity-30"
+              title="放大"
+            >
+              <ZoomIn size={16} />
+            </button>
+          </div>
+          <div className="flex items-center gap-1 bg-gray-900 border border-gray-800 rounded-lg p-1">
+            <button
+              onClick={() => openImport('music')}
+              className="px-2 py-1.5 rounded hover:bg-gray-800 text-gray-300 flex items-center gap-1 text-xs font-bold"
+              title="导入本地音频作为背景音乐"
+            >
+              <Music size={14} /> 导入音乐
+            </button>
+            <button
+              onClick={() => openImport('sfx')}
+              className="px-2 py-1.5 rounded hover:bg-gray-800 text-gray-300 flex items-center gap-1 text-xs font-bold"
+              title="导入本地音频作为音效"
+            >
+              <Zap size={14} /> 导入音效
+            </button>
+            <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleImport} />
+          </div>
+          <button
+            onClick={() => setShowMixExport(true)}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg flex items-center gap-2 text-sm font-bold border border-gray-700"
+          >
+            <SlidersHorizontal size={16} /> 导出混音
+          </button>
+          <button
+            onClick={() => setShowAnimaticExport(true)}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg flex items-center gap-2 text-sm font-bold border border-gray-700"
+          >
+            <Film size={16} /> 导出动态分镜
+          </button>
+        </div>
+      </div>
+
+      {/* Tracks */}
+      <div className="flex-1 overflow-auto p-6">
+        <div className="relative" style={{ width: trackWidth + TRACK_LABEL_WIDTH }}>
+          {/* Ruler */}
+          <div className="relative h-6 mb-2" style={{ marginLeft: TRACK_LABEL_WIDTH }}>
+            {ticks.map(t => (
+              <div key={t} className="absolute top-0 h-full border-l border-gray-800 text-[10px] text-gray-600 pl-1" style={{ left: t * pixelsPerSecond }}>
+                {t % (tickStep * 5) === 0 ? formatTimecode(t) : ''}
+              </div>
+            ))}
+          </div>
+
+          {/* Video track */}
+          <div className="flex items-stretch mb-3">
+            <div className="flex-shrink-0 flex items-center gap-1 text-xs text-gray-500 font-bold" style={{ width: TRACK_LABEL_WIDTH }}>
+              <Film size={14} /> 画面
+            </div>
+            <div
+              className="flex h-28"
+              onDragOver={e => e.preventDefault()}
+              onDrop={() => handleDrop(frames.length)}
+            >
+              {clips.map((clip, index) => {
+                const { frame } = clip;
+                const transition = frame.transition || 'cut';
+                return (
+                  <div
+                    key={frame.id}
+                    draggable
+                    onDragStart={() => setDragIndex(index)}
+                    onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+                    onDragOver={e => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      const rect = e.currentTarget.getBoundingClientRect();
+                      setDropIndex(e.clientX < rect.left + rect.width / 2 ? index : index + 1);
+                    }}
+                    onDrop={e => {
+                      e.stopPropagation();
+                      handleDrop(dropIndex ?? index);
+                    }}
+                    onClick={() => selectFrame(frame.id)}
+                    className={`relative flex-shrink-0 h-full rounded-md overflow-hidden border-2 cursor-pointer bg-gray-900 group transition
+                      ${selectedId === frame.id ? 'border-purple-500' : 'border-gray-800 hover:border-gray-600'}
+                      ${dragIndex === index ? 'opacity-40' : ''}`}
+                    style={{ width: clip.duration * pixelsPerSecond }}
+                    title={frame.description}
+                  >
+                    {frame.generatedImageUrl ? (
+                      <img src={frame.generatedImageUrl} className="absolute inset-0 w-full h-full object-cover opacity-80" draggable={false} />
+                    ) : (
+                      <div className="absolute inset-0 flex items-center justify-center text-gray-700 text-xs">无画面</div>
+                    )}
+                    <div className="absolute top-1 left-1 flex items-center gap-1 text-[10px] font-bold text-white bg-black/60 rounded px-1">
+                      <GripVertical size={10} className="text-gray-400" /> #{frame.panelNumber}
+                    </div>
+                    <div className="absolute bottom-1 right-1 text-[10px] font-mono text-white bg-black/60 rounded px-1">
+                      {clip.duration.toFixed(1)}s{frame.duration ? '' : ' (自动)'}
+                    </div>
+                    {index > 0 && transition !== 'cut' && (
+                      <div
+                        className="absolute top-1/2 -translate-y-1/2 left-0 w-4 h-8 bg-purple-600/80 text-[10px] text-white font-bold flex items-center justify-center rounded-r"
+                        title={TRANSITION_OPTIONS.find(o => o.id === transition)?.label}
+                      >
+                        {TRANSITION_BADGES[transition]}
+                      </div>
+                    )}
+                    {dropIndex === index && dragIndex !== null && (
+                      <div className="absolute inset-y-0 left-0 w-1 bg-purple-400" />
+                    )}
+                    {dropIndex === index + 1 && index === frames.length - 1 && dragIndex !== null && (
+                      <div className="absolute inset-y-0 right-0 w-1 bg-purple-400" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Dialogue track */}
+          <div className="flex items-stretch mb-2">
+            <div className="flex-shrink-0 flex items-center gap-1 text-xs text-gray-500 font-bold" style={{ width: TRACK_LABEL_WIDTH }}>
+              <Mic size={14} /> 配音
+            </div>
+            <div className="relative h-10" style={{ width: trackWidth }}>
+              {clips.map(clip => {
+                if (!clip.frame.audioUrl || !clip.audioDuration) return null;
+                // Dialogue longer than the shot gets cut off by the next frame
+                const overflow = clip.audioDuration > clip.duration + 0.05;
+                return (
+                  <div
+                    key={clip.frame.id}
+                    onClick={() => selectFrame(clip.frame.id)}
+                    className={`absolute top-0 h-full rounded border text-[10px] px-1 overflow-hidden whitespace-nowrap cursor-pointer
+                      ${overflow ? 'bg-red-900/40 border-red-500/60 text-red-300' : 'bg-purple-900/40 border-purple-500/40 text-purple-200'}`}
+                    style={{ left: clip.start * pixelsPerSecond, width: Math.min(clip.audioDuration, clip.duration) * pixelsPerSecond }}
+                    title={overflow ? `配音 ${clip.audioDuration.toFixed(1)}s 超出镜头时长，将被截断` : clip.frame.dialogue}
+                  >
+                    {clip.frame.dialogue}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Music and effect tracks, one lane each */}
+          {placedTracks.map(placed => (
+            <div key={placed.track.id} className="flex items-stretch mb-2">
+              <div
+                className="flex-shrink-0 flex items-center gap-1 text-xs text-gray-500 font-bold"
+                style={{ width: TRACK_LABEL_WIDTH }}
+              >
+                {placed.track.kind === 'music' ? <Music size={14} /> : <Zap size={14} />} {TRACK_KIND_LABELS[placed.track.kind]}
+              </div>
+              <div className="relative h-8" style={{ width: trackWidth }}>
+                <MixTrackClip
+                  placed={placed}
+                  pixelsPerSecond={pixelsPerSecond}
+                  isSelected={placed.track.id === selectedTrackId}
+                  onSelect={() => selectTrack(placed.track.id)}
+                  onMove={start => {
+                    updateTrack(placed.track.id, anchorAt(clips, start));
+                    selectTrack(placed.track.id);
+                  }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Inspector */}
+      <div className="border-t border-gray-800 bg-gray-900 p-6 min-h-[140px]">
+        {selectedTrack ? (
+          <MixTrackInspector
+            placed={selectedTrack}
+            frames={frames}
+            fileDuration={audioDurations[selectedTrack.track.audioUrl]}
+            onChange={updates => updateTrack(selectedTrack.track.id, updates)}
+            onDelete={() => deleteTrack(selectedTrack.track.id)}
+          />
+        ) : selectedClip ? (
+          <div className="flex gap-6 items-start">
+            <div
+              className={`${isPortraitFormat(outputFormat) ? 'w-20' : 'w-40'} bg-gray-950 rounded-lg overflow-hidden border border-gray-800 flex-shrink-0`}
+              style={{ aspectRatio: getCssAspectRatio(outputFormat) }}
+            >
+              {selectedClip.frame.generatedImageUrl && <img src={selectedClip.frame.generatedImageUrl} className="w-full h-full object-cover" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <h3 className="text-white font-bold mb-1">镜头 #{selectedClip.frame.panelNumber}</h3>
+              <p className="text-sm text-gray-400 line-clamp-2">{selectedClip.frame.description}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                入点 {formatTimecode(selectedClip.start)}
+                {selectedClip.audioDuration ? ` · 配音 ${selectedClip.audioDuration.toFixed(1)}s` : ''}
+              </p>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 font-bold uppercase mb-1">时长 (秒)</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={selectedClip.frame.duration ?? ''}
+                  placeholder={`自动 ${selectedClip.duration.toFixed(1)}`}
+                  onChange={e => handleDurationChange(selectedClip.frame.id, e.target.value)}
+                  className="w-28 bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white outline-none focus:border-purple-500"
+                />
+                {selectedClip.frame.duration !== undefined && (
+                  <button
+                    onClick={() => updateFrame(selectedClip.frame.id, { duration: undefined })}
+                    className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-400"
+                    title="恢复自动时长 (配音长度或默认时长)"
+                  >
+                    <RotateCcw size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 font-bold uppercase mb-1">入场转场</label>
+              <select
+                value={selectedClip.frame.transition || 'cut'}
+                onChange={e => updateFrame(selectedClip.frame.id, { transition: e.target.value as FrameTransition })}
+                className="w-40 bg-gray-950 border border-gray-700 text-sm text-gray-300 rounded-lg p-2 outline-none"
+              >
+                {TRANSITION_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+              </select>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">点击时间线上的镜头以编辑时长与转场，或点击音乐/音效轨调整位置、音量与淡入淡出。</p>
+        )}
+      </div>
+
+      {showAnimaticExport && (
+        <AnimaticExportDialog frames={frames} outputFormat={outputFormat} onClose={() => setShowAnimaticExport(false)} />
+      )}
+
+      {showMixExport && (
+        <MixExportDialog
+          frames={frames}
+          mix={mix}
+          onMixChange={updates => setMix(prev => ({ ...prev, ...updates }))}
+          onClose={() => setShowMixExport(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { UsageRecord } from '../types';
+import {
+  DEFAULT_PRICE_TABLE,
+  PriceEntry,
+  checkBudget,
+  clearUsage,
+  estimateRecordCost,
+  formatUSD,
+  getPriceTable,
+  savePriceTable,
+  setBudget,
+  useProjectUsage,
+} from '../services/usageTracker';
+import { Wallet, Save, CheckCircle, Plus, Trash2, RotateCcw, AlertTriangle } from 'lucide-react';
+
+/**
+ * Asks for confirmation when a batch would push the project past its budget.
+ * Returns true when it's fine to go ahead.
+ */
+export const confirmWithinBudget = (capability: UsageRecord['capability'], count: number): boolean => {
+  const overrun = checkBudget(capability, count);
+  if (!overrun) return true;
+  return confirm(
+    `预算提醒：本项目已花费约 ${formatUSD(overrun.spent)}，此批次预计再花费 ${formatUSD(overrun.batchCost)}，` +
+    `将超出预算上限 ${formatUSD(overrun.budget)}。\n\n是否仍要继续？`
+  );
+};
+
+const CAPABILITY_LABELS: Record<UsageRecord['capability'], string> = {
+  text: '文本分析',
+  image: '图像生成',
+  speech: '语音合成',
+};
+
+const PRICE_FIELDS: { key: Exclude<keyof PriceEntry, 'model'>; label: string }[] = [
+  { key: 'inputPerMillion', label: '输入 /百万 token' },
+  { key: 'outputPerMillion', label: '输出 /百万 token' },
+  { key: 'perImage', label: '每张图' },
+  { key: 'perAudioMinute', label: '每分钟音频' },
+];
+
+const RECENT_RECORD_COUNT = 20;
+
+interface UsageSummary {
+  key: string;
+  capability: UsageRecord['capability'];
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  audioSeconds: number;
+  cost: number;
+}
+
+const summarize = (records: UsageRecord[], table: PriceEntry[]): UsageSummary[] => {
+  const rows = new Map<string, UsageSummary>();
+  records.forEach(r => {
+    const key = `${r.capability}|${r.model}`;
+    const row = rows.get(key) || {
+      key, capability: r.capability, model: r.model,
+      calls: 0, inputTokens: 0, outputTokens: 0, images: 0, audioSeconds: 0, cost: 0,
+    };
+    row.calls++;
+    row.inputTokens += r.inputTokens || 0;
+    row.outputTokens += r.outputTokens || 0;
+    row.images += r.imageCount || 0;
+    row.audioSeconds += r.audioSeconds || 0;
+    row.cost += estimateRecordCost(r, table);
+    rows.set(key, row);
+  });
+  return Array.from(rows.values());
+};
+
+/**
+ * Usage and estimated cost of the open project, its budget cap and the
+ * editable price table used for the estimates.
+ */
+export const UsagePanel: React.FC = () => {
+  const { records, budget } = useProjectUsage();
+  const [priceTable, setPriceTable] = useState<PriceEntry[]>(getPriceTable);
+  const [budgetInput, setBudgetInput] = useState(budget !== undefined ? String(budget) : '');
+  const [saved, setSaved] = useState(false);
+
+  const savedTable = getPriceTable();
+  const rows = summarize(records, savedTable);
+  const totalCost = rows.reduce((sum, r) => sum + r.cost, 0);
+  const overBudget = budget !== undefined && totalCost > budget;
+
+  const handleBudgetCommit = () => {
+    const value = parseFloat(budgetInput);
+    setBudget(isNaN(value) ? undefined : value);
+  };
+
+  const updatePrice = (index: number, patch: Partial<PriceEntry>) => {
+    setPriceTable(prev => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const handleSavePrices = () => {
+    savePriceTable(priceTable.filter(p => p.model.trim()));
+    setSaved(true);
+    setTimeout(() => setSaved(false), 3000);
+  };
+
+  const handleClear = () => {
+    if (confirm('清空本项目的全部用量记录？')) clearUsage();
+  };
+
+  return (
+    <div className="max-w-3xl w-full bg-gray-900 border border-gray-800 rounded-2xl p-8 shadow-xl">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-3 bg-green-600/20 rounded-xl">
+          <Wallet className="w-8 h-8 text-green-400" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-xl font-bold text-white">用量与费用</h2>
+          <p className="text-gray-400 text-sm">当前项目的 AI 调用记录与预估费用 (USD)</p>
+        </div>
+        <div className="text-right">
+          <div className={`text-2xl font-bold ${overBudget ? 'text-red-400' : 'text-white'}`}>{formatUSD(totalCost)}</div>
+          <div className="text-xs text-gray-500">{records.length} 次调用</div>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {/* Budget */}
+        <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+          <label className="block text-sm font-medium text-gray-300 mb-2">预算上限 (USD，留空表示不限)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={budgetInput}
+            onChange={e => setBudgetInput(e.target.value)}
+            onBlur={handleBudgetCommit}
+            placeholder="例如 5"
+            className="w-40 bg-gray-900 border border-gray-700 rounded-lg p-2 text-white focus:border-purple-500 focus:outline-none text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-2">设置后，任何批量生成在预计超出预算前都会先提示确认。</p>
+          {overBudget && (
+            <div className="mt-3 flex items-center gap-2 text-red-400 text-sm">
+              <AlertTriangle size={16} /> 已超出预算 {formatUSD(totalCost - budget!)}
+            </div>
+          )}
+        </div>
+
+        {/* Summary */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-300">按模型汇总</h3>
+            {records.length > 0 && (
+              <button onClick={handleClear} className="text-xs text-gray-500 hover:text-red-400 flex items-center gap-1">
+                <Trash2 size={12} /> 清空记录
+              </button>
+            )}
+          </div>
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-600 bg-gray-950 rounded-xl border border-gray-800 p-4">暂无调用记录。</p>
+          ) : (
+            <table className="w-full text-xs text-gray-300 bg-gray-950 rounded-xl border border-gray-800 overflow-hidden">
+              <thead className="text-gray-500 bg-gray-900/60">
+                <tr>
+                  <th className="text-left p-2">能力</th>
+                  <th className="text-left p-2">模型</th>
+                  <th className="text-right p-2">次数</th>
+                  <th className="text-right p-2">输入 token</th>
+                  <th className="text-right p-2">输出 token</th>
+                  <th className="text-right p-2">图片</th>
+                  <th className="text-right p-2">音频</th>
+                  <th className="text-right p-2">预估费用</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => (
+                  <tr key={r.key} className="border-t border-gray-800">
+                    <td className="p-2">{CAPABILITY_LABELS[r.capability]}</td>
+                    <td className="p-2 font-mono">{r.model || '—'}</td>
+                    <td className="p-2 text-right">{r.calls}</td>
+                    <td className="p-2 text-right">{r.inputTokens.toLocaleString()}</td>
+                    <td className="p-2 text-right">{r.outputTokens.toLocaleString()}</td>
+                    <td className="p-2 text-right">{r.images || '—'}</td>
+                    <td className="p-2 text-right">{r.audioSeconds ? `${r.audioSeconds.toFixed(1)}s` : '—'}</td>
+                    <td className="p-2 text-right text-white">{formatUSD(r.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Recent calls */}
+        {records.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">最近调用</h3>
+            <div className="max-h-48 overflow-y-auto bg-gray-950 rounded-xl border border-gray-800 divide-y divide-gray-800">
+              {records.slice(-RECENT_RECORD_COUNT).reverse().map(r => (
+                <div key={r.id} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                  <span className="text-gray-500 w-32">{new Date(r.timestamp).toLocaleString()}</span>
+                  <span className="text-gray-400 w-16">{CAPABILITY_LABELS[r.capability]}</span>
+                  <span className="flex-1 font-mono text-gray-300 truncate">{r.provider} / {r.model}</span>
+                  <span className="text-gray-200">{formatUSD(estimateRecordCost(r, savedTable))}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Price table */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-300">价格表 (USD)</h3>
+            <button
+              onClick={() => setPriceTable(DEFAULT_PRICE_TABLE)}
+              className="text-xs text-gray-500 hover:text-white flex items-center gap-1"
+            >
+              <RotateCcw size={12} /> 恢复默认
+            </button>
+          </div>
+          <div className="bg-gray-950 rounded-xl border border-gray-800 p-2 space-y-1">
+            <div className="grid grid-cols-[1fr_repeat(4,5.5rem)_1.5rem] gap-1 text-[10px] text-gray-500 px-1">
+              <span>模型</span>
+              {PRICE_FIELDS.map(f => <span key={f.key}>{f.label}</span>)}
+              <span />
+            </div>
+            {priceTable.map((p, i) => (
+              <div key={i} className="grid grid-cols-[1fr_repeat(4,5.5rem)_1.5rem] gap-1 items-center">
+                <input
+                  value={p.model}
+                  onChange={e => updatePrice(i, { model: e.target.value })}
+                  className="bg-gray-900 border border-gray-800 rounded px-2 py-1 text-xs text-white font-mono focus:border-purple-500 focus:outline-none"
+                />
+                {PRICE_FIELDS.map(f => (
+                  <input
+                    key={f.key}
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={p[f.key]}
+                    onChange={e => updatePrice(i, { [f.key]: parseFloat(e.target.value) || 0 })}
+                    className="bg-gray-900 border border-gray-800 rounded px-2 py-1 text-xs text-white focus:border-purple-500 focus:outline-none"
+                  />
+                ))}
+                <button
+                  onClick={() => setPriceTable(prev => prev.filter((_, j) => j !== i))}
+                  className="text-gray-600 hover:text-red-400"
+                  title="删除"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setPriceTable(prev => [...prev, { model: '', inputPerMillion: 0, outputPerMillion: 0, perImage: 0, perAudioMinute: 0 }])}
+              className="text-xs text-gray-500 hover:text-white flex items-center gap-1 px-1 py-1"
+            >
+              <Plus size={12} /> 添加模型
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">未在价格表中的模型（如模拟模式、本地 Stable Diffusion）按 0 计费。价格仅为预估，以服务商账单为准。</p>
+        </div>
+
+        <button
+          onClick={handleSavePrices}
+          className="w-full py-2.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg font-medium flex items-center justify-center gap-2 transition"
+        >
+          {saved ? <><CheckCircle size={18} /> 已保存</> : <><Save size={18} /> 保存价格表</>}
+        </button>
+      </div>
+    </div>
+  );
+};
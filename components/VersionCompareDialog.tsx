@@ -0,0 +1,72 @@
+import React from 'react';
+import { ImageVersion } from '../types';
+import { UPLOAD_MODEL } from '../services/imageHistory';
+import { X, CheckCircle } from 'lucide-react';
+
+export const formatVersionModel = (version: ImageVersion) =>
+  version.model === UPLOAD_MODEL ? '本地上传' : version.model || '早期版本';
+
+export const formatVersionTime = (version: ImageVersion) =>
+  version.createdAt ? new Date(version.createdAt).toLocaleString() : '—';
+
+export const formatEditChain = (version: ImageVersion) =>
+  (version.editChain || []).map((step, i) => `${i + 1}. ${step}`).join('\n');
+
+interface VersionCompareDialogProps {
+  versions: [ImageVersion, ImageVersion];
+  activeId?: string;
+  onSelect: (versionId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Two takes of the same image side by side, each with its prompt and model.
+ */
+export const VersionCompareDialog: React.FC<VersionCompareDialogProps> = ({ versions, activeId, onSelect, onClose }) => (
+  <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+    <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-7xl max-h-full flex flex-col" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+        <h3 className="text-lg font-bold text-white">版本对比</h3>
+        <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-800">
+          <X size={20} />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-6 p-6 overflow-y-auto">
+        {versions.map((version, i) => {
+          const isActive = version.id === activeId;
+          return (
+            <div key={version.id} className="flex flex-col gap-3 min-w-0">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="px-2 py-0.5 rounded bg-blue-900/40 text-blue-300 font-bold">{i === 0 ? 'A' : 'B'}</span>
+                <span className="text-gray-400">{formatVersionTime(version)}</span>
+                <span className="text-gray-500 font-mono text-xs truncate">{formatVersionModel(version)}</span>
+                <div className="flex-1" />
+                {isActive ? (
+                  <span className="text-xs text-purple-300 flex items-center gap-1"><CheckCircle size={14} /> 当前使用</span>
+                ) : (
+                  <button
+                    onClick={() => onSelect(version.id)}
+                    className="px-3 py-1 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-xs font-bold"
+                  >
+                    设为当前
+                  </button>
+                )}
+              </div>
+              <div className={`bg-black rounded-xl overflow-hidden border-2 ${isActive ? 'border-purple-500' : 'border-gray-800'}`}>
+                <img src={version.imageUrl} className="w-full max-h-[60vh] object-contain" alt={`Version ${i === 0 ? 'A' : 'B'}`} />
+              </div>
+              <p className="text-xs text-gray-500 font-mono whitespace-pre-wrap max-h-32 overflow-y-auto bg-gray-950 p-3 rounded-lg border border-gray-800">
+                {version.prompt || '(无提示词记录)'}
+              </p>
+              {version.editChain && version.editChain.length > 0 && (
+                <div className="text-xs text-purple-300/80 whitespace-pre-wrap bg-purple-950/20 p-3 rounded-lg border border-purple-500/20">
+                  <span className="text-gray-500">修改记录：</span>{'\n'}{formatEditChain(version)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  </div>
+);
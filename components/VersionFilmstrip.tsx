@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ImageHistory, ImageVersion } from '../types';
+import { VersionCompareDialog, formatEditChain, formatVersionModel, formatVersionTime } from './VersionCompareDialog';
+import { History, GitCompare, X, Wand2 } from 'lucide-react';
+
+interface VersionFilmstripProps {
+  history?: ImageHistory;
+  onSelect: (versionId: string) => void;
+  onDelete: (versionId: string) => void;
+}
+
+/**
+ * Thumbnails of every take of an image. Clicking a take makes it the active
+ * one; in compare mode two picked takes open side by side.
+ */
+export const VersionFilmstrip: React.FC<VersionFilmstripProps> = ({ history, onSelect, onDelete }) => {
+  const [comparing, setComparing] = useState(false);
+  const [picked, setPicked] = useState<string[]>([]);
+
+  const versions = history?.versions || [];
+  if (versions.length === 0) return null;
+
+  const pickedVersions = picked
+    .map(id => versions.find(v => v.id === id))
+    .filter((v): v is ImageVersion => !!v);
+
+  const handleClick = (version: ImageVersion) => {
+    if (!comparing) {
+      onSelect(version.id);
+      return;
+    }
+    setPicked(prev =>
+      prev.includes(version.id) ? prev.filter(id => id !== version.id) : [...prev, version.id].slice(-2)
+    );
+  };
+
+  const handleDelete = (version: ImageVersion) => {
+    if (!confirm('删除这个历史版本？')) return;
+    setPicked(prev => prev.filter(id => id !== version.id));
+    onDelete(version.id);
+  };
+
+  const toggleCompare = () => {
+    setComparing(c => !c);
+    setPicked([]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <History size={12} />
+        <span className="font-bold uppercase tracking-wider">历史版本 ({versions.length})</span>
+        {comparing && <span className="text-blue-300">选择两个版本进行对比</span>}
+        <div className="flex-1" />
+        {versions.length > 1 && (
+          <button
+            onClick={toggleCompare}
+            className={`px-2 py-1 rounded flex items-center gap-1 border transition ${comparing ? 'bg-blue-900/40 text-blue-300 border-blue-500/40' : 'text-gray-400 border-gray-700 hover:bg-gray-800'}`}
+          >
+            <GitCompare size={12} /> {comparing ? '退出对比' : '对比'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {versions.map((version, i) => {
+          const isActive = version.id === history?.activeId;
+          const pickIndex = picked.indexOf(version.id);
+          const border = pickIndex >= 0 ? 'border-blue-500' : isActive ? 'border-purple-500' : 'border-gray-800 hover:border-gray-600';
+          return (
+            <div key={version.id} className="relative flex-shrink-0 group/take">
+              <button
+                onClick={() => handleClick(version)}
+                className={`block w-24 h-14 rounded overflow-hidden border-2 transition ${border}`}
+                title={`#${i + 1} · ${formatVersionTime(version)} · ${formatVersionModel(version)}${version.editChain?.length ? `\n修改记录：\n${formatEditChain(version)}` : ''}`}
+              >
+                <img src={version.imageUrl} className="w-full h-full object-cover" />
+              </button>
+              <span className="absolute bottom-0.5 left-1 text-[10px] text-white/80 drop-shadow">#{i + 1}</span>
+              {version.editChain && version.editChain.length > 0 && (
+                <Wand2 size={10} className="absolute bottom-1 right-1 text-purple-300 drop-shadow" />
+              )}
+              {pickIndex >= 0 && (
+                <span className="absolute top-0.5 left-1 px-1 rounded bg-blue-600 text-[10px] text-white font-bold">{pickIndex === 0 ? 'A' : 'B'}</span>
+              )}
+              {!isActive && !comparing && (
+                <button
+                  onClick={() => handleDelete(version)}
+                  className="absolute top-0.5 right-0.5 p-0.5 rounded bg-black/70 text-gray-300 hover:text-red-400 opacity-0 group-hover/take:opacity-100 transition"
+                  title="删除此版本"
+                >
+                  <X size={10} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {pickedVersions.length === 2 && (
+        <VersionCompareDialog
+          versions={[pickedVersions[0], pickedVersions[1]]}
+          activeId={history?.activeId}
+          onSelect={onSelect}
+          onClose={() => setPicked([])}
+        />
+      )}
+    </div>
+  );
+};
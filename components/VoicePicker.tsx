@@ -0,0 +1,65 @@
+import React from 'react';
+import { generateSpeech } from '../services/geminiService';
+import { enqueueJob, isTargetBusy, useJobQueue } from '../services/jobQueue';
+import { formatErrorMessage } from '../services/aiErrors';
+import { GENDER_LABELS, VOICE_CATALOG, VoiceGender, getVoiceLabel, isKnownVoice } from '../services/voices';
+import { Loader2, Volume2 } from 'lucide-react';
+
+interface VoicePickerProps {
+  voice: string;
+  onChange: (voice: string) => void;
+  sampleText: string; // What the audition says
+  auditionId: string; // Job target, so each picker tracks its own audition
+}
+
+const GENDERS: VoiceGender[] = ['female', 'male'];
+
+/**
+ * Voice dropdown over the full prebuilt catalog, with an audition button.
+ */
+export const VoicePicker: React.FC<VoicePickerProps> = ({ voice, onChange, sampleText, auditionId }) => {
+  const jobs = useJobQueue();
+  const isAuditioning = isTargetBusy(jobs, auditionId, 'speech');
+
+  const handleAudition = () => {
+    enqueueJob<string>({
+      kind: 'speech',
+      label: `试听音色：${voice}`,
+      targetId: auditionId,
+      task: () => generateSpeech(sampleText, voice),
+      onSuccess: url => {
+        const audio = new Audio(url);
+        audio.onended = () => URL.revokeObjectURL(url);
+        audio.play();
+      },
+      onError: e => alert(formatErrorMessage("试听失败", e)),
+    });
+  };
+
+  return (
+    <div className="flex gap-2">
+      <select
+        className="flex-1 min-w-0 bg-gray-900 border border-gray-700 text-xs text-gray-300 rounded p-2 outline-none"
+        value={voice}
+        onChange={e => onChange(e.target.value)}
+      >
+        {GENDERS.map(gender => (
+          <optgroup key={gender} label={GENDER_LABELS[gender]}>
+            {VOICE_CATALOG.filter(v => v.gender === gender).map(v => (
+              <option key={v.id} value={v.id}>{getVoiceLabel(v.id)}</option>
+            ))}
+          </optgroup>
+        ))}
+        {!isKnownVoice(voice) && <option value={voice}>{voice}</option>}
+      </select>
+      <button
+        onClick={handleAudition}
+        disabled={isAuditioning}
+        className="p-2 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 border border-gray-700 disabled:opacity-50"
+        title={`试听：${sampleText}`}
+      >
+        {isAuditioning ? <Loader2 size={14} className="animate-spin" /> : <Volume2 size={14} />}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+// --- AI Error Taxonomy ---
+// Every provider failure is classified into one of these kinds so retries
+// and user-facing messages can be handled per class.
+
+export type AIErrorKind = "auth" | "quota" | "safety" | "malformed" | "network" | "unknown";
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  retryAfterMs?: number; // Server-suggested wait before retrying (quota errors)
+  cause?: unknown;
+
+  constructor(kind: AIErrorKind, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = "AIError";
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+const AUTH_PATTERNS = ["API key not valid", "API_KEY_INVALID", "API Key is missing", "UNAUTHENTICATED", "PERMISSION_DENIED", "Incorrect API key", "invalid_api_key"];
+const QUOTA_PATTERNS = ["RESOURCE_EXHAUSTED", "quota", "Quota", "rate limit", "Rate limit", "Too Many Requests", "rate_limit_exceeded"];
+const SAFETY_PATTERNS = ["AI Refusal", "SAFETY", "PROHIBITED_CONTENT", "blockReason", "content_policy_violation", "safety system"];
+const NETWORK_PATTERNS = ["Rpc failed", "xhr error", "fetch failed", "Failed to fetch", "NetworkError", "Load failed", "network timeout", "ECONNRESET", "UNAVAILABLE"];
+
+/**
+ * Reads a retry hint from an error: an HTTP Retry-After value, Gemini's
+ * RetryInfo `retryDelay`, or a "retry in 12.3s" sentence in the message.
+ */
+const parseRetryAfterMs = (error: any, msg: string): number | undefined => {
+  const header = error?.retryAfter ?? error?.response?.headers?.get?.("retry-after");
+  if (header !== undefined && header !== null) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(String(header));
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const match = msg.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) || msg.match(/retry in ([\d.]+)\s*s/i);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Turns any thrown value into an AIError, inspecting HTTP status, nested
+ * Google API error objects and known message fragments.
+ */
+export const classifyError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+
+  const err: any = error || {};
+  // Extract error message safely from various possible shapes, including
+  // nested Google API responses ({ error: { code: 500, message: ... } })
+  let msg: string = err.message || String(error || "");
+  if (err.error?.message) msg += " " + err.error.message;
+
+  const status: number | undefined = err.status || err.response?.status || err.error?.code;
+  const has = (patterns: string[]) => patterns.some(p => msg.includes(p));
+  const options = { status, cause: error };
+
+  if (status === 401 || status === 403 || has(AUTH_PATTERNS)) {
+    return new AIError("auth", msg, options);
+  }
+  if (status === 429 || has(QUOTA_PATTERNS)) {
+    return new AIError("quota", msg, { ...options, retryAfterMs: parseRetryAfterMs(err, msg) });
+  }
+  if (has(SAFETY_PATTERNS)) {
+    return new AIError("safety", msg, options);
+  }
+  if (err instanceof SyntaxError || msg.includes("Invalid JSON")) {
+    return new AIError("malformed", msg, options);
+  }
+  if ((status && status >= 500) || has(NETWORK_PATTERNS)) {
+    return new AIError("network", msg, options);
+  }
+  return new AIError("unknown", msg, options);
+};
+
+/**
+ * Whether waiting and trying again can help.
+ */
+export const isRetryable = (error: AIError) => error.kind === "quota" || error.kind === "network";
+
+const ERROR_DESCRIPTIONS: Record<AIErrorKind, { title: string; suggestion: string }> = {
+  auth: {
+    title: "API Key 无效或缺失",
+    suggestion: "请在“设置”中检查 API Key 是否正确、是否有该模型的访问权限。",
+  },
+  quota: {
+    title: "请求过于频繁或额度已用尽",
+    suggestion: "请稍后再试，或在生成队列中降低并发数；如持续出现，请检查账户配额与计费。",
+  },
+  safety: {
+    title: "内容被 AI 安全策略拒绝",
+    suggestion: "请修改提示词，避免暴力、血腥、成人或真实人物等敏感描述后重试。",
+  },
+  malformed: {
+    title: "AI 返回的数据格式无效",
+    suggestion: "通常是输出被截断或格式错误，请直接重试；剧本过长时可拆分后再分析。",
+  },
+  network: {
+    title: "网络或服务暂时不可用",
+    suggestion: "已自动重试仍失败，请检查网络连接或稍后再试。",
+  },
+  unknown: {
+    title: "未知错误",
+    suggestion: "请重试；如问题持续，请查看浏览器控制台中的详细错误信息。",
+  },
+};
+
+export const describeError = (error: unknown) => {
+  const aiError = classifyError(error);
+  return { kind: aiError.kind, ...ERROR_DESCRIPTIONS[aiError.kind], detail: aiError.message };
+};
+
+/**
+ * Message for alert(): what failed, why, and how to fix it.
+ */
+export const formatErrorMessage = (context: string, error: unknown): string => {
+  const { title, suggestion } = describeError(error);
+  return `${context}：${title}\n\n${suggestion}`;
+};
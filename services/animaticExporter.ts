@@ -0,0 +1,225 @@
+import { StoryboardFrame } from "../types";
+import { loadImage } from "./imageUtils";
+import { DEFAULT_FRAME_DURATION, getFrameDuration } from "./timeline";
+
+export interface AnimaticOptions {
+  width: number;
+  height: number;
+  fps: number;
+  defaultDuration: number; // Seconds for frames without audio or an explicit duration
+  kenBurns: boolean;
+  transitionDuration: number; // Seconds taken by each frame's fade/dissolve transition
+}
+
+export const DEFAULT_ANIMATIC_OPTIONS: AnimaticOptions = {
+  width: 1280,
+  height: 720,
+  fps: 30,
+  defaultDuration: DEFAULT_FRAME_DURATION,
+  kenBurns: true,
+  transitionDuration: 0.5,
+};
+
+interface AnimaticSegment {
+  frame: StoryboardFrame;
+  image?: HTMLImageElement;
+  audio?: AudioBuffer;
+  start: number;
+  duration: number;
+}
+
+const RECORDER_MIME_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+
+const abortError = () => new DOMException("Animatic export cancelled", "AbortError");
+
+const loadAudio = async (ctx: AudioContext, url: string): Promise<AudioBuffer> => {
+  const data = await fetch(url).then(r => r.arrayBuffer());
+  return ctx.decodeAudioData(data);
+};
+
+/**
+ * Draws an image scaled to cover the canvas, with an optional Ken Burns
+ * zoom/pan driven by `progress` (0..1 across the frame's duration).
+ */
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  progress: number,
+  kenBurns: boolean,
+  direction: number
+) => {
+  const { width, height } = ctx.canvas;
+  const baseScale = Math.max(width / img.width, height / img.height);
+  const zoom = kenBurns ? 1 + 0.08 * (direction % 2 === 0 ? progress : 1 - progress) : 1;
+  const scale = baseScale * zoom;
+  const drawW = img.width * scale;
+  const drawH = img.height * scale;
+
+  // Pan across the spare margin, alternating direction per frame
+  const spareX = drawW - width;
+  const spareY = drawH - height;
+  const panX = kenBurns ? (direction % 4 < 2 ? progress : 1 - progress) : 0.5;
+  const panY = kenBurns ? 0.5 + (direction % 3 - 1) * 0.25 * (progress - 0.5) : 0.5;
+
+  ctx.drawImage(img, -spareX * panX, -spareY * panY, drawW, drawH);
+};
+
+const drawPlaceholder = (ctx: CanvasRenderingContext2D, frame: StoryboardFrame) => {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = "#111";
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = "#555";
+  ctx.font = `bold ${Math.round(height * 0.08)}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.fillText(`#${frame.panelNumber}`, width / 2, height / 2);
+  ctx.textAlign = "start";
+};
+
+const drawSegment = (ctx: CanvasRenderingContext2D, segment: AnimaticSegment, index: number, time: number, options: AnimaticOptions) => {
+  const progress = Math.min(1, Math.max(0, (time - segment.start) / segment.duration));
+  if (segment.image) {
+    drawCover(ctx, segment.image, progress, options.kenBurns, index);
+  } else {
+    drawPlaceholder(ctx, segment.frame);
+  }
+};
+
+/**
+ * Overlays the transitions around the current segment. A frame's transition
+ * describes how it enters: dissolve blends it in over the tail of the
+ * previous frame, fade dips to black across the cut.
+ */
+const drawTransitions = (ctx: CanvasRenderingContext2D, segments: AnimaticSegment[], index: number, time: number, options: AnimaticOptions) => {
+  const segment = segments[index];
+  const next = segments[index + 1];
+  const span = Math.min(options.transitionDuration, segment.duration / 2);
+  if (span <= 0) return;
+
+  const end = segment.start + segment.duration;
+  const nextTransition = next?.frame.transition || "cut";
+
+  if (next && nextTransition === "dissolve" && time > end - span) {
+    ctx.globalAlpha = Math.min(1, (time - (end - span)) / span);
+    drawSegment(ctx, next, index + 1, next.start, options);
+    ctx.globalAlpha = 1;
+  }
+
+  let blackout = 0;
+  if (next && nextTransition === "fade" && time > end - span / 2) {
+    blackout = (time - (end - span / 2)) / (span / 2);
+  }
+  if (segment.frame.transition === "fade" && index > 0 && time < segment.start + span / 2) {
+    blackout = Math.max(blackout, 1 - (time - segment.start) / (span / 2));
+  }
+  if (blackout > 0) {
+    ctx.fillStyle = `rgba(0,0,0,${Math.min(1, blackout)})`;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  }
+};
+
+/**
+ * Renders storyboard frames in order to a WebM animatic with the dialogue
+ * clips mixed in. Recording happens in real time via MediaRecorder, so the
+ * export takes as long as the animatic runs.
+ */
+export const exportAnimatic = async (
+  frames: StoryboardFrame[],
+  options: AnimaticOptions,
+  onProgress: (progress: number, message: string) => void,
+  signal: AbortSignal
+): Promise<Blob> => {
+  if (frames.length === 0) throw new Error("No frames to export");
+  const mimeType = RECORDER_MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+  if (!mimeType) throw new Error("This browser cannot record WebM video");
+
+  const audioCtx = new AudioContext();
+  try {
+    // 1. Preload assets and lay out the timeline
+    const segments: AnimaticSegment[] = [];
+    let cursor = 0;
+    for (let i = 0; i < frames.length; i++) {
+      if (signal.aborted) throw abortError();
+      const frame = frames[i];
+      onProgress(0, `正在加载素材 ${i + 1}/${frames.length}...`);
+
+      const image = frame.generatedImageUrl ? await loadImage(frame.generatedImageUrl).catch(() => undefined) : undefined;
+      const audio = frame.audioUrl ? await loadAudio(audioCtx, frame.audioUrl).catch(() => undefined) : undefined;
+      const duration = getFrameDuration(frame, audio?.duration, options.defaultDuration);
+
+      segments.push({ frame, image, audio, start: cursor, duration });
+      cursor += duration;
+    }
+    const totalDuration = cursor;
+
+    // 2. Wire canvas video + Web Audio into one recorded stream
+    const canvas = document.createElement("canvas");
+    canvas.width = options.width;
+    canvas.height = options.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+
+    const audioDestination = audioCtx.createMediaStreamDestination();
+    const stream = new MediaStream([
+      ...canvas.captureStream(options.fps).getVideoTracks(),
+      ...audioDestination.stream.getAudioTracks(),
+    ]);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    // Draw the first frame before recording starts so the video doesn't open on black
+    drawSegment(ctx, segments[0], 0, 0, options);
+    await audioCtx.resume();
+
+    // Dialogue is cut off when its shot ends, as drawn on the timeline
+    const startAt = audioCtx.currentTime + 0.1;
+    segments.forEach(segment => {
+      if (!segment.audio) return;
+      const source = audioCtx.createBufferSource();
+      source.buffer = segment.audio;
+      source.connect(audioDestination);
+      source.start(startAt + segment.start);
+      source.stop(startAt + segment.start + segment.duration);
+    });
+    recorder.start(1000);
+
+    // 3. Render loop, clocked by the audio context so picture and sound stay in sync
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => reject(abortError());
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      const render = () => {
+        if (signal.aborted) return;
+        const time = audioCtx.currentTime - startAt;
+        if (time >= totalDuration) {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+          return;
+        }
+
+        const index = Math.max(0, segments.findIndex(s => time < s.start + s.duration));
+        const segment = segments[index];
+        drawSegment(ctx, segment, index, Math.max(0, time), options);
+        drawTransitions(ctx, segments, index, Math.max(0, time), options);
+
+        onProgress(Math.max(0, time) / totalDuration, `正在录制 ${Math.max(0, time).toFixed(1)}s / ${totalDuration.toFixed(1)}s`);
+        requestAnimationFrame(render);
+      };
+      requestAnimationFrame(render);
+    }).finally(() => {
+      if (recorder.state !== "inactive") recorder.stop();
+      stream.getTracks().forEach(t => t.stop());
+    });
+
+    await stopped;
+    onProgress(1, "导出完成");
+    return new Blob(chunks, { type: "video/webm" });
+  } finally {
+    audioCtx.close();
+  }
+};
@@ -0,0 +1,202 @@
+import { AudioMix, MixTrack, MixTrackKind, StoryboardFrame } from "../types";
+import { audioBufferToWavUrl } from "./audioUtils";
+import { DEFAULT_FRAME_DURATION, TimelineClip, buildTimeline } from "./timeline";
+
+// --- Audio Mix ---
+// Music and sound effects laid against the storyboard timeline, mixed with
+// the dialogue clips and rendered offline to one master WAV.
+
+export const MIX_SAMPLE_RATE = 44100;
+export const MAX_DUCKING_DB = 24;
+
+// Seconds for music to dip before a line starts and recover after it ends
+const DUCK_ATTACK = 0.15;
+const DUCK_RELEASE = 0.5;
+
+export const DEFAULT_AUDIO_MIX: AudioMix = {
+  tracks: [],
+  dialogueVolume: 1,
+  duckingDb: 12,
+};
+
+export const TRACK_KIND_LABELS: Record<MixTrackKind, string> = {
+  music: "音乐",
+  sfx: "音效",
+};
+
+const clamp = (value: any, min: number, max: number, fallback: number) =>
+  typeof value === "number" && !isNaN(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+export const normalizeAudioMix = (raw: any): AudioMix => ({
+  tracks: Array.isArray(raw?.tracks) ? raw.tracks.filter((t: any) => t && typeof t.audioUrl === "string") : [],
+  dialogueVolume: clamp(raw?.dialogueVolume, 0, 1, DEFAULT_AUDIO_MIX.dialogueVolume),
+  duckingDb: clamp(raw?.duckingDb, 0, MAX_DUCKING_DB, DEFAULT_AUDIO_MIX.duckingDb),
+});
+
+/**
+ * A new track for an imported file. Music loops under the scene with gentle
+ * fades; effects play once at full volume.
+ */
+export const createMixTrack = (kind: MixTrackKind, name: string, audioUrl: string, anchorFrameId: string): MixTrack => ({
+  id: crypto.randomUUID(),
+  kind,
+  name,
+  audioUrl,
+  anchorFrameId,
+  offset: 0,
+  loop: kind === "music",
+  volume: kind === "music" ? 0.6 : 1,
+  fadeIn: kind === "music" ? 1 : 0,
+  fadeOut: kind === "music" ? 2 : 0,
+});
+
+export interface PlacedTrack {
+  track: MixTrack;
+  start: number;
+  end: number;
+  anchorMissing: boolean; // The anchor frame was deleted; the track falls back to the start
+}
+
+/**
+ * Where each track plays on the timeline. `fileDurations` maps audio URLs to
+ * seconds; tracks whose file length is still unknown get no span yet.
+ */
+export const placeTracks = (
+  tracks: MixTrack[],
+  clips: TimelineClip[],
+  totalDuration: number,
+  fileDurations: Record<string, number>
+): PlacedTrack[] =>
+  tracks.map(track => {
+    const anchor = clips.find(c => c.frame.id === track.anchorFrameId);
+    const start = Math.max(0, (anchor?.start ?? 0) + track.offset);
+    const natural = track.loop ? Infinity : fileDurations[track.audioUrl] ?? 0;
+    const length = track.length && track.length > 0 ? Math.min(track.length, natural) : natural;
+    const end = Math.min(totalDuration, start + length);
+    return { track, start, end: Math.max(start, end), anchorMissing: !anchor };
+  });
+
+/**
+ * Anchors a track so that it starts at `time`: to the frame playing at that
+ * moment, with the remainder as offset.
+ */
+export const anchorAt = (clips: TimelineClip[], time: number): Pick<MixTrack, "anchorFrameId" | "offset"> => {
+  const t = Math.max(0, time);
+  const clip = clips.find(c => t < c.start + c.duration) || clips[clips.length - 1];
+  return { anchorFrameId: clip.frame.id, offset: Math.round((t - clip.start) * 10) / 10 };
+};
+
+/**
+ * Spans where dialogue is heard, merged when the gap between them is too
+ * short for the music to come back up.
+ */
+export const getDialogueSpans = (clips: TimelineClip[]): [number, number][] => {
+  const spans: [number, number][] = [];
+  clips.forEach(clip => {
+    if (!clip.frame.audioUrl || !clip.audioDuration) return;
+    const start = clip.start;
+    const end = clip.start + Math.min(clip.audioDuration, clip.duration);
+    const last = spans[spans.length - 1];
+    if (last && start - last[1] < DUCK_ATTACK + DUCK_RELEASE) last[1] = Math.max(last[1], end);
+    else spans.push([start, end]);
+  });
+  return spans;
+};
+
+const loadBuffer = async (ctx: BaseAudioContext, url: string): Promise<AudioBuffer> => {
+  const data = await (await fetch(url)).arrayBuffer();
+  return ctx.decodeAudioData(data);
+};
+
+/**
+ * Renders dialogue, music and effects offline to a master WAV (blob URL).
+ * Frames are timed exactly as on the timeline; music dips under dialogue by
+ * `mix.duckingDb`.
+ */
+export const renderMix = async (
+  frames: StoryboardFrame[],
+  mix: AudioMix,
+  onProgress?: (message: string) => void,
+  defaultDuration: number = DEFAULT_FRAME_DURATION
+): Promise<string> => {
+  // 1. Decode every clip once; the decoding context's rate is the output rate
+  onProgress?.("正在解码音频...");
+  const decoder = new OfflineAudioContext(2, 1, MIX_SAMPLE_RATE);
+  const buffers = new Map<string, AudioBuffer>();
+  const urls = new Set([
+    ...frames.map(f => f.audioUrl).filter((u): u is string => !!u),
+    ...mix.tracks.filter(t => !t.muted).map(t => t.audioUrl),
+  ]);
+  for (const url of urls) {
+    const buffer = await loadBuffer(decoder, url).catch(e => {
+      console.warn("Skipping undecodable clip", e);
+      return undefined;
+    });
+    if (buffer) buffers.set(url, buffer);
+  }
+
+  const durations = Object.fromEntries(Array.from(buffers, ([url, b]) => [url, b.duration]));
+  const { clips, totalDuration } = buildTimeline(frames, durations, defaultDuration);
+  if (totalDuration <= 0) throw new Error("时间线为空，没有可混音的内容。");
+
+  // 2. Build the graph: dialogue bus, ducked music bus, effects straight out
+  onProgress?.("正在混音...");
+  const ctx = new OfflineAudioContext(2, Math.ceil(totalDuration * MIX_SAMPLE_RATE), MIX_SAMPLE_RATE);
+
+  const dialogueBus = ctx.createGain();
+  dialogueBus.gain.value = mix.dialogueVolume;
+  dialogueBus.connect(ctx.destination);
+
+  const musicBus = ctx.createGain();
+  musicBus.connect(ctx.destination);
+  if (mix.duckingDb > 0) {
+    const ducked = Math.pow(10, -mix.duckingDb / 20);
+    getDialogueSpans(clips).forEach(([start, end]) => {
+      const dipAt = Math.max(0, start - DUCK_ATTACK);
+      musicBus.gain.setValueAtTime(1, dipAt);
+      musicBus.gain.linearRampToValueAtTime(ducked, start);
+      musicBus.gain.setValueAtTime(ducked, end);
+      musicBus.gain.linearRampToValueAtTime(1, end + DUCK_RELEASE);
+    });
+  }
+
+  // Dialogue is cut off when its shot ends, as in the animatic and on the timeline
+  clips.forEach(clip => {
+    const buffer = clip.frame.audioUrl && buffers.get(clip.frame.audioUrl);
+    if (!buffer) return;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(dialogueBus);
+    source.start(clip.start);
+    source.stop(clip.start + clip.duration);
+  });
+
+  placeTracks(mix.tracks, clips, totalDuration, durations).forEach(({ track, start, end }) => {
+    const buffer = buffers.get(track.audioUrl);
+    if (track.muted || !buffer || end <= start) return;
+
+    const gain = ctx.createGain();
+    const span = end - start;
+    const fadeIn = Math.min(track.fadeIn, span / 2);
+    const fadeOut = Math.min(track.fadeOut, span / 2);
+    gain.gain.setValueAtTime(fadeIn > 0 ? 0 : track.volume, start);
+    if (fadeIn > 0) gain.gain.linearRampToValueAtTime(track.volume, start + fadeIn);
+    if (fadeOut > 0) {
+      gain.gain.setValueAtTime(track.volume, end - fadeOut);
+      gain.gain.linearRampToValueAtTime(0, end);
+    }
+    gain.connect(track.kind === "music" ? musicBus : ctx.destination);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = !!track.loop;
+    source.connect(gain);
+    source.start(start);
+    source.stop(end);
+  });
+
+  // 3. Render and encode
+  const rendered = await ctx.startRendering();
+  onProgress?.("正在编码 WAV...");
+  return audioBufferToWavUrl(rendered);
+};
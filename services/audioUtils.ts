@@ -0,0 +1,120 @@
+// --- Audio Utilities ---
+
+// Sample rate of the raw PCM returned by Gemini TTS
+export const TTS_SAMPLE_RATE = 24000;
+
+/**
+ * Reads the duration (seconds) of a playable audio URL from its metadata.
+ */
+export function getAudioDuration(url: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => resolve(audio.duration);
+    audio.onerror = () => reject(new Error('Failed to read audio metadata'));
+    audio.src = url;
+  });
+}
+
+export function pcmBase64ToWavUrl(base64Pcm: string): string {
+  const binaryString = atob(base64Pcm);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+
+  // Gemini TTS output is typically 24kHz, 1 channel (mono), 16-bit PCM
+  const sampleRate = TTS_SAMPLE_RATE;
+  const numChannels = 1;
+  const bitsPerSample = 16;
+  
+  const wavBytes = createWavHeader(bytes, sampleRate, numChannels, bitsPerSample);
+  const blob = new Blob([wavBytes], { type: 'audio/wav' });
+  return URL.createObjectURL(blob);
+}
+
+/**
+ * Encodes decoded audio as a 16-bit PCM WAV blob URL.
+ */
+export function audioBufferToWavUrl(buffer: AudioBuffer): string {
+  const numChannels = buffer.numberOfChannels;
+  const channels = Array.from({ length: numChannels }, (_, c) => buffer.getChannelData(c));
+  const pcm = new Uint8Array(buffer.length * numChannels * 2);
+  const view = new DataView(pcm.buffer);
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16((i * numChannels + c) * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    }
+  }
+
+  const wavBytes = createWavHeader(pcm, buffer.sampleRate, numChannels, 16);
+  const blob = new Blob([wavBytes], { type: 'audio/wav' });
+  return URL.createObjectURL(blob);
+}
+
+/**
+ * Joins speech clips back to back, with a short pause between them, into
+ * one mono WAV. Clips may come from different providers and sample rates.
+ */
+export async function concatAudioUrls(urls: string[], gapSeconds = 0.3): Promise<string> {
+  const context = new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE);
+  const buffers = await Promise.all(urls.map(async url => {
+    const data = await (await fetch(url)).arrayBuffer();
+    return context.decodeAudioData(data); // Resampled to the context rate
+  }));
+
+  const gap = Math.round(gapSeconds * TTS_SAMPLE_RATE);
+  const length = buffers.reduce((sum, b) => sum + b.length, 0) + gap * Math.max(0, buffers.length - 1);
+  const output = context.createBuffer(1, Math.max(1, length), TTS_SAMPLE_RATE);
+  const samples = output.getChannelData(0);
+  let offset = 0;
+  buffers.forEach(buffer => {
+    samples.set(buffer.getChannelData(0), offset);
+    offset += buffer.length + gap;
+  });
+  return audioBufferToWavUrl(output);
+}
+
+export function createWavHeader(pcmData: Uint8Array, sampleRate: number, numChannels: number, bitsPerSample: number): Uint8Array {
+    const header = new ArrayBuffer(44);
+    const view = new DataView(header);
+    const pcmLength = pcmData.length;
+    const dataSize = pcmLength;
+    const fileSize = 36 + dataSize;
+    const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
+    const blockAlign = numChannels * (bitsPerSample / 8);
+
+    // RIFF chunk descriptor
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, fileSize, true);
+    writeString(view, 8, 'WAVE');
+
+    // fmt sub-chunk
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
+    view.setUint16(20, 1, true);  // AudioFormat (1 for PCM)
+    view.setUint16(22, numChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, byteRate, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitsPerSample, true);
+
+    // data sub-chunk
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    // Combine header and data
+    const wavFile = new Uint8Array(header.byteLength + pcmLength);
+    wavFile.set(new Uint8Array(header), 0);
+    wavFile.set(pcmData, 44);
+
+    return wavFile;
+}
+
+function writeString(view: DataView, offset: number, string: string) {
+    for (let i = 0; i < string.length; i++) {
+        view.setUint8(offset + i, string.charCodeAt(i));
+    }
+}
@@ -0,0 +1,151 @@
+import { Character, DialogueLine, DialogueLineType, LineDirection, ScriptPanel, SpeechRate, SpeechVolume } from "../types";
+
+// --- Dialogue Lines ---
+// A panel holds an ordered list of lines, each with its own speaker. The
+// flat `dialogue` string is derived from them for display and continuity.
+
+export const DIALOGUE_LINE_TYPES: { id: DialogueLineType; label: string }[] = [
+  { id: "dialogue", label: "对白" },
+  { id: "monologue", label: "内心独白" },
+  { id: "narration", label: "旁白" },
+  { id: "offscreen", label: "画外音" },
+];
+
+export const NARRATOR_LABEL = "旁白";
+
+export const SPEECH_RATES: { id: SpeechRate; label: string }[] = [
+  { id: "slow", label: "慢速" },
+  { id: "normal", label: "正常语速" },
+  { id: "fast", label: "快速" },
+];
+
+export const SPEECH_VOLUMES: { id: SpeechVolume; label: string }[] = [
+  { id: "whisper", label: "耳语" },
+  { id: "normal", label: "正常音量" },
+  { id: "shout", label: "喊叫" },
+];
+
+export const MAX_INTENSITY = 5;
+
+// Fixed so a legacy panel's derived line keeps its id across renders
+const LEGACY_LINE_ID = "legacy";
+
+// Indexed by intensity 1-5
+const INTENSITY_WORDS = ["a hint of", "mild", "clear", "strong", "overwhelming"];
+
+export const getLineTypeLabel = (type: DialogueLineType) =>
+  DIALOGUE_LINE_TYPES.find(t => t.id === type)?.label || type;
+
+const normalizeLineType = (raw: any): DialogueLineType =>
+  DIALOGUE_LINE_TYPES.some(t => t.id === raw) ? raw : "dialogue";
+
+const normalizeOption = <T extends string>(options: { id: T }[], raw: any): T | undefined =>
+  options.some(o => o.id === raw) && raw !== "normal" ? raw : undefined;
+
+const normalizeIntensity = (raw: any): number | undefined =>
+  typeof raw === "number" && raw >= 1 ? Math.min(MAX_INTENSITY, Math.round(raw)) : undefined;
+
+const optionalText = (raw: any): string | undefined =>
+  typeof raw === "string" && raw.trim() ? raw.trim() : undefined;
+
+export const createDialogueLine = (fields: Partial<DialogueLine> = {}): DialogueLine => ({
+  id: crypto.randomUUID(),
+  speaker: "",
+  type: "dialogue",
+  text: "",
+  ...fields,
+});
+
+/**
+ * The panel's lines. Panels saved before lines existed only have the flat
+ * `dialogue` string, which is read as one line by the first character.
+ */
+export const getDialogueLines = (panel: ScriptPanel): DialogueLine[] => {
+  if (panel.lines) return panel.lines;
+  const text = panel.dialogue?.trim();
+  if (!text) return [];
+  const speaker = panel.charactersPresent?.[0] || "";
+  return [createDialogueLine({ id: LEGACY_LINE_ID, speaker, type: speaker ? "dialogue" : "narration", text })];
+};
+
+/**
+ * Lines to store on a panel loaded from an older save, with the derived
+ * legacy line given an id of its own.
+ */
+export const migrateDialogueLines = (panel: ScriptPanel): DialogueLine[] =>
+  getDialogueLines(panel).map(line => line.id === LEGACY_LINE_ID ? { ...line, id: crypto.randomUUID() } : line);
+
+/** Lines that would actually be voiced. */
+export const getSpokenLines = (panel: ScriptPanel): DialogueLine[] =>
+  getDialogueLines(panel).filter(l => l.text.trim().length > 0);
+
+export const getSpeakerLabel = (line: DialogueLine) => line.speaker || NARRATOR_LABEL;
+
+/** One line per entry, e.g. "林晓：你来了。" */
+export const formatDialogue = (lines: DialogueLine[]): string =>
+  lines
+    .filter(l => l.text.trim())
+    .map(l => l.speaker ? `${l.speaker}：${l.text.trim()}` : l.text.trim())
+    .join("\n");
+
+/** Frame fields to update when its lines change, keeping `dialogue` in sync. */
+export const withDialogueLines = (lines: DialogueLine[]): Pick<ScriptPanel, "lines" | "dialogue"> => ({
+  lines,
+  dialogue: formatDialogue(lines),
+});
+
+/** The direction fields of a line, e.g. to seed an audition. */
+export const getDirection = ({ emotion, intensity, rate, volume, actingNote }: LineDirection): LineDirection =>
+  ({ emotion, intensity, rate, volume, actingNote });
+
+/**
+ * Delivery instructions for the TTS model, e.g. "whispering, slowly, with
+ * strong 悲伤". Empty when the line has no direction at all.
+ */
+export const formatDirection = (line: DialogueLine): string => {
+  const parts: string[] = [];
+  if (line.type === "monologue") parts.push("as an intimate inner monologue");
+  if (line.type === "offscreen") parts.push("as a voice from off-screen");
+  if (line.type === "narration") parts.push("as a narrator");
+  if (line.volume === "whisper") parts.push("whispering");
+  if (line.volume === "shout") parts.push("shouting");
+  if (line.rate === "slow") parts.push("slowly");
+  if (line.rate === "fast") parts.push("quickly");
+
+  const degree = line.intensity ? INTENSITY_WORDS[line.intensity - 1] : "";
+  if (line.emotion) parts.push(`with ${degree || "clear"} ${line.emotion}`);
+  else if (degree) parts.push(`with ${degree} emotional intensity`);
+
+  if (line.actingNote) parts.push(`acting note: ${line.actingNote}`);
+  return parts.join(", ");
+};
+
+/**
+ * Reads `dialogue_lines` from an analysis response, dropping empty entries.
+ */
+export const parseDialogueLines = (raw: any): DialogueLine[] =>
+  (Array.isArray(raw) ? raw : [])
+    .filter(l => l && typeof l.text === "string" && l.text.trim())
+    .map(l => {
+      const type = normalizeLineType(l.line_type);
+      return createDialogueLine({
+        speaker: type === "narration" || typeof l.speaker !== "string" ? "" : l.speaker.trim(),
+        type,
+        text: l.text.trim(),
+        emotion: optionalText(l.emotion),
+        intensity: normalizeIntensity(l.intensity),
+        rate: normalizeOption(SPEECH_RATES, l.rate),
+        volume: normalizeOption(SPEECH_VOLUMES, l.volume),
+        actingNote: optionalText(l.acting_note),
+      });
+    });
+
+// "林晓 (Lin Xiao)" speaks for the "林晓" character
+const normalizeSpeakerName = (name: string) => name.replace(/[（(][^）)]*[）)]/g, "").replace(/\s+/g, "").toLowerCase();
+
+/** The character voicing a line, if the speaker is in the cast. */
+export const findSpeaker = (line: DialogueLine, characters: Character[]): Character | undefined => {
+  if (!line.speaker) return undefined;
+  const key = normalizeSpeakerName(line.speaker);
+  return characters.find(c => c.name === line.speaker) || characters.find(c => normalizeSpeakerName(c.name) === key);
+};
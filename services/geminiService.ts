@@ -1,65 +1,167 @@
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
-import { Character, Scene, ScriptPanel } from "../types";
+import { Character, ImageVersion, Scene, ScriptPanel, StyleGuide } from "../types";
+import { AIError, classifyError, isRetryable } from "./aiErrors";
+import { concatAudioUrls, getAudioDuration } from "./audioUtils";
+import { parseDialogueLines, withDialogueLines } from "./dialogue";
+import { createVersion } from "./imageHistory";
+import { compositeMasked, padToAspectRatio } from "./imageUtils";
+import {
+  AICapability,
+  AIProvider,
+  AspectRatio,
+  JsonSchema,
+  ReferenceImage,
+  TokenUsage,
+  formatSourceText,
+  generateEach,
+  getImageCandidateCount,
+  resolveImageProvider,
+  resolveSpeechProvider,
+  resolveTextProvider,
+} from "./providers";
+import { DEFAULT_STYLE_GUIDE, formatNegativeTerms, formatStyle } from "./styleGuide";
+import { getFormatRatio } from "./outputFormat";
+import { recordUsage } from "./usageTracker";
+import { VOICE_CATALOG, VoiceSuggestion, isKnownVoice } from "./voices";
+
+// Panels from the previous chunk shown to the model for continuity
+const CONTINUITY_PANEL_COUNT = 3;
+
+export type ChunkProgressCallback = (chunkIndex: number, chunkCount: number) => void;
+
+// Longest server-suggested wait we'll honor before giving up on a quota error
+const MAX_RETRY_AFTER_MS = 60_000;
+
+// Retry helper for transient network/server errors and rate limits.
+// Failures are rethrown as classified AIErrors.
+async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 2000): Promise<T> {
+  try {
+    return await fn();
+  } catch (error: any) {
+    const aiError = classifyError(error);
+
+    if (retries > 0 && isRetryable(aiError)) {
+      // Rate limits: wait as long as the server asks, if it says
+      const hint = aiError.kind === "quota" ? aiError.retryAfterMs : undefined;
+      if (hint === undefined || hint <= MAX_RETRY_AFTER_MS) {
+        const wait = hint !== undefined ? Math.max(hint, 500) : delay;
+        console.warn(`[Retry] ${aiError.kind} error (${aiError.message}). Retrying in ${wait}ms... (${retries} left)`);
+        await new Promise(r => setTimeout(r, wait));
+        return withRetry(fn, retries - 1, delay * 2); // Exponential backoff
+      }
+    }
+
+    // If not retryable or no retries left, rethrow
+    throw aiError;
+  }
+}
 
-// Helper to ensure API Key exists
-const getAI = () => {
-  const localKey = localStorage.getItem("gemini_api_key");
-  const envKey = process.env.API_KEY;
-  const key = localKey || envKey;
+const addTokens = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a || 0) + (b || 0));
 
-  if (!key) {
-    throw new Error("API Key is missing. Please set it in Settings.");
+/**
+ * Collects the token usage a provider reports for one call (summed over its
+ * requests when it makes several) and records it, together with image count
+ * or audio length, once the call has succeeded.
+ */
+const trackUsage = (capability: AICapability, provider: AIProvider, model: string) => {
+  let usage: TokenUsage = {};
+  return {
+    onUsage: (reported: TokenUsage) => {
+      usage = {
+        inputTokens: addTokens(usage.inputTokens, reported.inputTokens),
+        outputTokens: addTokens(usage.outputTokens, reported.outputTokens),
+        model: reported.model || usage.model,
+      };
+    },
+    record: (extra: { imageCount?: number; audioSeconds?: number } = {}) => recordUsage({
+      capability,
+      provider: provider.id,
+      model: usage.model || model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      ...extra,
+    }),
+  };
+};
+
+const ENTITY_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    description: { type: "string" },
+    visualPrompt: { type: "string" },
   }
-  return new GoogleGenAI({ apiKey: key });
 };
 
-// Retry helper for transient network/server errors
-async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 2000): Promise<T> {
-  try {
-    return await fn();
-  } catch (error: any) {
-    // 1. Extract error message safely from various possible shapes
-    let msg = error.message || error.toString() || '';
-    
-    // Check for nested error object from Google API response (e.g. { error: { code: 500, message: ... } })
-    if (error.error && error.error.message) {
-      msg += ' ' + error.error.message;
+const VOICE_SUGGESTION_SCHEMA: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      character_name: { type: "string" },
+      voice: { type: "string", enum: VOICE_CATALOG.map(v => v.id) },
+      reason: { type: "string" },
     }
+  }
+};
 
-    const status = error.status || error.response?.status || error.error?.code;
-
-    // 2. Identify Transient Errors
-    const isTransient = 
-      status === 500 || 
-      status === 503 || 
-      status === 502 ||
-      status === 504 ||
-      msg.includes('Rpc failed') ||
-      msg.includes('xhr error') ||
-      msg.includes('fetch failed') ||
-      msg.includes('NetworkError') ||
-      msg.includes('Load failed') ||
-      msg.includes('network timeout');
-
-    if (retries > 0 && isTransient) {
-      console.warn(`[Retry] API Error (${msg}). Retrying in ${delay}ms... (${retries} left)`);
-      await new Promise(r => setTimeout(r, delay));
-      return withRetry(fn, retries - 1, delay * 2); // Exponential backoff
+const WORLD_INFO_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    characters: { type: "array", items: ENTITY_SCHEMA },
+    scenes: { type: "array", items: ENTITY_SCHEMA },
+  }
+};
+
+const PANEL_LIST_SCHEMA: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      panel_id: { type: "integer" },
+      visual_action: { type: "string" },
+      characters_in_shot: { type: "array", items: { type: "string" } },
+      dialogue_lines: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            speaker: { type: "string" },
+            line_type: { type: "string", enum: ["dialogue", "monologue", "narration", "offscreen"] },
+            text: { type: "string" },
+            emotion: { type: "string" },
+            intensity: { type: "integer" },
+            rate: { type: "string", enum: ["slow", "normal", "fast"] },
+            volume: { type: "string", enum: ["whisper", "normal", "shout"] },
+            acting_note: { type: "string" },
+          }
+        }
+      },
+      shot_type: { type: "string" },
     }
-    
-    // If not transient or no retries left, rethrow
-    throw error;
   }
-}
+};
 
 /**
  * Extracts characters and scenes from the script (Chinese enforced).
+ * Entities already known from earlier parts of the script are listed so the
+ * model can reuse their exact names instead of inventing variants.
  */
-export const extractWorldInfo = async (scriptText: string): Promise<{ characters: Partial<Character>[], scenes: Partial<Scene>[] }> => {
-  const ai = getAI();
+export const extractWorldInfo = async (
+  scriptText: string,
+  knownCharacters: Partial<Character>[] = [],
+  knownScenes: Partial<Scene>[] = []
+): Promise<{ characters: Partial<Character>[], scenes: Partial<Scene>[] }> => {
+  const knownContext = knownCharacters.length > 0 || knownScenes.length > 0 ? `
+    This script is a continuation. Already known from earlier parts:
+    - Characters: ${knownCharacters.map(c => c.name).join(", ") || "(none)"}
+    - Scenes: ${knownScenes.map(s => s.name).join(", ") || "(none)"}
+    If one of them appears again, use EXACTLY the same name. Focus on characters and scenes that are new.
+  ` : "";
+
   const prompt = `
     Analyze the following fiction script.
     Identify all the MAIN characters and DISTINCT scenes/locations.
+    ${knownContext}
     
     **OUTPUT LANGUAGE REQUIREMENT: SIMPLIFIED CHINESE (简体中文)**.
     
@@ -77,46 +179,13 @@ export const extractWorldInfo = async (scriptText: string): Promise<{ characters
       - Include: Lighting (neon, natural, dark), atmosphere, key props, architectural style.
       - Example: "破旧的废弃工厂内部，生锈的金属管道，昏暗的黄色应急灯光，地面有积水，充满压抑感".
 
-    Script:
-    ${scriptText}
+    ${formatSourceText(scriptText)}
   `;
 
-  const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          characters: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                description: { type: Type.STRING },
-                visualPrompt: { type: Type.STRING },
-              }
-            }
-          },
-          scenes: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                description: { type: Type.STRING },
-                visualPrompt: { type: Type.STRING },
-              }
-            }
-          }
-        }
-      }
-    }
-  }));
-
-  const text = response.text;
+  const { provider, impl, model } = resolveTextProvider();
+  const usage = trackUsage("text", provider, model);
+  const text = await withRetry(() => impl.generateJson({ model, prompt, schema: WORLD_INFO_SCHEMA, task: "extractWorldInfo", onUsage: usage.onUsage }));
+  usage.record();
   if (!text) throw new Error("Failed to analyze script entities");
 
   try {
@@ -127,79 +196,152 @@ export const extractWorldInfo = async (scriptText: string): Promise<{ characters
     };
   } catch (e) {
     console.error("JSON parse error", e);
-    throw new Error("Invalid JSON response from AI");
+    throw new AIError("malformed", "Invalid JSON response from AI", { cause: e });
   }
 }
 
 /**
- * Generates an image based on a prompt.
+ * Generates an image based on a prompt, using the provider chosen in Settings.
+ * Reference images (e.g. character sheets) are sent as inline image parts.
  */
-export const generateImage = async (prompt: string, aspectRatio: "1:1" | "16:9" | "9:16" | "3:4" | "4:3" = "1:1"): Promise<string> => {
-  const ai = getAI();
-  let lastError: any = new Error("Unknown error");
-  
-  // Attempt 1: Gemini 2.5 Flash Image
-  try {
-    const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: aspectRatio,
-        },
-      },
-    }), 2); // Retry twice for images
+export const generateImage = async (
+  prompt: string,
+  aspectRatio: AspectRatio = "1:1",
+  referenceImages: ReferenceImage[] = []
+): Promise<string> => (await generateImageVersion(prompt, aspectRatio, referenceImages)).imageUrl;
 
-    const parts = response.candidates?.[0]?.content?.parts || [];
-    
-    // Check for Image
-    const imagePart = parts.find(p => p.inlineData);
-    if (imagePart?.inlineData) {
-      return `data:image/png;base64,${imagePart.inlineData.data}`;
-    }
+/**
+ * Like generateImage, but returns the take with the prompt and the model that
+ * actually produced it, for the image's version history.
+ */
+export const generateImageVersion = async (
+  prompt: string,
+  aspectRatio: AspectRatio = "1:1",
+  referenceImages: ReferenceImage[] = []
+): Promise<ImageVersion> => (await generateImageCandidates(prompt, aspectRatio, referenceImages, 1))[0];
 
-    const textPart = parts.find(p => p.text);
-    if (textPart?.text) {
-        lastError = new Error(`AI Refusal: ${textPart.text.substring(0, 100)}...`);
-    } else {
-        lastError = new Error("API returned empty data.");
-    }
-  } catch (error: any) {
-    console.warn("Gemini 2.5 Flash Image failed, trying fallback...", error);
-    lastError = error;
+/**
+ * Generates `count` alternative takes of one prompt (fewer if some fail).
+ * Uses the provider's native batch request when it has one.
+ */
+export const generateImageCandidates = async (
+  prompt: string,
+  aspectRatio: AspectRatio = "1:1",
+  referenceImages: ReferenceImage[] = [],
+  count: number = getImageCandidateCount()
+): Promise<ImageVersion[]> => {
+  const { provider, impl, model } = resolveImageProvider();
+  const usage = trackUsage("image", provider, model);
+  const request = { model, prompt, aspectRatio, referenceImages, onUsage: usage.onUsage };
+  const images = count > 1 && impl.generateImages
+    ? await withRetry(() => impl.generateImages!(request, count), 2)
+    : await generateEach(req => withRetry(() => impl.generateImage(req), 2), request, count); // Retry twice for images
+  const record = usage.record({ imageCount: images.length });
+  return images.map(image => createVersion(image, prompt, record.model));
+};
+
+/**
+ * Applies a natural-language edit (e.g. "让她微笑", "move the camera lower")
+ * to an existing image, using the provider chosen in Settings.
+ */
+export const editImage = async (
+  imageUrl: string,
+  instruction: string,
+  aspectRatio: AspectRatio = "16:9"
+): Promise<string> => (await editImageVersion(createVersion(imageUrl, "", ""), instruction, aspectRatio)).imageUrl;
+
+/**
+ * Like editImage, but returns a new take that links back to the edited one
+ * and extends its chain of edit instructions.
+ */
+export const editImageVersion = async (
+  base: ImageVersion,
+  instruction: string,
+  aspectRatio: AspectRatio = "16:9"
+): Promise<ImageVersion> => {
+  const { provider, impl, model } = resolveImageProvider();
+  if (!impl.editImage) {
+    throw new Error(`Provider "${provider.label}" can't edit images. Please pick another image provider in Settings.`);
   }
+  const usage = trackUsage("image", provider, model);
+  const image = await withRetry(() => impl.editImage!({ model, imageDataUrl: base.imageUrl, instruction, aspectRatio, onUsage: usage.onUsage }), 2);
+  const record = usage.record({ imageCount: 1 });
+  return {
+    ...createVersion(image, base.prompt, record.model),
+    parentId: base.id,
+    editChain: [...(base.editChain || []), instruction],
+  };
+};
 
-  // Attempt 2: Imagen 3 (Fallback)
-  try {
-    const response = await withRetry<any>(() => ai.models.generateImages({
-        model: 'imagen-3.0-generate-001',
-        prompt: prompt,
-        config: {
-            numberOfImages: 1,
-            aspectRatio: aspectRatio,
-            outputMimeType: 'image/jpeg'
-        }
-    }), 2);
+/**
+ * Repaints only the white region of `maskDataUrl` following `prompt`. The
+ * provider's answer is composited back over the base, so pixels outside the
+ * mask are kept; the mask and prompt are stored on the new take.
+ */
+export const inpaintImageVersion = async (
+  base: ImageVersion,
+  maskDataUrl: string,
+  prompt: string,
+  aspectRatio: AspectRatio = "16:9"
+): Promise<ImageVersion> => {
+  const { provider, impl, model } = resolveImageProvider();
+  if (!impl.editImage) {
+    throw new Error(`Provider "${provider.label}" can't edit images. Please pick another image provider in Settings.`);
+  }
+  const usage = trackUsage("image", provider, model);
+  const patch = await withRetry(
+    () => impl.editImage!({ model, imageDataUrl: base.imageUrl, instruction: prompt, maskDataUrl, aspectRatio, onUsage: usage.onUsage }),
+    2
+  );
+  const image = await compositeMasked(base.imageUrl, patch, maskDataUrl);
+  const record = usage.record({ imageCount: 1 });
+  return {
+    ...createVersion(image, base.prompt, record.model),
+    parentId: base.id,
+    editChain: [...(base.editChain || []), `局部重绘：${prompt}`],
+    inpaint: { maskUrl: maskDataUrl, prompt },
+  };
+};
 
-    const base64 = response.generatedImages?.[0]?.image?.imageBytes;
-    if (base64) {
-        return `data:image/jpeg;base64,${base64}`;
-    }
-  } catch (error) {
-     console.warn("Imagen 3 fallback failed:", error);
+export type ReframeMode = "outpaint" | "recompose";
+
+/**
+ * Adapts a finished take to another aspect ratio.
+ * - "outpaint" keeps every original pixel and has the model extend the margins.
+ * - "recompose" redraws the shot for the new frame with the original as reference.
+ */
+export const reframeImageVersion = async (
+  base: ImageVersion,
+  aspectRatio: AspectRatio,
+  mode: ReframeMode
+): Promise<ImageVersion> => {
+  if (mode === "recompose") {
+    const prompt = `${base.prompt}\n[Reframe] Recompose this exact shot for a ${aspectRatio} frame. Keep the same characters, action, lighting and style; only adapt the framing.`;
+    const reference = { dataUrl: base.imageUrl, label: "The approved shot to reframe. Match it as closely as the new frame allows." };
+    const [version] = await generateImageCandidates(prompt, aspectRatio, [reference], 1);
+    if (!version) throw new Error("The image provider returned no image.");
+    return { ...version, prompt: base.prompt, parentId: base.id };
   }
 
-  throw lastError || new Error("Image generation failed. Please check your API Key.");
+  const { imageDataUrl, maskDataUrl } = await padToAspectRatio(base.imageUrl, getFormatRatio(aspectRatio));
+  const padded = { ...base, imageUrl: imageDataUrl };
+  const instruction = "Extend the scene naturally into the white region, continuing the background, lighting and perspective. Do not add new characters.";
+  const version = await inpaintImageVersion(padded, maskDataUrl, instruction, aspectRatio);
+  return { ...version, parentId: base.id, editChain: base.editChain, inpaint: undefined };
 };
 
 /**
  * Analyzes a raw script (Chinese enforced).
+ * `previousPanels` are the closing panels of the preceding chunk, given as
+ * continuity context when a long script is analyzed in parts.
  */
-export const analyzeScript = async (scriptText: string, availableCharacters: Character[]): Promise<ScriptPanel[]> => {
-  const ai = getAI();
+export const analyzeScript = async (scriptText: string, availableCharacters: Character[], previousPanels: ScriptPanel[] = []): Promise<ScriptPanel[]> => {
   const charNames = (availableCharacters || []).map(c => c.name).join(", ");
+  const continuity = previousPanels.length > 0 ? `
+    This script continues directly from earlier panels. The last panels so far were:
+    ${previousPanels.map(p => `#${p.panelNumber} [${p.cameraAngle}] ${p.description}${p.dialogue ? ` / "${p.dialogue.replace(/\n/g, " ")}"` : ""}`).join("\n    ")}
+    Keep continuity with them (locations, costumes, lighting) but DO NOT repeat them. Start panel_id at 1 for this part.
+  ` : "";
 
   // Stronger prompt to ensure description is generated
   const prompt = `
@@ -215,43 +357,31 @@ export const analyzeScript = async (scriptText: string, availableCharacters: Cha
     **OUTPUT LANGUAGE REQUIREMENT: SIMPLIFIED CHINESE (简体中文)**.
     
     Available Characters: ${charNames}.
-    
+    ${continuity}
     Output JSON Array with these exact keys:
     - panel_id (integer)
     - visual_action (String. **REQUIRED**. Detailed Visual Instruction.)
     - characters_in_shot (Array of Strings. Names from available list.)
-    - dialogue_text (String. Original text.)
+    - dialogue_lines (Array, in spoken order; empty if nobody speaks. Put every line of a back-and-forth exchange shown in this panel here, one entry per line. Each entry:
+        - speaker (String. Exact name from the available list; "" for narration)
+        - line_type ("dialogue" spoken on screen | "monologue" inner thoughts | "narration" narrator | "offscreen" voice from someone not visible)
+        - text (String. Original text of that line only, without the speaker name.)
+        - emotion (String. One or two words, e.g. "平静", "愤怒", "犹豫")
+        - intensity (Integer 1-5. How strongly the emotion shows, from restrained to overwhelming)
+        - rate ("slow" | "normal" | "fast")
+        - volume ("whisper" | "normal" | "shout")
+        - acting_note (String. Short direction for the voice actor, e.g. "强忍泪水", "咬牙切齿地". "" if none)
+      )
+      Infer the delivery from the panel's visual_action and the surrounding drama, not only the words of the line.
     - shot_type (String. E.g., "特写 (Close-up)", "中景 (Medium)", "广角 (Wide)", "荷兰角 (Dutch Angle)")
 
-    Script:
-    ${scriptText}
+    ${formatSourceText(scriptText)}
   `;
 
-  const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            panel_id: { type: Type.INTEGER },
-            visual_action: { type: Type.STRING },
-            characters_in_shot: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING } 
-            },
-            dialogue_text: { type: Type.STRING },
-            shot_type: { type: Type.STRING },
-          }
-        }
-      }
-    }
-  }));
-
-  const text = response.text;
+  const { provider, impl, model } = resolveTextProvider();
+  const usage = trackUsage("text", provider, model);
+  const text = await withRetry(() => impl.generateJson({ model, prompt, schema: PANEL_LIST_SCHEMA, task: "analyzeScript", onUsage: usage.onUsage }));
+  usage.record();
   if (!text) throw new Error("Failed to analyze script");
   
   try {
@@ -260,8 +390,8 @@ export const analyzeScript = async (scriptText: string, availableCharacters: Cha
       return result.map((p: any) => {
         // Fallback Logic: If AI fails to give a description, infer it from dialogue
         let desc = typeof p.visual_action === 'string' ? p.visual_action : "";
-        const dialogue = typeof p.dialogue_text === 'string' ? p.dialogue_text : "";
         const chars = Array.isArray(p.characters_in_shot) ? p.characters_in_shot : [];
+        const { lines, dialogue } = withDialogueLines(parseDialogueLines(p.dialogue_lines));
         
         if (!desc || desc.trim().length === 0 || desc === "No description generated.") {
             if (dialogue) {
@@ -275,7 +405,8 @@ export const analyzeScript = async (scriptText: string, availableCharacters: Cha
             panelNumber: typeof p.panel_id === 'number' ? p.panel_id : 0,
             description: desc,
             charactersPresent: chars,
-            dialogue: dialogue,
+            dialogue,
+            lines,
             cameraAngle: typeof p.shot_type === 'string' ? p.shot_type : "Medium Shot",
         };
       }) as ScriptPanel[];
@@ -283,15 +414,77 @@ export const analyzeScript = async (scriptText: string, availableCharacters: Cha
     return [];
   } catch (e) {
     console.error("JSON parse error", e);
-    throw new Error("Invalid JSON response from AI");
+    throw new AIError("malformed", "Invalid JSON response from AI", { cause: e });
+  }
+};
+
+// "林晓 (Lin Xiao)" and "林晓" are the same character
+const normalizeEntityName = (name?: string) => (name || "").replace(/[（(][^）)]*[）)]/g, "").replace(/\s+/g, "").toLowerCase();
+
+// Keeps the first occurrence of each name, filling in fields it left blank from later ones
+const mergeEntities = <T extends { name?: string; description?: string; visualPrompt?: string }>(existing: T[], incoming: T[]): T[] => {
+  const merged = [...existing];
+  incoming.forEach(entity => {
+    const key = normalizeEntityName(entity.name);
+    if (!key) return;
+    const index = merged.findIndex(e => normalizeEntityName(e.name) === key);
+    if (index < 0) {
+      merged.push(entity);
+    } else {
+      const current = merged[index];
+      merged[index] = {
+        ...current,
+        description: current.description || entity.description,
+        visualPrompt: current.visualPrompt || entity.visualPrompt,
+      };
+    }
+  });
+  return merged;
+};
+
+/**
+ * Runs extractWorldInfo over script chunks in sequence, carrying the cast
+ * found so far into each call and deduplicating the combined result.
+ */
+export const extractWorldInfoInChunks = async (
+  chunks: string[],
+  onProgress?: ChunkProgressCallback
+): Promise<{ characters: Partial<Character>[], scenes: Partial<Scene>[] }> => {
+  let characters: Partial<Character>[] = [];
+  let scenes: Partial<Scene>[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    onProgress?.(i, chunks.length);
+    const result = await extractWorldInfo(chunks[i], characters, scenes);
+    characters = mergeEntities(characters, result.characters);
+    scenes = mergeEntities(scenes, result.scenes);
+  }
+  return { characters, scenes };
+};
+
+/**
+ * Runs analyzeScript over script chunks in sequence. Each call sees the last
+ * panels of the previous chunk; the combined panels are numbered continuously.
+ */
+export const analyzeScriptInChunks = async (
+  chunks: string[],
+  availableCharacters: Character[],
+  onProgress?: ChunkProgressCallback
+): Promise<ScriptPanel[]> => {
+  const panels: ScriptPanel[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    onProgress?.(i, chunks.length);
+    const previous = panels.slice(-CONTINUITY_PANEL_COUNT);
+    const chunkPanels = await analyzeScript(chunks[i], availableCharacters, previous);
+    chunkPanels.forEach(p => panels.push({ ...p, panelNumber: panels.length + 1 }));
   }
+  return panels;
 };
 
 /**
  * Constructs prompt for Character Concept Sheet.
  * STRICTLY ENFORCES "Model Sheet" Layout: Front/Side/Back + Grid.
  */
-export const constructCharacterPrompt = (char: Partial<Character>): string => {
+export const constructCharacterPrompt = (char: Partial<Character>, style: StyleGuide = DEFAULT_STYLE_GUIDE): string => {
   return `
 [Art Type] **Production Character Model Sheet (Settei)**.
 [Subject] Name: ${char.name}.
@@ -302,34 +495,81 @@ export const constructCharacterPrompt = (char: Partial<Character>): string => {
 3. **Right**: Full body (Back View).
 4. **Inserts**: Include 2 close-up sketches of facial expressions (Eyes/Face) and 1 detail of clothing/accessory in the corners.
 [Background] White/Light Grey background with technical measurement grid lines.
-[Style] Professional Anime Character Design, Flat colors, Clean lines, Reference Art, High Quality 4k.
+[Style] Professional Character Design, ${formatStyle(style)}, Reference Art, High Quality 4k.${formatNegativeTerms(style)}
   `.trim();
 };
 
 /**
  * Constructs prompt for scene panorama.
  */
-export const constructScenePrompt = (scene: Partial<Scene>): string => {
+export const constructScenePrompt = (scene: Partial<Scene>, style: StyleGuide = DEFAULT_STYLE_GUIDE): string => {
   return `
     [Type] Wide-angle Concept Art.
     [Location] ${scene.name}.
     [Visuals] ${scene.visualPrompt}.
-    [Quality] Masterpiece, Cinematic Lighting, 8k, Makoto Shinkai Style.
-    [Style] Anime Background Art.
-    No characters.
+    [Quality] Masterpiece, 8k.
+    [Style] Background Art, ${formatStyle(style)}.
+    No characters.${formatNegativeTerms(style)}
   `.trim();
 };
 
-export const constructSceneGridPrompt = (scene: Partial<Scene>): string => {
+export const constructSceneGridPrompt = (scene: Partial<Scene>, style: StyleGuide = DEFAULT_STYLE_GUIDE): string => {
   return `
     [Type] 9-Panel Grid Concept Sheet.
     [Subject] Details of ${scene.name}.
     [Visuals] ${scene.visualPrompt}.
     [Content] Close-ups of props, textures, lighting, corners.
-    [Style] Technical concept art.
+    [Style] Technical concept art, ${formatStyle(style)}.${formatNegativeTerms(style)}
   `.trim();
 };
 
+/**
+ * Fuzzy-matches a panel's character name against the cast.
+ */
+export const findCharacterByName = (characters: Character[], charName: string): Character | undefined =>
+  characters.find(c => c.name === charName || charName.includes(c.name) || c.name.includes(charName));
+
+export interface PanelReference extends ReferenceImage {
+  sourceId: string; // Character or scene id
+  kind: 'character' | 'scene';
+}
+
+/**
+ * Collects the approved model sheets of the characters present and the
+ * panorama of the assigned scene, as candidate references for a panel.
+ */
+export const collectPanelReferences = (
+  panel: ScriptPanel,
+  characters: Character[],
+  scene?: Scene
+): PanelReference[] => {
+  const refs: PanelReference[] = [];
+  const seen = new Set<string>();
+
+  (Array.isArray(panel.charactersPresent) ? panel.charactersPresent : []).forEach(charName => {
+    const charObj = findCharacterByName(characters, charName);
+    if (!charObj?.imageUrl || seen.has(charObj.id)) return;
+    seen.add(charObj.id);
+    refs.push({
+      sourceId: charObj.id,
+      kind: 'character',
+      label: `Character model sheet of "${charObj.name}" (front/side/back views). Keep face, hair and costume identical.`,
+      dataUrl: charObj.imageUrl,
+    });
+  });
+
+  if (scene?.imageUrl) {
+    refs.push({
+      sourceId: scene.id,
+      kind: 'scene',
+      label: `Environment panorama of "${scene.name}". Keep architecture, props and lighting consistent.`,
+      dataUrl: scene.imageUrl,
+    });
+  }
+
+  return refs;
+};
+
 /**
  * Constructs the final prompt for a panel.
  * Prioritizes ACTION and COMPOSITION over generic description.
@@ -337,9 +577,10 @@ export const constructSceneGridPrompt = (scene: Partial<Scene>): string => {
 export const constructPanelPrompt = (
   panel: ScriptPanel, 
   characters: Character[], 
-  scene?: Scene
+  scene?: Scene,
+  style: StyleGuide = DEFAULT_STYLE_GUIDE
 ): string => {
-  let prompt = `(Anime Style Masterpiece, 8k Resolution, Cinematic Composition). `;
+  let prompt = `(${formatStyle(style)}, Masterpiece, 8k Resolution, Cinematic Composition). `;
 
   // 1. ACTION & CAMERA (Highest Priority)
   prompt += `\n[ACTION & SHOT] **${panel.cameraAngle}**. ${panel.description}. `;
@@ -357,104 +598,111 @@ export const constructPanelPrompt = (
   if (safeCharactersPresent.length > 0) {
       prompt += `\n[CHARACTERS]:`;
       safeCharactersPresent.forEach(charName => {
-         // Fuzzy match character
-         const charObj = characters.find(c => c.name === charName || charName.includes(c.name) || c.name.includes(charName));
+         const charObj = findCharacterByName(characters, charName);
          if (charObj) {
              // Inject the Character's "DNA"
              prompt += `\n- (${charName}): ${charObj.visualPrompt}`;
          } else {
-             prompt += `\n- (${charName}): Generic anime character.`;
+             prompt += `\n- (${charName}): Generic character.`;
          }
       });
   }
 
+  prompt += formatNegativeTerms(style);
+
   return prompt;
 };
 
 /**
- * Generates speech from text.
+ * Casts a prebuilt voice for each character from its description.
  */
-export const generateSpeech = async (text: string, voiceName: string = 'Kore'): Promise<string> => {
-  const ai = getAI();
-  
-  const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: text }] }],
-    config: {
-      responseModalities: ['AUDIO'], // Use string literal to ensure correct enum mapping
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: voiceName },
-        },
-      },
-    },
-  }), 2);
+export const suggestVoices = async (characters: Character[]): Promise<VoiceSuggestion[]> => {
+  const cast = characters.map(c => `- ${c.name}: ${c.description} ${c.visualPrompt}`).join("\n");
+  const prompt = `
+    Role: Voice casting director for an animated drama.
+    Task: Pick the best-fitting TTS voice for each character below.
+    Consider gender, age, personality and the character's role in the story. Characters who talk to each other should sound clearly different.
 
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) throw new Error("AI did not return audio data.");
+    Voice catalog (id, gender, quality):
+    ${VOICE_CATALOG.map(v => `${v.id} (${v.gender}, ${v.trait})`).join("\n    ")}
 
-  // Convert raw PCM to WAV for browser playback
-  return pcmBase64ToWavUrl(base64Audio);
-};
+    Output JSON Array with these exact keys:
+    - character_name (String. Exactly as given.)
+    - voice (String. One id from the catalog.)
+    - reason (String. One short sentence in SIMPLIFIED CHINESE (简体中文).)
+
+    ${formatSourceText(cast)}
+  `;
 
-// --- Audio Utilities ---
+  const { provider, impl, model } = resolveTextProvider();
+  const usage = trackUsage("text", provider, model);
+  const text = await withRetry(() => impl.generateJson({ model, prompt, schema: VOICE_SUGGESTION_SCHEMA, task: "suggestVoices", onUsage: usage.onUsage }));
+  usage.record();
 
-function pcmBase64ToWavUrl(base64Pcm: string): string {
-  const binaryString = atob(base64Pcm);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+  try {
+    const result = JSON.parse(text);
+    if (!Array.isArray(result)) return [];
+    return result.flatMap((s: any): VoiceSuggestion[] => {
+      const key = normalizeEntityName(s?.character_name);
+      const character = characters.find(c => normalizeEntityName(c.name) === key);
+      if (!character || !isKnownVoice(s.voice)) return [];
+      return [{ characterId: character.id, voiceName: s.voice, reason: typeof s.reason === "string" ? s.reason : "" }];
+    });
+  } catch (e) {
+    console.error("JSON parse error", e);
+    throw new AIError("malformed", "Invalid JSON response from AI", { cause: e });
   }
+};
 
-  // Gemini TTS output is typically 24kHz, 1 channel (mono), 16-bit PCM
-  const sampleRate = 24000;
-  const numChannels = 1;
-  const bitsPerSample = 16;
-  
-  const wavBytes = createWavHeader(bytes, sampleRate, numChannels, bitsPerSample);
-  const blob = new Blob([wavBytes], { type: 'audio/wav' });
-  return URL.createObjectURL(blob);
-}
+/**
+ * Generates speech from text, using the provider chosen in Settings.
+ */
+export const generateSpeech = async (text: string, voiceName: string = 'Kore', style?: string): Promise<string> => {
+  const { provider, impl, model } = resolveSpeechProvider();
+  const usage = trackUsage("speech", provider, model);
+  const audioUrl = await withRetry(() => impl.generateSpeech({ model, text, voiceName, style, onUsage: usage.onUsage }), 2);
+  usage.record({ audioSeconds: await getAudioDuration(audioUrl).catch(() => 0) });
+  return audioUrl;
+};
 
-function createWavHeader(pcmData: Uint8Array, sampleRate: number, numChannels: number, bitsPerSample: number): Uint8Array {
-    const header = new ArrayBuffer(44);
-    const view = new DataView(header);
-    const pcmLength = pcmData.length;
-    const dataSize = pcmLength;
-    const fileSize = 36 + dataSize;
-    const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
-    const blockAlign = numChannels * (bitsPerSample / 8);
-
-    // RIFF chunk descriptor
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, fileSize, true);
-    writeString(view, 8, 'WAVE');
-
-    // fmt sub-chunk
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-    view.setUint16(20, 1, true);  // AudioFormat (1 for PCM)
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, byteRate, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitsPerSample, true);
-
-    // data sub-chunk
-    writeString(view, 36, 'data');
-    view.setUint32(40, dataSize, true);
-
-    // Combine header and data
-    const wavFile = new Uint8Array(header.byteLength + pcmLength);
-    wavFile.set(new Uint8Array(header), 0);
-    wavFile.set(pcmData, 44);
-
-    return wavFile;
+export interface VoicedLine {
+  speaker: string; // Lines with the same speaker share one voice
+  text: string;
+  voiceName: string;
+  style?: string; // Delivery instructions, see formatDirection
 }
 
-function writeString(view: DataView, offset: number, string: string) {
-    for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-    }
-}
\ No newline at end of file
+// Gemini multi-speaker TTS takes exactly two voices
+const MULTI_SPEAKER_COUNT = 2;
+
+/**
+ * Voices a panel's lines as one clip. A two-person exchange is rendered in a
+ * single multi-speaker call when the provider supports it, so the delivery
+ * flows naturally; otherwise each line is voiced on its own and joined.
+ */
+export const generateDialogueSpeech = async (lines: VoicedLine[]): Promise<string> => {
+  if (lines.length === 0) throw new Error("No dialogue to voice");
+  if (lines.length === 1) return generateSpeech(lines[0].text, lines[0].voiceName, lines[0].style);
+
+  const voices: Record<string, string> = {};
+  lines.forEach(line => {
+    if (!(line.speaker in voices)) voices[line.speaker] = line.voiceName;
+  });
+
+  const { provider, impl, model } = resolveSpeechProvider();
+  if (Object.keys(voices).length === MULTI_SPEAKER_COUNT && impl.generateDialogue) {
+    const turns = lines.map(({ speaker, text, style }) => ({ speaker, text, style }));
+    const usage = trackUsage("speech", provider, model);
+    const audioUrl = await withRetry(() => impl.generateDialogue!({ model, turns, voices, onUsage: usage.onUsage }), 2);
+    usage.record({ audioSeconds: await getAudioDuration(audioUrl).catch(() => 0) });
+    return audioUrl;
+  }
+
+  const clips: string[] = [];
+  try {
+    for (const line of lines) clips.push(await generateSpeech(line.text, line.voiceName, line.style));
+    return await concatAudioUrls(clips);
+  } finally {
+    clips.forEach(url => URL.revokeObjectURL(url));
+  }
+};
@@ -0,0 +1,92 @@
+import { ImageHistory, ImageVersion } from "../types";
+
+// --- Image Version History ---
+// Pure helpers over ImageHistory. Owners (frames, characters, scenes) keep
+// their plain URL field pointing at the active take so every other consumer
+// keeps working unchanged.
+
+export const UPLOAD_MODEL = "upload";
+// Fixed so wrapping the same legacy image twice yields the same take
+const LEGACY_VERSION_ID = "legacy";
+
+export const createVersion = (imageUrl: string, prompt: string, model: string): ImageVersion => ({
+  id: crypto.randomUUID(),
+  imageUrl,
+  prompt,
+  model,
+  createdAt: Date.now(),
+});
+
+/**
+ * Images made before history existed have a URL but no versions. Wrap such
+ * an image as the first take so the next generation doesn't drop it.
+ */
+export const withLegacyImage = (history: ImageHistory | undefined, currentUrl: string | undefined, prompt: string): ImageHistory => {
+  if (history && history.versions.length > 0) return history;
+  if (!currentUrl) return { versions: [] };
+  const legacy = { ...createVersion(currentUrl, prompt, ""), id: LEGACY_VERSION_ID, createdAt: 0 };
+  return { versions: [legacy], activeId: legacy.id };
+};
+
+/**
+ * Appends takes and makes `activeId` the active one.
+ */
+export const addVersions = (
+  history: ImageHistory | undefined,
+  versions: ImageVersion[],
+  activeId: string,
+  currentUrl?: string,
+  currentPrompt: string = ""
+): ImageHistory => {
+  const base = withLegacyImage(history, currentUrl, currentPrompt);
+  return { versions: [...base.versions, ...versions], activeId };
+};
+
+/**
+ * Appends a take and makes it the active one.
+ */
+export const addVersion = (
+  history: ImageHistory | undefined,
+  version: ImageVersion,
+  currentUrl?: string,
+  currentPrompt: string = ""
+): ImageHistory => addVersions(history, [version], version.id, currentUrl, currentPrompt);
+
+/**
+ * Adds the chosen candidate as the active take. The others are appended
+ * before it when kept, so the winner stays the newest take.
+ */
+export const pickCandidate = (
+  history: ImageHistory | undefined,
+  candidates: ImageVersion[],
+  chosenId: string,
+  keepOthers: boolean,
+  currentUrl?: string,
+  currentPrompt: string = ""
+): ImageHistory => {
+  const chosen = candidates.find(c => c.id === chosenId);
+  if (!chosen) return withLegacyImage(history, currentUrl, currentPrompt);
+  const others = keepOthers ? candidates.filter(c => c.id !== chosenId) : [];
+  return addVersions(history, [...others, chosen], chosen.id, currentUrl, currentPrompt);
+};
+
+export const setActiveVersion = (history: ImageHistory, versionId: string): ImageHistory =>
+  history.versions.some(v => v.id === versionId) ? { ...history, activeId: versionId } : history;
+
+/**
+ * Removes a take. Deleting the active take activates the newest remaining one.
+ */
+export const removeVersion = (history: ImageHistory, versionId: string): ImageHistory => {
+  const versions = history.versions.filter(v => v.id !== versionId);
+  const activeId = history.activeId === versionId ? versions[versions.length - 1]?.id : history.activeId;
+  return { versions, activeId };
+};
+
+export const getActiveVersion = (history?: ImageHistory): ImageVersion | undefined =>
+  history?.versions.find(v => v.id === history.activeId);
+
+/**
+ * The take an edit starts from: the active one, or the legacy image.
+ */
+export const getEditBase = (history: ImageHistory | undefined, currentUrl: string | undefined, prompt: string): ImageVersion | undefined =>
+  getActiveVersion(withLegacyImage(history, currentUrl, prompt));
@@ -0,0 +1,135 @@
+// --- Image Utilities ---
+
+/**
+ * Splits a data URL into its MIME type and base64 payload.
+ */
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } | null => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) return null;
+  return { mimeType: match[1], data: match[2] };
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
+
+/**
+ * Draws a black/white mask at the given size into a canvas whose alpha
+ * follows the mask: opaque where the mask is white (or black when inverted).
+ */
+export const createMaskCanvas = async (
+  maskUrl: string,
+  width: number,
+  height: number,
+  options: { invert?: boolean; featherPx?: number } = {}
+): Promise<HTMLCanvasElement> => {
+  const mask = await loadImage(maskUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+
+  if (options.featherPx) ctx.filter = `blur(${options.featherPx}px)`;
+  ctx.drawImage(mask, 0, 0, width, height);
+  ctx.filter = "none";
+
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const data = pixels.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = data[i];
+    data[i] = data[i + 1] = data[i + 2] = 255;
+    data[i + 3] = options.invert ? 255 - luminance : luminance;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
+
+/**
+ * Pastes `patchUrl` over `baseUrl` only where the mask is white, with a soft
+ * edge, so everything outside the painted region stays exactly as it was.
+ */
+export const compositeMasked = async (baseUrl: string, patchUrl: string, maskUrl: string, featherPx = 4): Promise<string> => {
+  const [base, patch] = await Promise.all([loadImage(baseUrl), loadImage(patchUrl)]);
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+
+  const patchCanvas = document.createElement("canvas");
+  patchCanvas.width = width;
+  patchCanvas.height = height;
+  const patchCtx = patchCanvas.getContext("2d");
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!patchCtx || !ctx) throw new Error("Canvas is not available.");
+
+  // The model may answer at a different resolution; stretch it onto the original
+  patchCtx.drawImage(patch, 0, 0, width, height);
+  patchCtx.globalCompositeOperation = "destination-in";
+  patchCtx.drawImage(await createMaskCanvas(maskUrl, width, height, { featherPx }), 0, 0);
+
+  ctx.drawImage(base, 0, 0);
+  ctx.drawImage(patchCanvas, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+/**
+ * Places an image on a larger canvas of the given width/height ratio, for
+ * outpainting. The new margins are pre-filled with a blurred stretch of the
+ * image and marked white in the returned mask; the mask overlaps the image
+ * edge by `overlapPx` so the seam gets repainted too.
+ */
+export const padToAspectRatio = async (
+  imageUrl: string,
+  ratio: number,
+  overlapPx = 16
+): Promise<{ imageDataUrl: string; maskDataUrl: string }> => {
+  const img = await loadImage(imageUrl);
+  const srcW = img.naturalWidth;
+  const srcH = img.naturalHeight;
+  const width = srcW / srcH < ratio ? Math.round(srcH * ratio) : srcW;
+  const height = srcW / srcH < ratio ? srcH : Math.round(srcW / ratio);
+  const x = Math.round((width - srcW) / 2);
+  const y = Math.round((height - srcH) / 2);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const mask = document.createElement("canvas");
+  mask.width = width;
+  mask.height = height;
+  const ctx = canvas.getContext("2d");
+  const maskCtx = mask.getContext("2d");
+  if (!ctx || !maskCtx) throw new Error("Canvas is not available.");
+
+  ctx.filter = "blur(24px)";
+  ctx.drawImage(img, 0, 0, width, height);
+  ctx.filter = "none";
+  ctx.drawImage(img, x, y);
+
+  maskCtx.fillStyle = "#fff";
+  maskCtx.fillRect(0, 0, width, height);
+  // Keep the original except a thin seam, unless there is nothing to extend on that side
+  const insetX = x > 0 ? overlapPx : 0;
+  const insetY = y > 0 ? overlapPx : 0;
+  maskCtx.fillStyle = "#000";
+  maskCtx.fillRect(x + insetX, y + insetY, srcW - insetX * 2, srcH - insetY * 2);
+
+  return { imageDataUrl: canvas.toDataURL("image/png"), maskDataUrl: mask.toDataURL("image/png") };
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) throw new Error("Not a base64 data URL");
+  const binary = atob(parsed.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: parsed.mimeType });
+};
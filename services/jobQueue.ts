@@ -0,0 +1,200 @@
+import { useSyncExternalStore } from "react";
+import { describeError } from "./aiErrors";
+
+// --- Generation Job Queue ---
+// One app-wide queue for image and TTS jobs. It lives outside React so jobs
+// keep running when the tab that queued them unmounts; results are written
+// back through the App-level state setters captured in each job's callbacks.
+
+export type JobKind = "image" | "speech";
+export type JobStatus = "queued" | "running" | "paused" | "done" | "error" | "cancelled";
+
+export interface GenerationJob {
+  id: string;
+  kind: JobKind;
+  label: string;
+  targetId?: string; // Character, scene or frame the job writes to
+  batchId?: string;
+  batchLabel?: string;
+  status: JobStatus;
+  error?: string; // User-facing reason and suggested fix
+  createdAt: number;
+}
+
+export interface JobSpec<T = any> {
+  kind: JobKind;
+  label: string;
+  targetId?: string;
+  task: () => Promise<T>;
+  onStart?: () => void;
+  onSuccess?: (result: T) => void;
+  onError?: (error: unknown) => void;
+  // A running job was paused or cancelled; undo whatever onStart marked
+  onStop?: () => void;
+}
+
+interface JobEntry extends GenerationJob {
+  spec: JobSpec;
+  // Bumped whenever a running attempt is abandoned, so its late result is ignored
+  attempt: number;
+}
+
+const CONCURRENCY_KEY = "huanxi_job_concurrency";
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 6;
+
+let jobs: JobEntry[] = [];
+let snapshot: GenerationJob[] = [];
+let concurrency = Number(localStorage.getItem(CONCURRENCY_KEY)) || DEFAULT_CONCURRENCY;
+const listeners = new Set<() => void>();
+
+const emit = () => {
+  snapshot = jobs.map(({ spec, attempt, ...job }) => job);
+  listeners.forEach(l => l());
+};
+
+const update = (id: string, changes: Partial<JobEntry>) => {
+  jobs = jobs.map(j => j.id === id ? { ...j, ...changes } : j);
+};
+
+const runJob = async (job: JobEntry) => {
+  const attempt = job.attempt;
+  update(job.id, { status: "running", error: undefined });
+  emit();
+  job.spec.onStart?.();
+
+  // Abandoned attempts (paused/cancelled while running) must not touch state
+  const isCurrent = () => jobs.find(j => j.id === job.id)?.attempt === attempt;
+
+  try {
+    const result = await job.spec.task();
+    if (!isCurrent()) return;
+    update(job.id, { status: "done" });
+    job.spec.onSuccess?.(result);
+  } catch (e: any) {
+    if (!isCurrent()) return;
+    console.error(`[Queue] ${job.label} failed`, e);
+    const { title, suggestion } = describeError(e);
+    update(job.id, { status: "error", error: `${title}：${suggestion}` });
+    job.spec.onError?.(e);
+  } finally {
+    if (isCurrent()) {
+      emit();
+      pump();
+    }
+  }
+};
+
+// Starts queued jobs until the concurrency limit is reached
+const pump = () => {
+  let running = jobs.filter(j => j.status === "running").length;
+  for (const job of jobs) {
+    if (running >= concurrency) break;
+    if (job.status !== "queued") continue;
+    running++;
+    runJob(job);
+  }
+};
+
+const createEntry = (spec: JobSpec, batchId?: string, batchLabel?: string): JobEntry => ({
+  id: crypto.randomUUID(),
+  kind: spec.kind,
+  label: spec.label,
+  targetId: spec.targetId,
+  batchId,
+  batchLabel,
+  status: "queued",
+  createdAt: Date.now(),
+  spec,
+  attempt: 0,
+});
+
+/**
+ * Queues a single job and returns its id.
+ */
+export const enqueueJob = <T>(spec: JobSpec<T>): string => {
+  const entry = createEntry(spec);
+  jobs = [...jobs, entry];
+  emit();
+  pump();
+  return entry.id;
+};
+
+/**
+ * Queues several jobs as one batch that can be paused or cancelled together.
+ */
+export const enqueueBatch = (label: string, specs: JobSpec[]): string => {
+  const batchId = crypto.randomUUID();
+  jobs = [...jobs, ...specs.map(spec => createEntry(spec, batchId, label))];
+  emit();
+  pump();
+  return batchId;
+};
+
+// Running jobs can't be suspended mid-request: they're abandoned and rerun on resume
+const stopJobs = (match: (j: JobEntry) => boolean, status: "paused" | "cancelled") => {
+  const stopped: JobEntry[] = [];
+  jobs = jobs.map(j => {
+    if (!match(j)) return j;
+    const stoppable = j.status === "queued" || j.status === "running" || (status === "cancelled" && j.status === "paused");
+    if (!stoppable) return j;
+    if (j.status === "running") stopped.push(j);
+    return { ...j, status, attempt: j.attempt + 1 };
+  });
+  stopped.forEach(j => j.spec.onStop?.());
+  emit();
+  pump();
+};
+
+const requeue = (match: (j: JobEntry) => boolean, from: JobStatus[]) => {
+  jobs = jobs.map(j => match(j) && from.includes(j.status) ? { ...j, status: "queued", error: undefined } : j);
+  emit();
+  pump();
+};
+
+export const pauseJob = (id: string) => stopJobs(j => j.id === id, "paused");
+export const cancelJob = (id: string) => stopJobs(j => j.id === id, "cancelled");
+export const resumeJob = (id: string) => requeue(j => j.id === id, ["paused"]);
+export const retryJob = (id: string) => requeue(j => j.id === id, ["error", "cancelled"]);
+
+export const pauseBatch = (batchId: string) => stopJobs(j => j.batchId === batchId, "paused");
+export const cancelBatch = (batchId: string) => stopJobs(j => j.batchId === batchId, "cancelled");
+export const resumeBatch = (batchId: string) => requeue(j => j.batchId === batchId, ["paused"]);
+
+export const pauseAllJobs = () => stopJobs(() => true, "paused");
+export const resumeAllJobs = () => requeue(() => true, ["paused"]);
+export const cancelAllJobs = () => stopJobs(() => true, "cancelled");
+
+/**
+ * Removes finished, failed and cancelled jobs from the list.
+ */
+export const clearFinishedJobs = () => {
+  jobs = jobs.filter(j => j.status === "queued" || j.status === "running" || j.status === "paused");
+  emit();
+};
+
+export const getConcurrency = () => concurrency;
+
+export const setConcurrency = (value: number) => {
+  concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value)));
+  localStorage.setItem(CONCURRENCY_KEY, String(concurrency));
+  emit();
+  pump();
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Live list of queued, running and finished jobs.
+ */
+export const useJobQueue = (): GenerationJob[] => useSyncExternalStore(subscribe, () => snapshot);
+
+/**
+ * Whether a target (character, scene, frame) has a job waiting or running,
+ * optionally only counting jobs of one kind.
+ */
+export const isTargetBusy = (jobList: GenerationJob[], targetId: string, kind?: JobKind) =>
+  jobList.some(j => j.targetId === targetId && (!kind || j.kind === kind) && (j.status === "queued" || j.status === "running"));
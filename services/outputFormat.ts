@@ -0,0 +1,87 @@
+import { OutputFormat } from "../types";
+import { loadImage } from "./imageUtils";
+
+// --- Project Output Format ---
+// The frame shape of the finished video. Panel generation, previews and
+// exports all follow it; character sheets keep their own horizontal layout.
+
+export interface OutputFormatOption {
+  id: OutputFormat;
+  label: string;
+  width: number;  // Ratio terms, e.g. 9 and 16
+  height: number;
+}
+
+export const OUTPUT_FORMATS: OutputFormatOption[] = [
+  { id: "16:9", label: "横屏 16:9", width: 16, height: 9 },
+  { id: "9:16", label: "竖屏 9:16", width: 9, height: 16 },
+  { id: "1:1", label: "方形 1:1", width: 1, height: 1 },
+  { id: "4:3", label: "横屏 4:3", width: 4, height: 3 },
+  { id: "3:4", label: "竖屏 3:4", width: 3, height: 4 },
+];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = "16:9";
+
+// Generators snap to their nearest supported size, so allow some slack
+const RATIO_TOLERANCE = 0.04;
+
+const getOption = (format: OutputFormat) => OUTPUT_FORMATS.find(f => f.id === format) || OUTPUT_FORMATS[0];
+
+export const normalizeOutputFormat = (raw: any): OutputFormat =>
+  OUTPUT_FORMATS.some(f => f.id === raw) ? raw : DEFAULT_OUTPUT_FORMAT;
+
+export const getFormatLabel = (format: OutputFormat) => getOption(format).label;
+
+/** Width divided by height. */
+export const getFormatRatio = (format: OutputFormat) => {
+  const { width, height } = getOption(format);
+  return width / height;
+};
+
+/** Value for the CSS `aspect-ratio` property, e.g. "9 / 16". */
+export const getCssAspectRatio = (format: OutputFormat) => {
+  const { width, height } = getOption(format);
+  return `${width} / ${height}`;
+};
+
+export const isPortraitFormat = (format: OutputFormat) => getFormatRatio(format) < 1;
+
+/**
+ * Pixel size for an export whose shorter side is `shortSide` (e.g. 720 for
+ * 720p), rounded to even numbers as video encoders expect.
+ */
+export const getExportSize = (format: OutputFormat, shortSide: number): { width: number; height: number } => {
+  const ratio = getFormatRatio(format);
+  const even = (n: number) => Math.round(n / 2) * 2;
+  return ratio >= 1
+    ? { width: even(shortSide * ratio), height: shortSide }
+    : { width: shortSide, height: even(shortSide / ratio) };
+};
+
+/** Whether an image of the given width/height ratio fits the format. */
+export const matchesFormat = (ratio: number, format: OutputFormat) =>
+  Math.abs(ratio / getFormatRatio(format) - 1) <= RATIO_TOLERANCE;
+
+// URLs are often multi-megabyte data URLs and every new take adds one, so
+// only the most recently measured images are remembered
+const RATIO_CACHE_SIZE = 100;
+const ratioCache = new Map<string, Promise<number>>();
+
+/**
+ * Width/height of an image, cached per URL since images never change in place.
+ */
+export const measureImageRatio = (url: string): Promise<number> => {
+  let ratio = ratioCache.get(url);
+  if (ratio) {
+    // Re-insert so the entry counts as recently used
+    ratioCache.delete(url);
+  } else {
+    ratio = loadImage(url).then(img => img.naturalWidth / img.naturalHeight);
+    ratio.catch(() => ratioCache.delete(url));
+  }
+  ratioCache.set(url, ratio);
+  if (ratioCache.size > RATIO_CACHE_SIZE) {
+    ratioCache.delete(ratioCache.keys().next().value!);
+  }
+  return ratio;
+};
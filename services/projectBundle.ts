@@ -0,0 +1,263 @@
+import JSZip from "jszip";
+import { AudioMix, Character, OutputFormat, Project, Scene, StoryboardFrame, StyleGuide, UsageRecord } from "../types";
+import { DEFAULT_STYLE_GUIDE } from "./styleGuide";
+import { DEFAULT_OUTPUT_FORMAT } from "./outputFormat";
+import { DEFAULT_NARRATOR_VOICE } from "./voices";
+import { DEFAULT_AUDIO_MIX } from "./audioMix";
+import { normalizeProject } from "./projectStore";
+
+// Bump when the manifest shape changes and add a migration below
+export const BUNDLE_SCHEMA_VERSION = 2;
+
+const MANIFEST_FILE = "manifest.json";
+// Manifest strings with this prefix point at a file inside the archive
+const ASSET_REF_PREFIX = "bundle:";
+
+export interface BundleManifest {
+  schemaVersion: number;
+  exportedAt: number;
+  project: {
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    script: string;
+    characters: Character[];
+    scenes: Scene[];
+    frames: StoryboardFrame[];
+    usage: UsageRecord[];
+    budget?: number;
+    styleGuide: StyleGuide;
+    outputFormat: OutputFormat;
+    narratorVoice: string;
+    mix: AudioMix;
+  };
+}
+
+/**
+ * Upgrades an older manifest step by step to the current schema.
+ * Each entry migrates from version N to N + 1.
+ */
+const MIGRATIONS: Record<number, (manifest: any) => any> = {
+  // v2: usage, budget, style guide, output format, narrator voice and audio mix
+  1: manifest => ({
+    ...manifest,
+    project: {
+      ...manifest.project,
+      usage: manifest.project?.usage ?? [],
+      styleGuide: manifest.project?.styleGuide ?? DEFAULT_STYLE_GUIDE,
+      outputFormat: manifest.project?.outputFormat ?? DEFAULT_OUTPUT_FORMAT,
+      narratorVoice: manifest.project?.narratorVoice ?? DEFAULT_NARRATOR_VOICE,
+      mix: manifest.project?.mix ?? DEFAULT_AUDIO_MIX,
+    },
+  }),
+};
+
+const migrateManifest = (manifest: any): BundleManifest => {
+  let version = typeof manifest.schemaVersion === "number" ? manifest.schemaVersion : 1;
+  if (version > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(`Bundle schema v${version} is newer than supported v${BUNDLE_SCHEMA_VERSION}. Please update the app.`);
+  }
+  let current = manifest;
+  while (version < BUNDLE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from bundle schema v${version}`);
+    current = migrate(current);
+    version++;
+  }
+  return { ...current, schemaVersion: BUNDLE_SCHEMA_VERSION };
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "audio/wav": "wav",
+  "audio/wave": "wav",
+  "audio/x-wav": "wav",
+  "audio/mpeg": "mp3",
+  "audio/ogg": "ogg",
+  "audio/webm": "webm",
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/aac": "aac",
+  "audio/flac": "flac",
+};
+
+const EXTENSION_MIMES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  webm: "audio/webm",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  flac: "audio/flac",
+};
+
+const isEmbeddedAsset = (value: string) => value.startsWith("data:") || value.startsWith("blob:");
+
+const sanitizeFileName = (name: string) => name.replace(/[^\w\-一-龥]+/g, "_").slice(0, 60);
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Packs a project into a .zip: manifest.json plus every image and audio clip
+ * as a real file under assets/.
+ */
+export const exportProjectBundle = async (project: Project): Promise<Blob> => {
+  const zip = new JSZip();
+  const assetPaths = new Map<string, string>(); // source URL -> archive path (dedupes shared images)
+  let assetCount = 0;
+
+  const addAsset = async (url: string, ownerId: string, key: string): Promise<string | undefined> => {
+    const existing = assetPaths.get(url);
+    if (existing) return existing;
+
+    let blob: Blob;
+    try {
+      blob = await fetch(url).then(r => r.blob());
+    } catch (e) {
+      console.warn(`Skipping unreadable asset ${key} of ${ownerId}`, e);
+      return undefined;
+    }
+    const ext = MIME_EXTENSIONS[blob.type] || "bin";
+    const path = `assets/${String(++assetCount).padStart(4, "0")}_${sanitizeFileName(ownerId)}_${key}.${ext}`;
+    zip.file(path, blob);
+    assetPaths.set(url, path);
+    return path;
+  };
+
+  // Walks records generically so newly added asset fields are bundled too
+  const extractAssets = async (value: any, ownerId: string, key: string): Promise<any> => {
+    if (typeof value === "string") {
+      if (!isEmbeddedAsset(value)) return value;
+      const path = await addAsset(value, ownerId, key);
+      return path ? `${ASSET_REF_PREFIX}${path}` : undefined;
+    }
+    if (Array.isArray(value)) {
+      const out = [];
+      for (let i = 0; i < value.length; i++) {
+        out.push(await extractAssets(value[i], ownerId, `${key}${i}`));
+      }
+      return out;
+    }
+    if (value && typeof value === "object") {
+      const owner = typeof value.id === "string" ? value.id : ownerId;
+      const out: Record<string, any> = {};
+      for (const [k, v] of Object.entries(value)) {
+        out[k] = await extractAssets(v, owner, k);
+      }
+      return out;
+    }
+    return value;
+  };
+
+  const manifest: BundleManifest = {
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    project: {
+      name: project.name,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+      script: project.script,
+      characters: await extractAssets(project.characters, "character", "characters"),
+      scenes: await extractAssets(project.scenes, "scene", "scenes"),
+      frames: await extractAssets(project.frames, "frame", "frames"),
+      usage: project.usage,
+      budget: project.budget,
+      styleGuide: project.styleGuide,
+      outputFormat: project.outputFormat,
+      narratorVoice: project.narratorVoice,
+      mix: await extractAssets(project.mix, "mix", "mix"),
+    },
+  };
+
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: "blob" });
+};
+
+/**
+ * Rebuilds a project from a bundle. The result gets a fresh id so importing
+ * never overwrites an existing project. Images come back as data URLs and
+ * audio as blob URLs, matching what the tabs produce.
+ */
+export const importProjectBundle = async (file: Blob): Promise<Project> => {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new Error("Invalid bundle: manifest.json missing");
+
+  let rawManifest: any;
+  try {
+    rawManifest = JSON.parse(await manifestFile.async("string"));
+  } catch (e) {
+    throw new Error("Invalid bundle: manifest.json is not valid JSON");
+  }
+  const manifest = migrateManifest(rawManifest);
+
+  const restoredAssets = new Map<string, string>();
+
+  const restoreAsset = async (path: string): Promise<string | undefined> => {
+    const cached = restoredAssets.get(path);
+    if (cached) return cached;
+
+    const entry = zip.file(path);
+    if (!entry) {
+      console.warn(`Bundle asset missing: ${path}`);
+      return undefined;
+    }
+    const ext = path.split(".").pop()?.toLowerCase() || "";
+    const mime = EXTENSION_MIMES[ext] || "application/octet-stream";
+    const blob = new Blob([await entry.async("arraybuffer")], { type: mime });
+
+    const url = mime.startsWith("audio/") ? URL.createObjectURL(blob) : await blobToDataUrl(blob);
+    restoredAssets.set(path, url);
+    return url;
+  };
+
+  const resolveAssets = async (value: any): Promise<any> => {
+    if (typeof value === "string") {
+      return value.startsWith(ASSET_REF_PREFIX) ? restoreAsset(value.slice(ASSET_REF_PREFIX.length)) : value;
+    }
+    if (Array.isArray(value)) {
+      const out = [];
+      for (const item of value) out.push(await resolveAssets(item));
+      return out;
+    }
+    if (value && typeof value === "object") {
+      const out: Record<string, any> = {};
+      for (const [k, v] of Object.entries(value)) {
+        out[k] = await resolveAssets(v);
+      }
+      return out;
+    }
+    return value;
+  };
+
+  // Same clean-up as a project loaded from storage: defaults, stale statuses, legacy dialogue
+  const source = manifest.project;
+  return normalizeProject({
+    ...source,
+    id: crypto.randomUUID(),
+    name: source.name || "导入的项目",
+    updatedAt: Date.now(),
+    characters: await resolveAssets(source.characters),
+    scenes: await resolveAssets(source.scenes),
+    frames: await resolveAssets(source.frames),
+    mix: await resolveAssets(source.mix),
+  });
+};
+
+/**
+ * Suggested download name for a bundle.
+ */
+export const getBundleFileName = (project: Pick<Project, "name">) => `${sanitizeFileName(project.name) || "project"}.huanxi.zip`;
@@ -0,0 +1,232 @@
+import { Project, ProjectSummary } from "../types";
+import { DEFAULT_STYLE_GUIDE, normalizeStyleGuide } from "./styleGuide";
+import { DEFAULT_OUTPUT_FORMAT, normalizeOutputFormat } from "./outputFormat";
+import { DEFAULT_NARRATOR_VOICE, normalizeVoice } from "./voices";
+import { DEFAULT_AUDIO_MIX, normalizeAudioMix } from "./audioMix";
+import { migrateDialogueLines } from "./dialogue";
+
+// IndexedDB instead of localStorage: base64 images easily exceed the ~5MB localStorage quota
+const DB_NAME = "huanxi_studio";
+const DB_VERSION = 1;
+const PROJECT_STORE = "projects";
+const SUMMARY_STORE = "project_summaries";
+const LAST_PROJECT_KEY = "huanxi_last_project_id";
+
+// Marker used to persist blob: URLs (e.g. generated TTS audio) as real Blobs
+interface StoredBlob {
+  __blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+        db.createObjectStore(PROJECT_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+        db.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisifyTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Recursively replaces blob: URLs with the Blob they point to.
+ * Object URLs die with the page, so they must be stored as data.
+ */
+const dehydrateBlobs = async (value: any): Promise<any> => {
+  if (typeof value === "string") {
+    if (!value.startsWith("blob:")) return value;
+    try {
+      const blob = await fetch(value).then(r => r.blob());
+      return { __blob: blob } as StoredBlob;
+    } catch (e) {
+      console.warn("Failed to persist blob URL", e);
+      return undefined;
+    }
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(dehydrateBlobs));
+  }
+  if (value && typeof value === "object") {
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = await dehydrateBlobs(v);
+    }
+    return out;
+  }
+  return value;
+};
+
+/**
+ * Inverse of dehydrateBlobs: recreates object URLs for stored Blobs.
+ */
+const hydrateBlobs = (value: any): any => {
+  if (Array.isArray(value)) return value.map(hydrateBlobs);
+  if (value && typeof value === "object") {
+    if (value.__blob instanceof Blob) {
+      return URL.createObjectURL(value.__blob);
+    }
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = hydrateBlobs(v);
+    }
+    return out;
+  }
+  return value;
+};
+
+const toSummary = (project: Project): ProjectSummary => {
+  const firstImage =
+    project.frames.find(f => f.generatedImageUrl)?.generatedImageUrl ||
+    project.scenes.find(s => s.imageUrl)?.imageUrl ||
+    project.characters.find(c => c.imageUrl)?.imageUrl;
+
+  return {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    frameCount: project.frames.length,
+    thumbnailUrl: firstImage,
+  };
+};
+
+/**
+ * Fills defaults for records written by older versions and resets
+ * in-flight statuses that can't survive a reload. Also applied to imported
+ * bundles.
+ */
+export const normalizeProject = (raw: any): Project => {
+  const frames = Array.isArray(raw.frames) ? raw.frames : [];
+  return {
+    id: raw.id,
+    name: raw.name || "未命名项目",
+    createdAt: raw.createdAt || Date.now(),
+    updatedAt: raw.updatedAt || Date.now(),
+    characters: Array.isArray(raw.characters) ? raw.characters : [],
+    scenes: Array.isArray(raw.scenes) ? raw.scenes : [],
+    script: typeof raw.script === "string" ? raw.script : "",
+    frames: frames.map((f: any) => ({
+      ...f,
+      lines: f.lines || migrateDialogueLines(f),
+      status: f.status === "generating" ? (f.generatedImageUrl ? "done" : "pending") : f.status,
+      audioStatus: f.audioStatus === "generating" ? (f.audioUrl ? "done" : "idle") : f.audioStatus,
+    })),
+    usage: Array.isArray(raw.usage) ? raw.usage : [],
+    budget: typeof raw.budget === "number" ? raw.budget : undefined,
+    styleGuide: normalizeStyleGuide(raw.styleGuide),
+    outputFormat: normalizeOutputFormat(raw.outputFormat),
+    narratorVoice: normalizeVoice(raw.narratorVoice, DEFAULT_NARRATOR_VOICE),
+    mix: normalizeAudioMix(raw.mix),
+  };
+};
+
+export const createEmptyProject = (name: string = "未命名项目"): Project => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    characters: [],
+    scenes: [],
+    script: "",
+    frames: [],
+    usage: [],
+    styleGuide: DEFAULT_STYLE_GUIDE,
+    outputFormat: DEFAULT_OUTPUT_FORMAT,
+    narratorVoice: DEFAULT_NARRATOR_VOICE,
+    mix: DEFAULT_AUDIO_MIX,
+  };
+};
+
+/**
+ * Lists all projects, most recently edited first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDB();
+  const tx = db.transaction(SUMMARY_STORE, "readonly");
+  const summaries = await promisifyRequest<ProjectSummary[]>(tx.objectStore(SUMMARY_STORE).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const db = await openDB();
+  const tx = db.transaction(PROJECT_STORE, "readonly");
+  const raw = await promisifyRequest(tx.objectStore(PROJECT_STORE).get(id));
+  if (!raw) return null;
+  return normalizeProject(hydrateBlobs(raw));
+};
+
+/**
+ * Writes the full project and its listing summary in one transaction.
+ */
+export const saveProject = async (project: Project): Promise<void> => {
+  // Resolve blobs before opening the transaction: IDB transactions auto-commit across awaits
+  const stored = await dehydrateBlobs(project);
+  const db = await openDB();
+  const tx = db.transaction([PROJECT_STORE, SUMMARY_STORE], "readwrite");
+  tx.objectStore(PROJECT_STORE).put(stored);
+  tx.objectStore(SUMMARY_STORE).put(toSummary(project));
+  await promisifyTransaction(tx);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([PROJECT_STORE, SUMMARY_STORE], "readwrite");
+  tx.objectStore(PROJECT_STORE).delete(id);
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  await promisifyTransaction(tx);
+  if (getLastProjectId() === id) {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+};
+
+/**
+ * Copies a stored project under a new id and name.
+ */
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const source = await loadProject(id);
+  if (!source) throw new Error("Project not found");
+
+  const now = Date.now();
+  const copy: Project = {
+    ...source,
+    id: crypto.randomUUID(),
+    name: `${source.name} (副本)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string) => localStorage.setItem(LAST_PROJECT_KEY, id);
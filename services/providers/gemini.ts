@@ -0,0 +1,286 @@
+import { GoogleGenAI, GenerateContentResponse, Part, Schema, Type } from "@google/genai";
+import { pcmBase64ToWavUrl } from "../audioUtils";
+import { AIError, classifyError } from "../aiErrors";
+import { parseDataUrl } from "../imageUtils";
+import { AIProvider, DialogueSpeechRequest, ImageEditRequest, ImageRequest, JsonSchema, ReferenceImage, SpeechRequest, TextRequest, UsageCallback, generateEach } from "./types";
+
+const IMAGEN_FALLBACK_MODEL = "imagen-3.0-generate-001";
+// Imagen can't edit existing images; edits go to the Gemini image model instead
+const EDIT_FALLBACK_MODEL = "gemini-2.5-flash-image";
+
+// Helper to ensure API Key exists
+const getAI = () => {
+  const localKey = localStorage.getItem("gemini_api_key");
+  const envKey = process.env.API_KEY;
+  const key = localKey || envKey;
+
+  if (!key) {
+    throw new Error("API Key is missing. Please set it in Settings.");
+  }
+  return new GoogleGenAI({ apiKey: key });
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  ...(schema.properties
+    ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])) }
+    : {}),
+});
+
+const reportUsage = (response: GenerateContentResponse, onUsage?: UsageCallback, model?: string) => {
+  const meta = response.usageMetadata;
+  if (meta) onUsage?.({ inputTokens: meta.promptTokenCount, outputTokens: meta.candidatesTokenCount, model });
+};
+
+/**
+ * Reads the image from a Gemini image-model response. A text-only answer is
+ * the model declining the request.
+ */
+const readImagePart = (response: GenerateContentResponse): string => {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const imagePart = parts.find(p => p.inlineData);
+  if (imagePart?.inlineData) {
+    return `data:${imagePart.inlineData.mimeType || "image/png"};base64,${imagePart.inlineData.data}`;
+  }
+  const textPart = parts.find(p => p.text);
+  if (textPart?.text) {
+    throw new AIError("safety", `AI Refusal: ${textPart.text.substring(0, 100)}...`);
+  }
+  throw new AIError("malformed", "API returned empty data.");
+};
+
+/**
+ * Reads the raw PCM from a Gemini TTS response as a playable WAV URL.
+ */
+const readAudioPart = (response: GenerateContentResponse): string => {
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) throw new Error("AI did not return audio data.");
+  return pcmBase64ToWavUrl(base64Audio);
+};
+
+const generateJson = async ({ model, prompt, schema, onUsage }: TextRequest): Promise<string> => {
+  const ai = getAI();
+  const response: GenerateContentResponse = await ai.models.generateContent({
+    model,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: toGeminiSchema(schema),
+    },
+  });
+  reportUsage(response, onUsage);
+
+  const text = response.text;
+  if (!text) throw new Error("AI returned an empty response.");
+  return text;
+};
+
+const generateWithImagen = async (
+  ai: GoogleGenAI,
+  model: string,
+  { prompt, aspectRatio, onUsage }: ImageRequest,
+  count: number = 1
+): Promise<string[]> => {
+  const response = await ai.models.generateImages({
+    model,
+    prompt,
+    config: {
+      numberOfImages: count,
+      aspectRatio,
+      outputMimeType: "image/jpeg",
+    },
+  });
+
+  const images = (response.generatedImages || [])
+    .map(generated => generated.image?.imageBytes)
+    .filter((base64): base64 is string => !!base64)
+    .map(base64 => `data:image/jpeg;base64,${base64}`);
+  if (images.length === 0) throw new Error("Imagen returned no image.");
+  // Imagen is billed per image and reports no token usage
+  onUsage?.({ model });
+  return images;
+};
+
+/**
+ * Builds the content parts for an image request: each reference image is
+ * preceded by a caption so the model knows who/what it depicts.
+ */
+const buildImageParts = (prompt: string, referenceImages: ReferenceImage[]): Part[] => {
+  const parts: Part[] = [];
+  referenceImages.forEach((ref, i) => {
+    const inline = parseDataUrl(ref.dataUrl);
+    if (!inline) return;
+    parts.push({ text: `[Reference ${i + 1}] ${ref.label}` });
+    parts.push({ inlineData: inline });
+  });
+
+  if (parts.length > 0) {
+    parts.push({
+      text: `Use the reference images above ONLY for identity, costume and environment consistency. Compose a NEW image as described below.\n\n${prompt}`,
+    });
+  } else {
+    parts.push({ text: prompt });
+  }
+  return parts;
+};
+
+// The Gemini image model is missing for this key/region, overloaded, or
+// answered without an image. Anything else (bad key, quota, a refused
+// prompt) would fail the same way on Imagen, which also drops the references.
+const canFallBackToImagen = (error: AIError) =>
+  error.kind === "malformed" ||
+  error.status === 404 ||
+  error.status === 503 ||
+  /NOT_FOUND|UNAVAILABLE|not found/.test(error.message);
+
+const generateImage = async (request: ImageRequest): Promise<string> => {
+  const ai = getAI();
+
+  if (request.model.startsWith("imagen")) {
+    return (await generateWithImagen(ai, request.model, request))[0];
+  }
+
+  let lastError: AIError;
+
+  // Attempt 1: Gemini image model
+  try {
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: {
+        parts: buildImageParts(request.prompt, request.referenceImages),
+      },
+      config: {
+        imageConfig: {
+          aspectRatio: request.aspectRatio,
+        },
+      },
+    });
+    reportUsage(response, request.onUsage);
+    return readImagePart(response);
+  } catch (error) {
+    lastError = classifyError(error);
+    if (!canFallBackToImagen(lastError)) throw lastError;
+    console.warn(`${request.model} failed, trying fallback...`, error);
+  }
+
+  // Attempt 2: Imagen 3 (Fallback, text only - references are dropped)
+  try {
+    return (await generateWithImagen(ai, IMAGEN_FALLBACK_MODEL, request))[0];
+  } catch (error) {
+    console.warn("Imagen 3 fallback failed:", error);
+  }
+
+  throw lastError;
+};
+
+// Imagen returns several images per request; Gemini image models answer with one
+const generateImages = async (request: ImageRequest, count: number): Promise<string[]> => {
+  if (request.model.startsWith("imagen")) {
+    return generateWithImagen(getAI(), request.model, request, count);
+  }
+  return generateEach(generateImage, request, count);
+};
+
+// Gemini has no mask input; the mask is sent as a second image and the
+// caller composites the result so pixels outside the mask are untouched
+const buildEditParts = (image: Part["inlineData"], instruction: string, mask: Part["inlineData"] | null): Part[] => {
+  if (!mask) {
+    return [
+      { inlineData: image },
+      { text: `Edit this image: ${instruction}\nKeep everything that the instruction doesn't mention (composition, characters, costume, style, lighting) unchanged.` },
+    ];
+  }
+  return [
+    { inlineData: image },
+    { text: "The next image is a mask of the same size. White marks the ONLY region you may change." },
+    { inlineData: mask },
+    { text: `Repaint the white region: ${instruction}\nBlend it seamlessly and keep everything outside the white region exactly as it is.` },
+  ];
+};
+
+const editImage = async ({ model, imageDataUrl, instruction, maskDataUrl, aspectRatio, onUsage }: ImageEditRequest): Promise<string> => {
+  const inline = parseDataUrl(imageDataUrl);
+  if (!inline) throw new Error("Only embedded (data URL) images can be edited.");
+
+  const editModel = model.startsWith("imagen") ? EDIT_FALLBACK_MODEL : model;
+  const response = await getAI().models.generateContent({
+    model: editModel,
+    contents: {
+      parts: buildEditParts(inline, instruction, maskDataUrl ? parseDataUrl(maskDataUrl) : null),
+    },
+    config: {
+      imageConfig: { aspectRatio },
+    },
+  });
+  reportUsage(response, onUsage, editModel);
+  return readImagePart(response);
+};
+
+const generateSpeech = async ({ model, text, voiceName, style, onUsage }: SpeechRequest): Promise<string> => {
+  const ai = getAI();
+
+  // The TTS models take delivery direction as a natural-language preamble
+  const response = await ai.models.generateContent({
+    model,
+    contents: [{ parts: [{ text: style ? `Say the following line ${style}:\n${text}` : text }] }],
+    config: {
+      responseModalities: ["AUDIO"], // Use string literal to ensure correct enum mapping
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName },
+        },
+      },
+    },
+  });
+  reportUsage(response, onUsage);
+  return readAudioPart(response);
+};
+
+const generateDialogue = async ({ model, turns, voices, onUsage }: DialogueSpeechRequest): Promise<string> => {
+  const ai = getAI();
+
+  // Voices are matched to the speaker names in the transcript; plain Latin
+  // aliases keep that match reliable for any character name
+  const speakers = Object.keys(voices);
+  const alias = (speaker: string) => `Speaker${speakers.indexOf(speaker) + 1}`;
+  const transcript = turns.map(t => `${alias(t.speaker)}: ${t.style ? `[${t.style}] ` : ""}${t.text}`).join("\n");
+  const directions = turns.some(t => t.style) ? " Bracketed text is direction for how to deliver the line and must not be spoken." : "";
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: [{ parts: [{ text: `TTS the following conversation between ${speakers.map(alias).join(" and ")}.${directions}\n${transcript}` }] }],
+    config: {
+      responseModalities: ["AUDIO"],
+      speechConfig: {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: speakers.map(speaker => ({
+            speaker: alias(speaker),
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voices[speaker] } },
+          })),
+        },
+      },
+    },
+  });
+  reportUsage(response, onUsage);
+  return readAudioPart(response);
+};
+
+export const geminiProvider: AIProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  text: { generateJson },
+  image: { generateImage, generateImages, editImage },
+  speech: { generateSpeech, generateDialogue },
+  defaultModels: {
+    text: "gemini-2.5-flash",
+    image: "gemini-2.5-flash-image",
+    speech: "gemini-2.5-flash-preview-tts",
+  },
+  suggestedModels: {
+    text: ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.5-flash-lite"],
+    image: ["gemini-2.5-flash-image", "imagen-3.0-generate-001", "imagen-4.0-generate-001"],
+    speech: ["gemini-2.5-flash-preview-tts", "gemini-2.5-pro-preview-tts"],
+  },
+};
@@ -0,0 +1,42 @@
+import { geminiProvider } from "./gemini";
+import { openaiProvider } from "./openai";
+import { sdWebUIProvider } from "./sdwebui";
+import { mockProvider } from "./mock";
+import { getCapabilitySetting, isMockMode } from "./settings";
+import { AICapability, AIProvider, ImageProvider, ProviderId, SpeechProvider, TextProvider } from "./types";
+
+export * from "./types";
+export * from "./settings";
+
+export const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  sdwebui: sdWebUIProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Providers that implement the given capability, for the Settings pickers.
+ */
+export const getProvidersFor = (capability: AICapability): AIProvider[] =>
+  Object.values(PROVIDERS).filter(p => !!p[capability]);
+
+const resolve = <K extends AICapability>(capability: K) => {
+  const setting = isMockMode() ? { provider: mockProvider.id, model: "" } : getCapabilitySetting(capability);
+  const provider = PROVIDERS[setting.provider];
+  const impl = provider?.[capability];
+  if (!impl) {
+    throw new Error(`Provider "${setting.provider}" does not support ${capability}. Please check Settings.`);
+  }
+  return {
+    provider,
+    impl: impl as NonNullable<AIProvider[K]>,
+    model: setting.model || provider.defaultModels[capability] || "",
+  };
+};
+
+export const resolveTextProvider = (): { provider: AIProvider; impl: TextProvider; model: string } => resolve("text");
+
+export const resolveImageProvider = (): { provider: AIProvider; impl: ImageProvider; model: string } => resolve("image");
+
+export const resolveSpeechProvider = (): { provider: AIProvider; impl: SpeechProvider; model: string } => resolve("speech");
@@ -0,0 +1,370 @@
+import { TTS_SAMPLE_RATE, pcmBase64ToWavUrl } from "../audioUtils";
+import { loadImage } from "../imageUtils";
+import { GENDER_LABELS, VOICE_CATALOG } from "../voices";
+import { AIProvider, AspectRatio, DialogueSpeechRequest, ImageEditRequest, ImageRequest, SpeechRequest, TextRequest, readSourceText } from "./types";
+
+/**
+ * Offline provider for development, demos and end-to-end tests.
+ * Every output is derived from a hash of the input, so the same request
+ * always yields the same result.
+ */
+
+const MOCK_LATENCY_MS = 400;
+
+const CAMERA_ANGLES = ["中景 (Medium)", "特写 (Close-up)", "广角 (Wide)", "过肩 (Over-the-shoulder)", "荷兰角 (Dutch Angle)"];
+
+// "名字：台词" / "名字:“台词”" style dialogue lines
+const DIALOGUE_LINE = /^([^\s：:，,。“"]{1,8})[：:]\s*[“"]?(.+?)[”"]?$/;
+// Speaker suffixes marking how a line is delivered, e.g. "林晓（内心）："
+const MONOLOGUE_MARK = /[（(](?:内心|心想|独白)[）)]$/;
+const OFFSCREEN_MARK = /[（(](?:画外音|画外|OS|V\.?O\.?)[）)]$/i;
+const NARRATOR = "旁白";
+// Scene headings: "场景：xx", "第一场 xx", "【xx】", "INT. xx" / "EXT. xx"
+const SCENE_HEADING = /^(?:场景[：:]\s*(.+)|第[一二三四五六七八九十百\d]+场\s*(.+)|【(.+)】|(?:INT|EXT)\.\s*(.+))$/i;
+
+const hashString = (input: string): number => {
+  // FNV-1a 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: tiny seeded PRNG
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const delay = () => new Promise(r => setTimeout(r, MOCK_LATENCY_MS));
+
+const splitLines = (text: string) =>
+  text.split(/\n+/).map(l => l.trim()).filter(l => l.length > 0);
+
+const parseSceneHeading = (line: string): string | undefined => {
+  const match = line.match(SCENE_HEADING);
+  return match ? (match[1] || match[2] || match[3] || match[4]).trim() : undefined;
+};
+
+const parseDialogueLine = (line: string) => {
+  const match = line.match(DIALOGUE_LINE);
+  if (!match) return undefined;
+  const [, rawSpeaker, text] = match;
+  const speaker = rawSpeaker.replace(MONOLOGUE_MARK, "").replace(OFFSCREEN_MARK, "");
+  const type = speaker === NARRATOR ? "narration"
+    : MONOLOGUE_MARK.test(rawSpeaker) ? "monologue"
+    : OFFSCREEN_MARK.test(rawSpeaker) ? "offscreen"
+    : "dialogue";
+  return { speaker: type === "narration" ? "" : speaker, line_type: type, text, ...guessDelivery(text, type) };
+};
+
+// Punctuation is the only hint the mock has about delivery
+const guessDelivery = (text: string, type: string) => {
+  const exclaims = (text.match(/[!！]/g) || []).length;
+  const trails = /…|\.\.\./.test(text);
+  return {
+    emotion: exclaims ? "激动" : /[?？]/.test(text) ? "疑惑" : trails ? "犹豫" : "平静",
+    intensity: Math.min(5, 2 + exclaims),
+    rate: trails ? "slow" : exclaims > 1 ? "fast" : "normal",
+    volume: type === "monologue" ? "whisper" : exclaims > 1 ? "shout" : "normal",
+    acting_note: "",
+  };
+};
+
+const findSpeakers = (lines: string[]): string[] => {
+  const speakers: string[] = [];
+  lines.forEach(line => {
+    if (parseSceneHeading(line)) return;
+    const speaker = parseDialogueLine(line)?.speaker;
+    if (speaker && !speakers.includes(speaker)) speakers.push(speaker);
+  });
+  return speakers;
+};
+
+const mockWorldInfo = (script: string) => {
+  const lines = splitLines(script);
+  const characters = findSpeakers(lines).map(name => ({
+    name,
+    description: `${name}（模拟数据：根据台词自动识别的角色）`,
+    visualPrompt: `${name}，模拟角色外观，发色与服装由哈希值 ${hashString(name) % 1000} 决定`,
+  }));
+
+  const sceneNames = lines.map(parseSceneHeading).filter((s): s is string => !!s);
+  const scenes = (sceneNames.length > 0 ? Array.from(new Set(sceneNames)) : ["主场景"]).map(name => ({
+    name,
+    description: `${name}（模拟数据）`,
+    visualPrompt: `${name}，模拟环境，柔和光线，细节丰富`,
+  }));
+
+  return { characters, scenes };
+};
+
+const mockPanels = (script: string) => {
+  const lines = splitLines(script);
+  const speakers = findSpeakers(lines);
+  let currentScene = "";
+
+  const panels: any[] = [];
+  lines.forEach(line => {
+    const heading = parseSceneHeading(line);
+    if (heading) {
+      currentScene = heading;
+      return;
+    }
+
+    const random = createRandom(hashString(line));
+    const shotType = CAMERA_ANGLES[Math.floor(random() * CAMERA_ANGLES.length)];
+    const dialogueLine = parseDialogueLine(line);
+    const location = currentScene ? `${currentScene}，` : "";
+
+    if (dialogueLine) {
+      // A reply to a single on-screen line joins it as a two-shot exchange
+      const previous = panels[panels.length - 1];
+      const previousLines: any[] | undefined = previous?.dialogue_lines;
+      const isReply = dialogueLine.line_type === "dialogue" && previous?.scene === currentScene
+        && previousLines?.length === 1 && previousLines[0].line_type === "dialogue"
+        && previousLines[0].speaker !== dialogueLine.speaker;
+      if (isReply) {
+        const [first] = previousLines!;
+        previous.dialogue_lines.push(dialogueLine);
+        previous.characters_in_shot = [first.speaker, dialogueLine.speaker];
+        previous.visual_action = `${location}${first.speaker}与${dialogueLine.speaker}对话，过肩镜头，电影感光线`;
+        previous.shot_type = CAMERA_ANGLES[3];
+        return;
+      }
+
+      const { speaker, line_type } = dialogueLine;
+      panels.push({
+        panel_id: panels.length + 1,
+        visual_action: line_type === "narration"
+          ? `${location}环境空镜，电影感光线`
+          : `${location}${speaker}${line_type === "dialogue" ? "正在说话" : "沉默不语，若有所思"}，表情专注，电影感光线`,
+        characters_in_shot: speaker && line_type !== "offscreen" ? [speaker] : [],
+        dialogue_lines: [dialogueLine],
+        shot_type: shotType,
+        scene: currentScene,
+      });
+    } else {
+      panels.push({
+        panel_id: panels.length + 1,
+        visual_action: `${location}${line}`,
+        characters_in_shot: speakers.filter(name => line.includes(name)),
+        dialogue_lines: [],
+        shot_type: shotType,
+        scene: currentScene,
+      });
+    }
+  });
+
+  return panels.map(({ scene, ...panel }) => panel);
+};
+
+// Input lines look like "- 名字: 描述 视觉提示词"
+const mockVoiceSuggestions = (cast: string) =>
+  splitLines(cast).map(l => l.match(/^-\s*([^:]+):\s*(.*)$/)).filter((m): m is RegExpMatchArray => !!m).map(([, name, description]) => {
+    const gender = /女|她|少女|母亲|姐|妹|婆|娘/.test(description) ? "female" : "male";
+    const voices = VOICE_CATALOG.filter(v => v.gender === gender);
+    const voice = voices[hashString(name) % voices.length];
+    return { character_name: name.trim(), voice: voice.id, reason: `模拟推荐：${GENDER_LABELS[gender]}，${voice.trait}` };
+  });
+
+const generateJson = async ({ prompt, task }: TextRequest): Promise<string> => {
+  await delay();
+  const source = readSourceText(prompt);
+  switch (task) {
+    case "extractWorldInfo":
+      return JSON.stringify(mockWorldInfo(source));
+    case "analyzeScript":
+      return JSON.stringify(mockPanels(source));
+    case "suggestVoices":
+      return JSON.stringify(mockVoiceSuggestions(source));
+    default:
+      throw new Error(`Mock provider does not support task "${task}"`);
+  }
+};
+
+const IMAGE_SIZES: Record<AspectRatio, [number, number]> = {
+  "1:1": [768, 768],
+  "16:9": [1024, 576],
+  "9:16": [576, 1024],
+  "4:3": [960, 720],
+  "3:4": [720, 960],
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = "";
+  // Character-level wrapping works for both Chinese and English prompts
+  for (const char of text.replace(/\s+/g, " ")) {
+    if (ctx.measureText(current + char).width > maxWidth && current) {
+      lines.push(current);
+      current = char.trimStart();
+    } else {
+      current += char;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Each variant gets its own seed so candidates of one prompt look different
+const renderImage = ({ prompt, aspectRatio, referenceImages }: ImageRequest, variant: number): string => {
+  const [width, height] = IMAGE_SIZES[aspectRatio];
+  const refLabels = referenceImages.map(r => r.label);
+  const random = createRandom(hashString(`${aspectRatio}|${refLabels.join("|")}|${prompt}${variant ? `|${variant}` : ""}`));
+  const hue = Math.floor(random() * 360);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 45%, 22%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 55%, 12%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Grid + a few seeded shapes so different prompts are easy to tell apart
+  ctx.strokeStyle = "rgba(255,255,255,0.06)";
+  for (let x = 0; x < width; x += 48) {
+    ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, height); ctx.stroke();
+  }
+  for (let y = 0; y < height; y += 48) {
+    ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(width, y); ctx.stroke();
+  }
+  for (let i = 0; i < 5; i++) {
+    ctx.fillStyle = `hsla(${(hue + i * 40) % 360}, 70%, 60%, 0.18)`;
+    ctx.beginPath();
+    ctx.arc(random() * width, random() * height, 40 + random() * Math.min(width, height) * 0.3, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  const padding = Math.round(width * 0.06);
+  ctx.fillStyle = "rgba(255,255,255,0.9)";
+  ctx.font = `bold ${Math.round(height * 0.06)}px sans-serif`;
+  ctx.fillText(`MOCK ${aspectRatio}${refLabels.length ? `  REF ×${refLabels.length}` : ""}`, padding, padding + Math.round(height * 0.06));
+
+  const fontSize = Math.max(14, Math.round(Math.min(width, height) * 0.028));
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.fillStyle = "rgba(255,255,255,0.75)";
+  const maxLines = Math.floor((height - padding * 3) / (fontSize * 1.4));
+  const lines = wrapText(ctx, prompt, width - padding * 2);
+  lines.slice(0, maxLines).forEach((line, i) => {
+    const text = i === maxLines - 1 && lines.length > maxLines ? `${line}…` : line;
+    ctx.fillText(text, padding, padding * 2 + Math.round(height * 0.06) + i * fontSize * 1.4);
+  });
+
+  return canvas.toDataURL("image/png");
+};
+
+const generateImage = async (request: ImageRequest): Promise<string> => {
+  await delay();
+  return renderImage(request, 0);
+};
+
+const generateImages = async (request: ImageRequest, count: number): Promise<string[]> => {
+  await delay();
+  return Array.from({ length: count }, (_, i) => renderImage(request, i));
+};
+
+// Redraws the source image with the instruction stamped on a banner;
+// with a mask, the whole image is tinted and the caller composites it
+const editImage = async ({ imageDataUrl, instruction, maskDataUrl }: ImageEditRequest): Promise<string> => {
+  await delay();
+  const source = await loadImage(imageDataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = source.naturalWidth;
+  canvas.height = source.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+
+  ctx.drawImage(source, 0, 0);
+  if (maskDataUrl) {
+    ctx.fillStyle = `hsla(${hashString(instruction) % 360}, 80%, 50%, 0.45)`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  const fontSize = Math.max(14, Math.round(Math.min(canvas.width, canvas.height) * 0.035));
+  const bannerHeight = fontSize * 2;
+  ctx.fillStyle = "rgba(120, 40, 200, 0.75)";
+  ctx.fillRect(0, canvas.height - bannerHeight, canvas.width, bannerHeight);
+  ctx.fillStyle = "white";
+  ctx.font = `${fontSize}px sans-serif`;
+  const [line] = wrapText(ctx, `EDIT: ${instruction}`, canvas.width - fontSize * 2);
+  ctx.fillText(line || "EDIT", fontSize, canvas.height - fontSize * 0.7);
+  return canvas.toDataURL("image/png");
+};
+
+// The few delivery words from formatDirection that the mock can act on
+const styleVolume = (style = "") => style.includes("whispering") ? 0.1 : style.includes("shouting") ? 0.5 : 0.3;
+const styleTempo = (style = "") => style.includes("slowly") ? 1.4 : style.includes("quickly") ? 0.7 : 1;
+
+// Voice picks the base pitch; each character becomes a short "syllable"
+const synthesize = (text: string, voiceName: string, style?: string): Int16Array => {
+  const chars = Array.from(text.replace(/\s+/g, ""));
+  const duration = Math.min(12, Math.max(1, chars.length * 0.15 * styleTempo(style)));
+  const volume = styleVolume(style);
+  const sampleCount = Math.floor(TTS_SAMPLE_RATE * duration);
+  const pcm = new Int16Array(sampleCount);
+
+  const baseFreq = 140 + (hashString(voiceName) % 140);
+  const samplesPerSyllable = Math.max(1, Math.floor(sampleCount / Math.max(1, chars.length)));
+  for (let i = 0; i < sampleCount; i++) {
+    const syllable = Math.floor(i / samplesPerSyllable);
+    const charCode = chars[Math.min(syllable, chars.length - 1)]?.charCodeAt(0) || 0;
+    const freq = baseFreq * (1 + (charCode % 7) * 0.04);
+    const pos = (i % samplesPerSyllable) / samplesPerSyllable;
+    const envelope = Math.sin(Math.PI * pos) * volume;
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * freq * i) / TTS_SAMPLE_RATE) * envelope * 32767);
+  }
+  return pcm;
+};
+
+// Same path as real Gemini TTS output: base64 PCM -> WAV blob URL
+const toWavUrl = (pcm: Int16Array) => {
+  const bytes = new Uint8Array(pcm.buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return pcmBase64ToWavUrl(btoa(binary));
+};
+
+const generateSpeech = async ({ text, voiceName, style }: SpeechRequest): Promise<string> => {
+  await delay();
+  return toWavUrl(synthesize(text, voiceName, style));
+};
+
+const generateDialogue = async ({ turns, voices }: DialogueSpeechRequest): Promise<string> => {
+  await delay();
+  const pause = new Int16Array(Math.floor(TTS_SAMPLE_RATE * 0.2));
+  const parts = turns.flatMap((turn, i) => [...(i > 0 ? [pause] : []), synthesize(turn.text, voices[turn.speaker], turn.style)]);
+  const pcm = new Int16Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    pcm.set(part, offset);
+    offset += part.length;
+  }
+  return toWavUrl(pcm);
+};
+
+export const mockProvider: AIProvider = {
+  id: "mock",
+  label: "离线模拟 (Mock)",
+  text: { generateJson },
+  image: { generateImage, generateImages, editImage },
+  speech: { generateSpeech, generateDialogue },
+  defaultModels: {
+    text: "mock-text",
+    image: "mock-image",
+    speech: "mock-tts",
+  },
+  suggestedModels: {
+    text: ["mock-text"],
+    image: ["mock-image"],
+    speech: ["mock-tts"],
+  },
+};
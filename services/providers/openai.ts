@@ -0,0 +1,187 @@
+import { createMaskCanvas, dataUrlToBlob, loadImage } from "../imageUtils";
+import { getProviderSettings } from "./settings";
+import { AIProvider, AspectRatio, ImageEditRequest, ImageRequest, SpeechRequest, TextRequest, UsageCallback, generateEach, httpError } from "./types";
+
+const OPENAI_VOICES = ["alloy", "ash", "coral", "echo", "fable", "nova", "onyx", "sage", "shimmer"];
+
+const request = async (path: string, body: unknown): Promise<Response> => {
+  const { baseUrl, apiKey } = getProviderSettings().openai;
+  if (!baseUrl) throw new Error("OpenAI-compatible base URL is missing. Please set it in Settings.");
+
+  const isForm = body instanceof FormData;
+  const headers: Record<string, string> = isForm ? {} : { "Content-Type": "application/json" };
+  if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, "")}${path}`, {
+    method: "POST",
+    headers,
+    body: isForm ? body : JSON.stringify(body),
+  });
+  if (!response.ok) throw await httpError(response, "OpenAI-compatible");
+  return response;
+};
+
+// Chat completions report prompt/completion tokens; gpt-image reports input/output tokens
+const reportUsage = (data: any, onUsage?: UsageCallback) => {
+  const usage = data?.usage;
+  if (!usage) return;
+  onUsage?.({
+    inputTokens: usage.prompt_tokens ?? usage.input_tokens,
+    outputTokens: usage.completion_tokens ?? usage.output_tokens,
+  });
+};
+
+const generateJson = async ({ model, prompt, schema, onUsage }: TextRequest): Promise<string> => {
+  // json_object mode only allows a top-level object, so arrays are wrapped
+  const wrapsArray = schema.type === "array";
+  const responseSchema = wrapsArray ? { type: "object", properties: { items: schema } } : schema;
+
+  const response = await request("/chat/completions", {
+    model,
+    messages: [
+      {
+        role: "system",
+        content: `Respond ONLY with a JSON object matching this JSON Schema:\n${JSON.stringify(responseSchema)}`,
+      },
+      { role: "user", content: prompt },
+    ],
+    response_format: { type: "json_object" },
+  });
+
+  const data = await response.json();
+  reportUsage(data, onUsage);
+  const text: string | undefined = data.choices?.[0]?.message?.content;
+  if (!text) throw new Error("AI returned an empty response.");
+
+  if (!wrapsArray) return text;
+  try {
+    const parsed = JSON.parse(text);
+    return JSON.stringify(Array.isArray(parsed) ? parsed : parsed.items || []);
+  } catch (e) {
+    // Let the caller report the malformed JSON
+    return text;
+  }
+};
+
+const getImageSize = (model: string, aspectRatio: AspectRatio): string => {
+  const isSquare = aspectRatio === "1:1";
+  const isPortrait = aspectRatio === "9:16" || aspectRatio === "3:4";
+  if (model.startsWith("dall-e-3")) {
+    return isSquare ? "1024x1024" : isPortrait ? "1024x1792" : "1792x1024";
+  }
+  return isSquare ? "1024x1024" : isPortrait ? "1024x1536" : "1536x1024";
+};
+
+/**
+ * gpt-image models accept reference images through the edits endpoint.
+ */
+const generateImageWithReferences = async ({ model, prompt, aspectRatio, referenceImages }: ImageRequest, count: number): Promise<Response> => {
+  const form = new FormData();
+  form.append("model", model);
+  form.append("n", String(count));
+  form.append("size", getImageSize(model, aspectRatio));
+  const captions = referenceImages.map((ref, i) => `Reference ${i + 1}: ${ref.label}`).join("\n");
+  form.append("prompt", `${captions}\nKeep identity and environment consistent with the references.\n\n${prompt}`);
+  referenceImages.forEach((ref, i) => {
+    const blob = dataUrlToBlob(ref.dataUrl);
+    form.append("image[]", blob, `reference_${i + 1}.${blob.type.split("/")[1] || "png"}`);
+  });
+  return request("/images/edits", form);
+};
+
+const toImageUrls = (data: any): string[] => {
+  const images = (data.data || [])
+    .map((item: any) => item.b64_json)
+    .filter((base64: unknown): base64 is string => typeof base64 === "string")
+    .map((base64: string) => `data:image/png;base64,${base64}`);
+  if (images.length === 0) throw new Error("API returned empty data.");
+  return images;
+};
+
+const requestImages = async (imageRequest: ImageRequest, count: number): Promise<string[]> => {
+  const { model, prompt, aspectRatio, referenceImages } = imageRequest;
+  if (referenceImages.length > 0 && model.startsWith("gpt-image")) {
+    const data = await (await generateImageWithReferences(imageRequest, count)).json();
+    reportUsage(data, imageRequest.onUsage);
+    return toImageUrls(data);
+  }
+
+  const body: Record<string, unknown> = {
+    model,
+    prompt,
+    n: count,
+    size: getImageSize(model, aspectRatio),
+  };
+  // gpt-image models always return base64 and reject this parameter
+  if (model.startsWith("dall-e")) body.response_format = "b64_json";
+
+  const response = await request("/images/generations", body);
+  const data = await response.json();
+  reportUsage(data, imageRequest.onUsage);
+  return toImageUrls(data);
+};
+
+const generateImage = async (imageRequest: ImageRequest): Promise<string> => (await requestImages(imageRequest, 1))[0];
+
+// dall-e-3 only accepts n=1
+const generateImages = (imageRequest: ImageRequest, count: number): Promise<string[]> =>
+  imageRequest.model.startsWith("dall-e-3")
+    ? generateEach(generateImage, imageRequest, count)
+    : requestImages(imageRequest, count);
+
+// The edits endpoint repaints where the mask is transparent
+const toTransparentMask = async (imageDataUrl: string, maskDataUrl: string): Promise<Blob> => {
+  const image = await loadImage(imageDataUrl);
+  const canvas = await createMaskCanvas(maskDataUrl, image.naturalWidth, image.naturalHeight, { invert: true });
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode mask"))), "image/png")
+  );
+};
+
+// dall-e-3 has no edits endpoint
+const editImage = async ({ model, imageDataUrl, instruction, maskDataUrl, aspectRatio, onUsage }: ImageEditRequest): Promise<string> => {
+  const editModel = model.startsWith("dall-e-3") ? "gpt-image-1" : model;
+  const blob = dataUrlToBlob(imageDataUrl);
+  const form = new FormData();
+  form.append("model", editModel);
+  form.append("size", getImageSize(editModel, aspectRatio));
+  form.append("prompt", instruction);
+  form.append("image", blob, `image.${blob.type.split("/")[1] || "png"}`);
+  if (maskDataUrl) form.append("mask", await toTransparentMask(imageDataUrl, maskDataUrl), "mask.png");
+
+  const data = await (await request("/images/edits", form)).json();
+  reportUsage(data, usage => onUsage?.({ ...usage, model: editModel }));
+  return toImageUrls(data)[0];
+};
+
+const generateSpeech = async ({ model, text, voiceName, style }: SpeechRequest): Promise<string> => {
+  const voice = voiceName.toLowerCase();
+  const response = await request("/audio/speech", {
+    model,
+    input: text,
+    // Cast voices are Gemini names; fall back to a stock voice when they don't exist here
+    voice: OPENAI_VOICES.includes(voice) ? voice : OPENAI_VOICES[0],
+    response_format: "wav",
+    // Only the gpt-4o TTS models take instructions; tts-1 rejects the field
+    ...(style && !model.startsWith("tts-1") ? { instructions: `Speak ${style}.` } : {}),
+  });
+  return URL.createObjectURL(await response.blob());
+};
+
+export const openaiProvider: AIProvider = {
+  id: "openai",
+  label: "OpenAI 兼容接口",
+  text: { generateJson },
+  image: { generateImage, generateImages, editImage },
+  speech: { generateSpeech },
+  defaultModels: {
+    text: "gpt-4o-mini",
+    image: "gpt-image-1",
+    speech: "gpt-4o-mini-tts",
+  },
+  suggestedModels: {
+    text: ["gpt-4o-mini", "gpt-4o", "deepseek-chat", "qwen-plus"],
+    image: ["gpt-image-1", "dall-e-3"],
+    speech: ["gpt-4o-mini-tts", "tts-1", "tts-1-hd"],
+  },
+};
@@ -0,0 +1,98 @@
+import { getProviderSettings } from "./settings";
+import { parseDataUrl } from "../imageUtils";
+import { AIProvider, AspectRatio, ImageEditRequest, ImageRequest, httpError } from "./types";
+
+// Sizes that work well with SDXL-class checkpoints
+const SIZES: Record<AspectRatio, [number, number]> = {
+  "1:1": [1024, 1024],
+  "16:9": [1344, 768],
+  "9:16": [768, 1344],
+  "4:3": [1152, 896],
+  "3:4": [896, 1152],
+};
+
+/**
+ * Local Stable Diffusion server speaking the AUTOMATIC1111 WebUI API
+ * (also served by Forge and SD.Next). Start it with --api.
+ */
+const generateImages = async ({ model, prompt, aspectRatio }: ImageRequest, count: number): Promise<string[]> => {
+  const { baseUrl } = getProviderSettings().sdwebui;
+  if (!baseUrl) throw new Error("Stable Diffusion server URL is missing. Please set it in Settings.");
+
+  const [width, height] = SIZES[aspectRatio];
+  const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/sdapi/v1/txt2img`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      prompt,
+      width,
+      height,
+      steps: 28,
+      cfg_scale: 6,
+      batch_size: count,
+      // Empty model keeps whatever checkpoint the server has loaded
+      ...(model ? { override_settings: { sd_model_checkpoint: model } } : {}),
+    }),
+  });
+  if (!response.ok) throw await httpError(response, "Stable Diffusion");
+
+  const data = await response.json();
+  // Some scripts append extra images (e.g. a grid); keep only the batch
+  const images: string[] = (data.images || []).slice(0, count).map((base64: string) => `data:image/png;base64,${base64}`);
+  if (images.length === 0) throw new Error("API returned empty data.");
+  return images;
+};
+
+const generateImage = async (request: ImageRequest): Promise<string> => (await generateImages(request, 1))[0];
+
+// How far img2img may move away from the source image
+const EDIT_DENOISING_STRENGTH = 0.55;
+const INPAINT_DENOISING_STRENGTH = 0.75;
+
+/**
+ * img2img from the current image, or inpainting when a mask is given. SD has
+ * no instruction following, so the instruction works as a prompt.
+ */
+const editImage = async ({ model, imageDataUrl, instruction, maskDataUrl, aspectRatio }: ImageEditRequest): Promise<string> => {
+  const { baseUrl } = getProviderSettings().sdwebui;
+  if (!baseUrl) throw new Error("Stable Diffusion server URL is missing. Please set it in Settings.");
+  const source = parseDataUrl(imageDataUrl);
+  if (!source) throw new Error("Only embedded (data URL) images can be edited.");
+  const mask = maskDataUrl ? parseDataUrl(maskDataUrl) : null;
+
+  const [width, height] = SIZES[aspectRatio];
+  const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/sdapi/v1/img2img`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      init_images: [source.data],
+      prompt: instruction,
+      denoising_strength: mask ? INPAINT_DENOISING_STRENGTH : EDIT_DENOISING_STRENGTH,
+      // Inpainting: white = repaint, starting from the original pixels
+      ...(mask ? { mask: mask.data, mask_blur: 4, inpainting_fill: 1, inpaint_full_res: true } : {}),
+      width,
+      height,
+      steps: 28,
+      cfg_scale: 6,
+      ...(model ? { override_settings: { sd_model_checkpoint: model } } : {}),
+    }),
+  });
+  if (!response.ok) throw await httpError(response, "Stable Diffusion");
+
+  const data = await response.json();
+  const base64 = data.images?.[0];
+  if (!base64) throw new Error("API returned empty data.");
+  return `data:image/png;base64,${base64}`;
+};
+
+export const sdWebUIProvider: AIProvider = {
+  id: "sdwebui",
+  label: "本地 Stable Diffusion (WebUI API)",
+  image: { generateImage, generateImages, editImage },
+  defaultModels: {
+    image: "",
+  },
+  suggestedModels: {
+    image: [],
+  },
+};
@@ -0,0 +1,78 @@
+import { AICapability, ProviderId } from "./types";
+
+const SETTINGS_KEY = "huanxi_ai_providers";
+
+export const MAX_IMAGE_CANDIDATES = 4;
+
+export interface CapabilitySetting {
+  provider: ProviderId;
+  model: string;
+}
+
+export interface ProviderSettings {
+  mockMode: boolean; // Routes every capability to the offline mock provider
+  text: CapabilitySetting;
+  image: CapabilitySetting;
+  speech: CapabilitySetting;
+  openai: {
+    baseUrl: string;
+    apiKey: string;
+  };
+  sdwebui: {
+    baseUrl: string;
+  };
+  imageCandidates: number; // Images per generation, 1 to MAX_IMAGE_CANDIDATES
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  mockMode: false,
+  text: { provider: "gemini", model: "gemini-2.5-flash" },
+  image: { provider: "gemini", model: "gemini-2.5-flash-image" },
+  speech: { provider: "gemini", model: "gemini-2.5-flash-preview-tts" },
+  openai: {
+    baseUrl: "https://api.openai.com/v1",
+    apiKey: "",
+  },
+  sdwebui: {
+    baseUrl: "http://127.0.0.1:7860",
+  },
+  imageCandidates: 1,
+};
+
+export const getProviderSettings = (): ProviderSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_PROVIDER_SETTINGS;
+    const parsed = JSON.parse(saved);
+    // Merge per section so settings saved by older versions pick up new fields
+    return {
+      mockMode: !!parsed.mockMode,
+      text: { ...DEFAULT_PROVIDER_SETTINGS.text, ...parsed.text },
+      image: { ...DEFAULT_PROVIDER_SETTINGS.image, ...parsed.image },
+      speech: { ...DEFAULT_PROVIDER_SETTINGS.speech, ...parsed.speech },
+      openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...parsed.openai },
+      sdwebui: { ...DEFAULT_PROVIDER_SETTINGS.sdwebui, ...parsed.sdwebui },
+      imageCandidates: typeof parsed.imageCandidates === "number" ? parsed.imageCandidates : DEFAULT_PROVIDER_SETTINGS.imageCandidates,
+    };
+  } catch (e) {
+    console.error("Failed to load provider settings", e);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Mock mode is on when enabled in Settings or forced with AI_MOCK=true in .env.local.
+ */
+export const isMockMode = (): boolean => {
+  const envFlag = process.env.AI_MOCK;
+  return envFlag === "true" || envFlag === "1" || getProviderSettings().mockMode;
+};
+
+export const getImageCandidateCount = (): number =>
+  Math.min(MAX_IMAGE_CANDIDATES, Math.max(1, Math.round(getProviderSettings().imageCandidates)));
+
+export const getCapabilitySetting = (capability: AICapability): CapabilitySetting => getProviderSettings()[capability];
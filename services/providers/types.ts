@@ -0,0 +1,165 @@
+export type AspectRatio = "1:1" | "16:9" | "9:16" | "3:4" | "4:3";
+
+export type AICapability = "text" | "image" | "speech";
+
+export type ProviderId = "gemini" | "openai" | "sdwebui" | "mock";
+
+// What a structured text request is for. Real providers ignore it; the
+// offline mock switches on it
+export type TextTask = "extractWorldInfo" | "analyzeScript" | "suggestVoices";
+
+// Prompts end with this heading and the text they work on, so the offline
+// mock finds its input without depending on the wording of the instructions
+const SOURCE_TEXT_HEADING = "Source text:";
+
+/**
+ * Provider-neutral subset of JSON Schema used to request structured output.
+ * Each provider translates it into its own format.
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+// Token counts as reported by the API, when it reports them
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  model?: string; // Set when the provider fell back to a different model
+}
+
+export type UsageCallback = (usage: TokenUsage) => void;
+
+export interface TextRequest {
+  model: string;
+  prompt: string;
+  schema: JsonSchema;
+  task: TextTask;
+  onUsage?: UsageCallback;
+}
+
+export interface ReferenceImage {
+  dataUrl: string;
+  label: string; // What the image shows, e.g. "Character sheet of 林晓"
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  referenceImages: ReferenceImage[]; // Providers without image input ignore these
+  onUsage?: UsageCallback;
+}
+
+export interface ImageEditRequest {
+  model: string;
+  imageDataUrl: string; // The image to change
+  instruction: string; // Natural-language edit, e.g. "让她微笑"
+  maskDataUrl?: string; // Black/white PNG of the image's size; only the white region may change
+  aspectRatio: AspectRatio;
+  onUsage?: UsageCallback;
+}
+
+export interface SpeechRequest {
+  model: string;
+  text: string;
+  voiceName: string;
+  style?: string; // Delivery instructions, e.g. "whispering, slowly"; ignored without style control
+  onUsage?: UsageCallback;
+}
+
+export interface DialogueTurn {
+  speaker: string;
+  text: string;
+  style?: string;
+}
+
+export interface DialogueSpeechRequest {
+  model: string;
+  turns: DialogueTurn[]; // In spoken order
+  voices: Record<string, string>; // Voice name per speaker; exactly two speakers
+  onUsage?: UsageCallback;
+}
+
+export interface TextProvider {
+  /** Returns the raw JSON text matching the requested schema. */
+  generateJson(request: TextRequest): Promise<string>;
+}
+
+export interface ImageProvider {
+  /** Returns the image as a data URL. */
+  generateImage(request: ImageRequest): Promise<string>;
+  /**
+   * Returns up to `count` images from one request, for providers with native
+   * batch support. Without it, candidates are generated one call at a time.
+   */
+  generateImages?(request: ImageRequest, count: number): Promise<string[]>;
+  /** Returns an edited copy of the given image as a data URL. */
+  editImage?(request: ImageEditRequest): Promise<string>;
+}
+
+export interface SpeechProvider {
+  /** Returns a playable audio URL (blob: URL). */
+  generateSpeech(request: SpeechRequest): Promise<string>;
+  /**
+   * Returns one clip of a two-person exchange, for providers with native
+   * multi-speaker support. Without it, lines are voiced one at a time.
+   */
+  generateDialogue?(request: DialogueSpeechRequest): Promise<string>;
+}
+
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  text?: TextProvider;
+  image?: ImageProvider;
+  speech?: SpeechProvider;
+  defaultModels: Partial<Record<AICapability, string>>;
+  suggestedModels: Partial<Record<AICapability, string[]>>;
+}
+
+/**
+ * Runs single-image generation `count` times in parallel. Keeps whatever
+ * succeeded and only fails when every attempt failed.
+ */
+export const generateEach = async (
+  generate: (request: ImageRequest) => Promise<string>,
+  request: ImageRequest,
+  count: number
+): Promise<string[]> => {
+  const results = await Promise.allSettled(Array.from({ length: count }, () => generate(request)));
+  const images = results.flatMap(r => (r.status === "fulfilled" ? [r.value] : []));
+  if (images.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+  return images;
+};
+
+/**
+ * Closing section of a text prompt: the script, cast list, etc. to work on.
+ */
+export const formatSourceText = (text: string) => `${SOURCE_TEXT_HEADING}\n${text}`;
+
+/**
+ * The text a prompt built with formatSourceText works on.
+ */
+export const readSourceText = (prompt: string) => {
+  const start = prompt.indexOf(SOURCE_TEXT_HEADING);
+  return start >= 0 ? prompt.slice(start + SOURCE_TEXT_HEADING.length) : prompt;
+};
+
+/**
+ * Creates an Error carrying the HTTP status so withRetry can classify it.
+ */
+export const httpError = async (response: Response, label: string): Promise<Error> => {
+  let detail = "";
+  try {
+    detail = await response.text();
+  } catch (e) {
+    // Body unreadable; status alone will have to do
+  }
+  const error: any = new Error(`${label} request failed (${response.status}): ${detail.substring(0, 200)}`);
+  error.status = response.status;
+  error.retryAfter = response.headers.get("retry-after") ?? undefined;
+  return error;
+};
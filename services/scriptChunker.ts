@@ -0,0 +1,92 @@
+// --- Script Chunking ---
+// Long scripts are analyzed piece by piece so each AI response stays well
+// under the model's output limit.
+
+// Roughly one episode's worth of prose; short scripts stay a single chunk
+export const DEFAULT_CHUNK_CHARS = 4000;
+
+// Scene headings: "场景：xx", "第一场 xx", "第3章", "【xx】", "INT. xx" / "EXT. xx"
+const SCENE_HEADING = /^(?:场景[：:]|第[一二三四五六七八九十百千\d]+[场章节幕]|【.+】$|(?:INT|EXT)\.)/i;
+
+// Sentence ends used when a single paragraph is too long on its own
+const SENTENCE_END = /(?<=[。！？!?…」”"])|(?<=\.)\s+/;
+
+export const isSceneHeading = (line: string) => SCENE_HEADING.test(line.trim());
+
+/**
+ * Breaks the script into blocks: paragraphs separated by blank lines,
+ * with every scene heading starting a new block.
+ */
+const splitBlocks = (script: string): string[] => {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length > 0) blocks.push(current.join("\n"));
+    current = [];
+  };
+
+  script.split("\n").forEach(line => {
+    if (!line.trim()) {
+      flush();
+    } else {
+      if (isSceneHeading(line)) flush();
+      current.push(line.trimEnd());
+    }
+  });
+  flush();
+  return blocks;
+};
+
+// Last resort for a block longer than a chunk: cut between sentences, then hard-cut
+const splitOversized = (block: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let current = "";
+  block.split(SENTENCE_END).forEach(sentence => {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current);
+      current = "";
+    }
+    while (sentence.length > maxChars) {
+      pieces.push(sentence.slice(0, maxChars));
+      sentence = sentence.slice(maxChars);
+    }
+    current += sentence;
+  });
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+/**
+ * Splits a script into chunks of at most `maxChars`, breaking on scene
+ * headings where possible and otherwise on paragraph boundaries.
+ */
+export const splitScript = (script: string, maxChars: number = DEFAULT_CHUNK_CHARS): string[] => {
+  const chunks: string[] = [];
+  let current = "";
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = "";
+  };
+
+  splitBlocks(script).forEach(block => {
+    const joined = current ? `${current}\n\n${block}` : block;
+    // Prefer to end a chunk at a scene change once it's reasonably full
+    const breakAtScene = isSceneHeading(block) && current.length >= maxChars / 2;
+
+    if (joined.length <= maxChars && !breakAtScene) {
+      current = joined;
+      return;
+    }
+
+    flush();
+    if (block.length <= maxChars) {
+      current = block;
+    } else {
+      const pieces = splitOversized(block, maxChars);
+      pieces.slice(0, -1).forEach(p => chunks.push(p.trim()));
+      current = pieces[pieces.length - 1];
+    }
+  });
+  flush();
+  return chunks;
+};
@@ -0,0 +1,159 @@
+import { DialogueLine, StoryboardFrame } from "../types";
+import { getDialogueLines, withDialogueLines } from "./dialogue";
+
+// --- Storyboard Structure Editing ---
+// Pure helpers: each returns a new, renumbered frame list. Prompts are left
+// to the caller, which knows the current characters and scenes.
+
+// Sentence ends we prefer to split on (Chinese and Latin punctuation)
+const SENTENCE_END = /[。！？!?；;…\n]|\.(?=\s)/g;
+
+export const renumberFrames = (frames: StoryboardFrame[]): StoryboardFrame[] =>
+  frames.map((f, i) => f.panelNumber === i + 1 ? f : { ...f, panelNumber: i + 1 });
+
+export const createBlankFrame = (): StoryboardFrame => ({
+  id: crypto.randomUUID(),
+  panelNumber: 0,
+  description: "",
+  charactersPresent: [],
+  dialogue: "",
+  lines: [],
+  cameraAngle: "中景 (Medium)",
+  currentPrompt: "",
+  status: "pending",
+});
+
+/**
+ * Inserts a blank panel at `index`. New panels inherit the scene of the
+ * panel they were inserted next to.
+ */
+export const insertFrame = (frames: StoryboardFrame[], index: number): StoryboardFrame[] => {
+  const neighbour = frames[index] || frames[index - 1];
+  const frame = { ...createBlankFrame(), assignedSceneId: neighbour?.assignedSceneId };
+  const next = [...frames];
+  next.splice(index, 0, frame);
+  return renumberFrames(next);
+};
+
+export const deleteFrame = (frames: StoryboardFrame[], frameId: string): StoryboardFrame[] =>
+  renumberFrames(frames.filter(f => f.id !== frameId));
+
+/**
+ * Copies a panel (including its image and audio) directly after itself.
+ */
+export const duplicateFrame = (frames: StoryboardFrame[], frameId: string): StoryboardFrame[] => {
+  const index = frames.findIndex(f => f.id === frameId);
+  if (index < 0) return frames;
+  const source = frames[index];
+  const copy: StoryboardFrame = {
+    ...source,
+    id: crypto.randomUUID(),
+    charactersPresent: [...source.charactersPresent],
+    excludedReferenceIds: source.excludedReferenceIds && [...source.excludedReferenceIds],
+    status: source.status === "generating" ? "pending" : source.status,
+  };
+  const next = [...frames];
+  next.splice(index + 1, 0, copy);
+  return renumberFrames(next);
+};
+
+/**
+ * Splits text in two at the sentence boundary closest to the middle,
+ * falling back to the exact middle when there is no punctuation.
+ */
+export const splitText = (text: string): [string, string] => {
+  const trimmed = text.trim();
+  if (trimmed.length < 2) return [trimmed, ""];
+
+  const middle = trimmed.length / 2;
+  let best = -1;
+  for (const match of trimmed.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    if (end >= trimmed.length) continue;
+    if (best < 0 || Math.abs(end - middle) < Math.abs(best - middle)) best = end;
+  }
+  const at = best > 0 ? best : Math.ceil(middle);
+  return [trimmed.slice(0, at).trim(), trimmed.slice(at).trim()];
+};
+
+/**
+ * Splits dialogue lines in two: between lines when there are several,
+ * otherwise through the text of the single line.
+ */
+const splitLines = (lines: DialogueLine[]): [DialogueLine[], DialogueLine[]] => {
+  if (lines.length > 1) {
+    const at = Math.ceil(lines.length / 2);
+    return [lines.slice(0, at), lines.slice(at)];
+  }
+  if (lines.length === 0) return [[], []];
+  const [line] = lines;
+  const [textA, textB] = splitText(line.text);
+  if (!textB) return [lines, []];
+  return [[{ ...line, text: textA }], [{ ...line, id: crypto.randomUUID(), text: textB }]];
+};
+
+/**
+ * Splits a panel into two, dividing its description and dialogue between
+ * them. The first half keeps the generated image; the second starts fresh.
+ * If the dialogue is divided, its audio no longer matches and is dropped.
+ */
+export const splitFrame = (frames: StoryboardFrame[], frameId: string): StoryboardFrame[] => {
+  const index = frames.findIndex(f => f.id === frameId);
+  if (index < 0) return frames;
+  const source = frames[index];
+
+  const [descA, descB] = splitText(source.description);
+  const [linesA, linesB] = splitLines(getDialogueLines(source));
+  const dialogueChanged = linesB.length > 0;
+
+  const first: StoryboardFrame = {
+    ...source,
+    description: descA,
+    ...withDialogueLines(linesA),
+    duration: source.duration && source.duration / 2,
+    audioUrl: dialogueChanged ? undefined : source.audioUrl,
+    audioStatus: dialogueChanged ? undefined : source.audioStatus,
+  };
+  const second: StoryboardFrame = {
+    ...createBlankFrame(),
+    description: descB || descA,
+    ...withDialogueLines(linesB),
+    cameraAngle: source.cameraAngle,
+    charactersPresent: [...source.charactersPresent],
+    assignedSceneId: source.assignedSceneId,
+    excludedReferenceIds: source.excludedReferenceIds && [...source.excludedReferenceIds],
+    duration: first.duration,
+  };
+
+  const next = [...frames];
+  next.splice(index, 1, first, second);
+  return renumberFrames(next);
+};
+
+/**
+ * Merges the panel at `index` with the one after it. The merged panel keeps
+ * the first panel's image, scene and camera; text and cast are combined.
+ */
+export const mergeWithNext = (frames: StoryboardFrame[], index: number): StoryboardFrame[] => {
+  const a = frames[index];
+  const b = frames[index + 1];
+  if (!a || !b) return frames;
+
+  const joinText = (x?: string, y?: string) => [x, y].map(s => (s || "").trim()).filter(Boolean).join(" ");
+  const linesB = getDialogueLines(b);
+  const dialogueChanged = linesB.length > 0;
+
+  const merged: StoryboardFrame = {
+    ...a,
+    description: joinText(a.description, b.description),
+    ...withDialogueLines([...getDialogueLines(a), ...linesB]),
+    charactersPresent: Array.from(new Set([...a.charactersPresent, ...b.charactersPresent])),
+    duration: a.duration && b.duration ? a.duration + b.duration : undefined,
+    audioUrl: dialogueChanged ? undefined : a.audioUrl,
+    audioStatus: dialogueChanged ? undefined : a.audioStatus,
+  };
+
+  const next = [...frames];
+  next.splice(index, 2, merged);
+  return renumberFrames(next);
+};
@@ -0,0 +1,89 @@
+import { StyleGuide } from "../types";
+
+// --- Project Style Guide ---
+// The construct*Prompt builders inject the guide so one project can be
+// anime and the next live-action without touching any prompt code.
+
+export interface StylePreset {
+  id: string;
+  label: string;
+  guide: StyleGuide;
+}
+
+export const STYLE_PRESETS: StylePreset[] = [
+  {
+    id: "anime",
+    label: "日系动画",
+    guide: {
+      medium: "2D anime",
+      artStyle: "Anime style masterpiece, Makoto Shinkai inspired backgrounds, clean line art, cel shading",
+      palette: "Vivid saturated colors, luminous skies",
+      lightingMood: "Cinematic lighting, soft bloom",
+      negativeTerms: "photorealistic, 3D render, text, watermark, blurry, extra fingers",
+    },
+  },
+  {
+    id: "live-action",
+    label: "真人影视",
+    guide: {
+      medium: "Live-action film still, shot on 35mm cinema camera",
+      artStyle: "Photorealistic, natural skin texture, shallow depth of field",
+      palette: "Filmic color grading, natural tones",
+      lightingMood: "Motivated practical lighting, cinematic contrast",
+      negativeTerms: "anime, cartoon, illustration, 3D render, plastic skin, text, watermark",
+    },
+  },
+  {
+    id: "3d",
+    label: "3D 动画",
+    guide: {
+      medium: "3D animated feature film render",
+      artStyle: "Stylized 3D characters, subsurface scattering, detailed materials",
+      palette: "Warm, cheerful colors",
+      lightingMood: "Global illumination, soft rim light",
+      negativeTerms: "2D, flat shading, photograph, sketch, text, watermark",
+    },
+  },
+  {
+    id: "ink-wash",
+    label: "水墨国风",
+    guide: {
+      medium: "Traditional Chinese ink wash painting on rice paper",
+      artStyle: "Expressive brush strokes, generous negative space, xieyi freehand style",
+      palette: "Monochrome ink with light vermilion and indigo accents",
+      lightingMood: "Misty, serene atmosphere",
+      negativeTerms: "photorealistic, 3D render, neon colors, anime, text, watermark",
+    },
+  },
+];
+
+// Matches the look the app produced before style guides existed
+export const DEFAULT_STYLE_GUIDE: StyleGuide = { ...STYLE_PRESETS[0].guide, presetId: STYLE_PRESETS[0].id };
+
+export const STYLE_FIELDS: (keyof Omit<StyleGuide, "presetId">)[] = ["medium", "artStyle", "palette", "lightingMood", "negativeTerms"];
+
+/**
+ * Fills missing fields from the default, for projects saved before style guides.
+ */
+export const normalizeStyleGuide = (raw: any): StyleGuide => {
+  if (!raw || typeof raw !== "object") return DEFAULT_STYLE_GUIDE;
+  const guide: StyleGuide = { ...DEFAULT_STYLE_GUIDE, presetId: typeof raw.presetId === "string" ? raw.presetId : undefined };
+  STYLE_FIELDS.forEach(field => {
+    if (typeof raw[field] === "string") guide[field] = raw[field];
+  });
+  return guide;
+};
+
+export const isSameStyle = (a: StyleGuide, b: StyleGuide) => STYLE_FIELDS.every(field => a[field] === b[field]);
+
+/**
+ * One-line description of the look, e.g. for a [Style] prompt section.
+ */
+export const formatStyle = (style: StyleGuide): string =>
+  [style.medium, style.artStyle, style.palette, style.lightingMood].map(s => s.trim()).filter(Boolean).join(", ");
+
+/**
+ * Prompt line listing what to avoid, or "" when there is nothing to avoid.
+ */
+export const formatNegativeTerms = (style: StyleGuide): string =>
+  style.negativeTerms.trim() ? `\n[Avoid] ${style.negativeTerms.trim()}.` : "";
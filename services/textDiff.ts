@@ -0,0 +1,65 @@
+// --- Text Diff ---
+
+export interface DiffSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+// Beyond this many LCS cells, fall back to a line-level diff
+const MAX_TOKEN_CELLS = 4_000_000;
+
+// CJK characters diff individually; latin text diffs by word
+const tokenize = (text: string): string[] =>
+  text.match(/[一-鿿　-〿＀-￯]|[A-Za-z0-9_]+|\s+|[^\sA-Za-z0-9_]/g) || [];
+
+const diffTokens = (a: string[], b: string[]): DiffSegment[] => {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < n) push("removed", a[i++]);
+  while (j < m) push("added", b[j++]);
+  return segments;
+};
+
+/**
+ * Diffs two texts, returning segments that turn `before` into `after`.
+ */
+export const diffText = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if ((a.length + 1) * (b.length + 1) <= MAX_TOKEN_CELLS) {
+    return diffTokens(a, b);
+  }
+  const splitLines = (text: string) => text.split(/(?<=\n)/);
+  return diffTokens(splitLines(before), splitLines(after));
+};
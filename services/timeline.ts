@@ -0,0 +1,67 @@
+import { FrameTransition, StoryboardFrame } from "../types";
+import { renumberFrames } from "./storyboardEdit";
+
+// Seconds on screen for frames with neither an explicit duration nor a dialogue clip
+export const DEFAULT_FRAME_DURATION = 3;
+
+// The platform's episode length window, in seconds
+export const TARGET_RUNTIME_MIN = 60;
+export const TARGET_RUNTIME_MAX = 120;
+
+export const TRANSITION_OPTIONS: { id: FrameTransition; label: string }[] = [
+  { id: "cut", label: "硬切 (Cut)" },
+  { id: "fade", label: "黑场 (Fade)" },
+  { id: "dissolve", label: "叠化 (Dissolve)" },
+];
+
+export interface TimelineClip {
+  frame: StoryboardFrame;
+  start: number;
+  duration: number;
+  audioDuration?: number;
+}
+
+/**
+ * How long a frame stays on screen: its explicit duration if set,
+ * otherwise its dialogue clip, otherwise the default.
+ */
+export const getFrameDuration = (frame: StoryboardFrame, audioDuration: number | undefined, defaultDuration: number = DEFAULT_FRAME_DURATION): number => {
+  if (frame.duration && frame.duration > 0) return frame.duration;
+  if (audioDuration && audioDuration > 0) return audioDuration;
+  return defaultDuration;
+};
+
+/**
+ * Lays frames out back to back. `audioDurations` maps audio URLs to seconds.
+ */
+export const buildTimeline = (
+  frames: StoryboardFrame[],
+  audioDurations: Record<string, number>,
+  defaultDuration: number = DEFAULT_FRAME_DURATION
+): { clips: TimelineClip[]; totalDuration: number } => {
+  let cursor = 0;
+  const clips = frames.map(frame => {
+    const audioDuration = frame.audioUrl ? audioDurations[frame.audioUrl] : undefined;
+    const duration = getFrameDuration(frame, audioDuration, defaultDuration);
+    const clip = { frame, start: cursor, duration, audioDuration };
+    cursor += duration;
+    return clip;
+  });
+  return { clips, totalDuration: cursor };
+};
+
+export const formatTimecode = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds - m * 60;
+  return `${String(m).padStart(2, "0")}:${s.toFixed(1).padStart(4, "0")}`;
+};
+
+/**
+ * Moves a frame to a new position and renumbers panels to match the new order.
+ */
+export const moveFrame = (frames: StoryboardFrame[], fromIndex: number, toIndex: number): StoryboardFrame[] => {
+  const next = [...frames];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return renumberFrames(next);
+};
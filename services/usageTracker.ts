@@ -0,0 +1,181 @@
+import { useSyncExternalStore } from "react";
+import { UsageRecord } from "../types";
+import { AICapability, resolveImageProvider, resolveSpeechProvider, resolveTextProvider } from "./providers";
+
+// --- Usage & Cost Accounting ---
+// geminiService records every AI call here. The store holds the open
+// project's records and budget; App loads them on open and persists them.
+
+const PRICE_TABLE_KEY = "huanxi_price_table";
+
+// Used to estimate a call that has no history yet
+const TYPICAL_IMAGE_OUTPUT_TOKENS = 1290;
+// A script chunk plus instructions in, a structured panel list out
+const TYPICAL_TEXT_INPUT_TOKENS = 4000;
+const TYPICAL_TEXT_OUTPUT_TOKENS = 3000;
+const TYPICAL_CLIP_SECONDS = 6;
+const TTS_TOKENS_PER_SECOND = 25;
+
+/** Prices in USD. Token prices are per million tokens. */
+export interface PriceEntry {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+  perAudioMinute: number;
+}
+
+// Approximate list prices; editable in Settings
+export const DEFAULT_PRICE_TABLE: PriceEntry[] = [
+  { model: "gemini-2.5-flash", inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0, perAudioMinute: 0 },
+  { model: "gemini-2.5-pro", inputPerMillion: 1.25, outputPerMillion: 10, perImage: 0, perAudioMinute: 0 },
+  { model: "gemini-2.5-flash-lite", inputPerMillion: 0.1, outputPerMillion: 0.4, perImage: 0, perAudioMinute: 0 },
+  { model: "gemini-2.5-flash-image", inputPerMillion: 0.3, outputPerMillion: 30, perImage: 0, perAudioMinute: 0 },
+  { model: "imagen-3.0-generate-001", inputPerMillion: 0, outputPerMillion: 0, perImage: 0.03, perAudioMinute: 0 },
+  { model: "imagen-4.0-generate-001", inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04, perAudioMinute: 0 },
+  { model: "gemini-2.5-flash-preview-tts", inputPerMillion: 0.5, outputPerMillion: 10, perImage: 0, perAudioMinute: 0 },
+  { model: "gemini-2.5-pro-preview-tts", inputPerMillion: 1, outputPerMillion: 20, perImage: 0, perAudioMinute: 0 },
+  { model: "gpt-4o-mini", inputPerMillion: 0.15, outputPerMillion: 0.6, perImage: 0, perAudioMinute: 0 },
+  { model: "gpt-4o", inputPerMillion: 2.5, outputPerMillion: 10, perImage: 0, perAudioMinute: 0 },
+  { model: "gpt-image-1", inputPerMillion: 5, outputPerMillion: 40, perImage: 0, perAudioMinute: 0 },
+  { model: "dall-e-3", inputPerMillion: 0, outputPerMillion: 0, perImage: 0.08, perAudioMinute: 0 },
+  { model: "gpt-4o-mini-tts", inputPerMillion: 0, outputPerMillion: 0, perImage: 0, perAudioMinute: 0.015 },
+  { model: "tts-1", inputPerMillion: 0, outputPerMillion: 0, perImage: 0, perAudioMinute: 0.015 },
+];
+
+export const getPriceTable = (): PriceEntry[] => {
+  try {
+    const saved = localStorage.getItem(PRICE_TABLE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to load price table", e);
+  }
+  return DEFAULT_PRICE_TABLE;
+};
+
+export const savePriceTable = (table: PriceEntry[]) => {
+  localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(table));
+  emit();
+};
+
+const findPrice = (table: PriceEntry[], model: string) => table.find(p => p.model === model);
+
+/**
+ * Estimated USD cost of one recorded call. Models missing from the price
+ * table (e.g. the mock provider, local Stable Diffusion) cost nothing.
+ */
+export const estimateRecordCost = (record: UsageRecord, table: PriceEntry[] = getPriceTable()): number => {
+  const price = findPrice(table, record.model);
+  if (!price) return 0;
+  return (
+    ((record.inputTokens || 0) * price.inputPerMillion) / 1_000_000 +
+    ((record.outputTokens || 0) * price.outputPerMillion) / 1_000_000 +
+    (record.imageCount || 0) * price.perImage +
+    ((record.audioSeconds || 0) / 60) * price.perAudioMinute
+  );
+};
+
+export const formatUSD = (value: number) => `$${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+
+// --- Project usage store ---
+
+let records: UsageRecord[] = [];
+let budget: number | undefined;
+// Bumped by edits but not by loading, so App autosaves only real changes
+let revision = 0;
+let snapshot = { records, budget, revision };
+const listeners = new Set<() => void>();
+
+const emit = () => {
+  snapshot = { records, budget, revision };
+  listeners.forEach(l => l());
+};
+
+const commit = () => {
+  revision++;
+  emit();
+};
+
+/**
+ * Replaces the store contents with the usage of a newly opened project.
+ */
+export const loadProjectUsage = (projectRecords: UsageRecord[], projectBudget?: number) => {
+  records = projectRecords;
+  budget = projectBudget;
+  emit();
+};
+
+export const recordUsage = (record: Omit<UsageRecord, "id" | "timestamp">): UsageRecord => {
+  const entry = { ...record, id: crypto.randomUUID(), timestamp: Date.now() };
+  records = [...records, entry];
+  commit();
+  return entry;
+};
+
+export const setBudget = (value: number | undefined) => {
+  budget = value && value > 0 ? value : undefined;
+  commit();
+};
+
+export const clearUsage = () => {
+  records = [];
+  commit();
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Live usage records and budget of the open project.
+ */
+export const useProjectUsage = () => useSyncExternalStore(subscribe, () => snapshot);
+
+export const getTotalCost = (table: PriceEntry[] = getPriceTable()) =>
+  records.reduce((sum, r) => sum + estimateRecordCost(r, table), 0);
+
+/**
+ * Expected cost of one more call (one image, for images) of this capability
+ * with the current model: the project's average so far, or a typical call
+ * priced from the table.
+ */
+export const estimateCallCost = (capability: AICapability): number => {
+  const table = getPriceTable();
+  const { model } =
+    capability === "image" ? resolveImageProvider() : capability === "speech" ? resolveSpeechProvider() : resolveTextProvider();
+  const history = records.filter(r => r.capability === capability && r.model === model);
+  if (history.length > 0) {
+    const cost = history.reduce((sum, r) => sum + estimateRecordCost(r, table), 0);
+    // Image calls may return several candidates; estimate per image
+    const units = capability === "image"
+      ? history.reduce((sum, r) => sum + (r.imageCount || 1), 0)
+      : history.length;
+    return cost / units;
+  }
+
+  const typical: Omit<UsageRecord, "id" | "timestamp"> =
+    capability === "image"
+      ? { capability, provider: "", model, imageCount: 1, outputTokens: TYPICAL_IMAGE_OUTPUT_TOKENS }
+      : capability === "speech"
+        ? { capability, provider: "", model, audioSeconds: TYPICAL_CLIP_SECONDS, outputTokens: TYPICAL_CLIP_SECONDS * TTS_TOKENS_PER_SECOND }
+        : { capability, provider: "", model, inputTokens: TYPICAL_TEXT_INPUT_TOKENS, outputTokens: TYPICAL_TEXT_OUTPUT_TOKENS };
+  return estimateRecordCost({ ...typical, id: "", timestamp: 0 }, table);
+};
+
+export interface BudgetOverrun {
+  spent: number;
+  batchCost: number;
+  budget: number;
+}
+
+/**
+ * What a batch of `count` calls (images, for images) would cost when it
+ * would push the project past its budget; null when it fits or no budget is set.
+ */
+export const checkBudget = (capability: AICapability, count: number): BudgetOverrun | null => {
+  if (budget === undefined) return null;
+  const spent = getTotalCost();
+  const batchCost = estimateCallCost(capability) * count;
+  return spent + batchCost > budget ? { spent, batchCost, budget } : null;
+};
@@ -0,0 +1,98 @@
+import { Character, StoryboardFrame } from "../types";
+import { findSpeaker, getSpokenLines } from "./dialogue";
+
+// --- Voice Casting ---
+// Prebuilt TTS voices a character can be cast with. Names follow Gemini's
+// catalog; other speech providers map them to their own stock voices.
+
+export type VoiceGender = "female" | "male";
+
+export interface VoiceOption {
+  id: string;
+  gender: VoiceGender;
+  trait: string; // Short character of the voice, shown next to its name
+}
+
+export const VOICE_CATALOG: VoiceOption[] = [
+  { id: "Zephyr", gender: "female", trait: "明亮" },
+  { id: "Kore", gender: "female", trait: "坚定" },
+  { id: "Leda", gender: "female", trait: "青春" },
+  { id: "Aoede", gender: "female", trait: "轻快" },
+  { id: "Callirrhoe", gender: "female", trait: "随和" },
+  { id: "Autonoe", gender: "female", trait: "明亮" },
+  { id: "Despina", gender: "female", trait: "圆润" },
+  { id: "Erinome", gender: "female", trait: "清晰" },
+  { id: "Laomedeia", gender: "female", trait: "欢快" },
+  { id: "Achernar", gender: "female", trait: "柔和" },
+  { id: "Gacrux", gender: "female", trait: "成熟" },
+  { id: "Pulcherrima", gender: "female", trait: "直率" },
+  { id: "Vindemiatrix", gender: "female", trait: "温柔" },
+  { id: "Sulafat", gender: "female", trait: "温暖" },
+  { id: "Puck", gender: "male", trait: "活泼" },
+  { id: "Charon", gender: "male", trait: "沉稳" },
+  { id: "Fenrir", gender: "male", trait: "激昂" },
+  { id: "Orus", gender: "male", trait: "坚定" },
+  { id: "Enceladus", gender: "male", trait: "气声" },
+  { id: "Iapetus", gender: "male", trait: "清晰" },
+  { id: "Umbriel", gender: "male", trait: "随和" },
+  { id: "Algieba", gender: "male", trait: "圆润" },
+  { id: "Algenib", gender: "male", trait: "沙哑" },
+  { id: "Rasalgethi", gender: "male", trait: "沉稳" },
+  { id: "Alnilam", gender: "male", trait: "坚定" },
+  { id: "Schedar", gender: "male", trait: "平稳" },
+  { id: "Achird", gender: "male", trait: "友善" },
+  { id: "Zubenelgenubi", gender: "male", trait: "随性" },
+  { id: "Sadachbia", gender: "male", trait: "活泼" },
+  { id: "Sadaltager", gender: "male", trait: "博学" },
+];
+
+export const DEFAULT_VOICE = "Kore";
+export const DEFAULT_NARRATOR_VOICE = "Charon";
+
+export const GENDER_LABELS: Record<VoiceGender, string> = { female: "女声", male: "男声" };
+
+export const isKnownVoice = (id: any): id is string => VOICE_CATALOG.some(v => v.id === id);
+
+export const normalizeVoice = (raw: any, fallback: string): string => isKnownVoice(raw) ? raw : fallback;
+
+export const getVoiceLabel = (id: string) => {
+  const voice = VOICE_CATALOG.find(v => v.id === id);
+  return voice ? `${voice.id} (${GENDER_LABELS[voice.gender]}·${voice.trait})` : id;
+};
+
+export interface VoiceSuggestion {
+  characterId: string;
+  voiceName: string;
+  reason: string;
+}
+
+export const getCharacterVoice = (character: Character) => character.defaultVoice || DEFAULT_VOICE;
+
+export interface VoiceChange extends VoiceSuggestion {
+  characterName: string;
+  currentVoice: string;
+}
+
+/**
+ * Pairs each suggestion with the character's current voice. Suggestions for
+ * unknown characters or that keep the current voice are left out.
+ */
+export const diffVoiceSuggestions = (suggestions: VoiceSuggestion[], characters: Character[]): VoiceChange[] =>
+  suggestions.flatMap(suggestion => {
+    const character = characters.find(c => c.id === suggestion.characterId);
+    if (!character) return [];
+    const currentVoice = getCharacterVoice(character);
+    return currentVoice === suggestion.voiceName ? [] : [{ ...suggestion, characterName: character.name, currentVoice }];
+  });
+
+/**
+ * Something for the character to say when auditioning a voice: their own
+ * first line in the storyboard, or a self-introduction.
+ */
+export const getSampleLine = (character: Character, frames: StoryboardFrame[]): string => {
+  for (const frame of frames) {
+    const line = getSpokenLines(frame).find(l => findSpeaker(l, [character]));
+    if (line) return line.text;
+  }
+  return `你好，我是${character.name}。`;
+};
@@ -1,9 +1,36 @@
+// One generated (or uploaded) take of an image
+export interface ImageVersion {
+  id: string;
+  imageUrl: string;
+  prompt: string;
+  model: string; // "upload" for user-supplied images
+  createdAt: number;
+  parentId?: string; // The take this one was edited from
+  editChain?: string[]; // Edit instructions applied since the last full generation, oldest first
+  inpaint?: ImageInpaint; // Set when this take repainted only a masked region of its parent
+}
+
+// Everything needed to repeat a masked repaint
+export interface ImageInpaint {
+  maskUrl: string; // Black/white PNG, white = repainted region
+  prompt: string;
+}
+
+// All takes of one image slot; the active take mirrors the owner's URL field
+export interface ImageHistory {
+  versions: ImageVersion[];
+  activeId?: string;
+}
+
 export interface Character {
   id: string;
   name: string;
   description: string;
   visualPrompt: string; // The "DNA" of the character (Chinese/English)
   imageUrl?: string;
+  imageHistory?: ImageHistory;
+  candidates?: ImageVersion[]; // Takes waiting to be picked
+  styleStale?: boolean; // The project style changed since this image was generated
   defaultVoice?: string; // Voice ID for TTS
 }
 
@@ -14,24 +41,87 @@ export interface Scene {
   visualPrompt: string; // The "DNA" of the environment
   imageUrl?: string; // Panorama / Main shot
   gridUrl?: string;  // 9-Grid / Multi-angle details
+  imageHistory?: ImageHistory;
+  gridHistory?: ImageHistory;
+  candidates?: ImageVersion[]; // Panorama takes waiting to be picked
+  styleStale?: boolean; // The project style changed since the panorama was generated
+  gridStyleStale?: boolean; // Same for the detail grid
+}
+
+export type DialogueLineType = 'dialogue' | 'monologue' | 'narration' | 'offscreen';
+
+export type SpeechRate = 'slow' | 'normal' | 'fast';
+export type SpeechVolume = 'whisper' | 'normal' | 'shout';
+
+// How a line should be performed; unset fields leave it to the voice
+export interface LineDirection {
+  emotion?: string; // e.g. "愤怒", "犹豫"
+  intensity?: number; // 1 (restrained) to 5 (overwhelming)
+  rate?: SpeechRate;
+  volume?: SpeechVolume;
+  actingNote?: string; // Free text, e.g. "强忍泪水，最后一个字几乎听不见"
+}
+
+// One spoken line in a panel, voiced by its own speaker
+export interface DialogueLine extends LineDirection {
+  id: string;
+  speaker: string; // Character name; empty for the narrator
+  type: DialogueLineType;
+  text: string;
 }
 
 export interface ScriptPanel {
   panelNumber: number;
   description: string;
   charactersPresent: string[]; // Names of characters
-  dialogue?: string;
+  dialogue?: string; // Readable summary of `lines`; the only source in projects saved before lines existed
+  lines?: DialogueLine[];
   cameraAngle?: string;
 }
 
+export type FrameTransition = 'cut' | 'fade' | 'dissolve';
+
 export interface StoryboardFrame extends ScriptPanel {
   id: string;
   generatedImageUrl?: string;
+  imageHistory?: ImageHistory;
+  candidates?: ImageVersion[]; // Takes waiting to be picked
+  styleStale?: boolean; // The project style changed since this image was generated
   currentPrompt: string;
+  promptLocked?: boolean; // Locked prompts are used verbatim and never auto-rebuilt
   status: 'pending' | 'generating' | 'done' | 'error';
   assignedSceneId?: string;
   audioUrl?: string; // Generated TTS Audio
   audioStatus?: 'idle' | 'generating' | 'done' | 'error';
+  duration?: number; // Explicit seconds on screen; unset = dialogue clip length or the default
+  transition?: FrameTransition; // How this frame enters from the previous one (default: cut)
+  excludedReferenceIds?: string[]; // Character/scene ids whose images are NOT sent as references
+  renditions?: Partial<Record<OutputFormat, ImageVersion>>; // Reframed copies for other deliveries; parentId = source take
+}
+
+export type MixTrackKind = 'music' | 'sfx';
+
+// An imported music or effect file placed on the timeline. It is anchored to
+// a frame, so it follows that frame when shots are reordered or retimed.
+export interface MixTrack {
+  id: string;
+  kind: MixTrackKind;
+  name: string; // File name as imported
+  audioUrl: string;
+  anchorFrameId: string;
+  offset: number; // Seconds after the anchor frame starts
+  length?: number; // Seconds to play; unset = the whole file, or to the end of the timeline when looping
+  loop?: boolean;
+  volume: number; // 0-1
+  fadeIn: number; // Seconds
+  fadeOut: number;
+  muted?: boolean;
+}
+
+export interface AudioMix {
+  tracks: MixTrack[];
+  dialogueVolume: number; // 0-1
+  duckingDb: number; // How far music drops under dialogue; 0 disables ducking
 }
 
 export enum AppTab {
@@ -39,6 +129,60 @@ export enum AppTab {
   CHARACTERS = 'CHARACTERS', // Step 2
   SCENES = 'SCENES',         // Step 3
   STORYBOARD = 'STORYBOARD', // Step 4
-  AUDIO = 'AUDIO',           // Step 5 (New)
+  AUDIO = 'AUDIO',           // Step 5
+  TIMELINE = 'TIMELINE',     // Step 6
   SETTINGS = 'SETTINGS',
-}
\ No newline at end of file
+}
+
+// Frame shape of the finished video
+export type OutputFormat = '16:9' | '9:16' | '1:1' | '4:3' | '3:4';
+
+// Project-wide look injected into every image prompt
+export interface StyleGuide {
+  presetId?: string; // Preset the guide started from; unset once hand-edited
+  medium: string;       // e.g. "2D hand-drawn animation", "Live-action film still"
+  artStyle: string;
+  palette: string;
+  lightingMood: string;
+  negativeTerms: string; // Comma-separated things to avoid
+}
+
+// One billable AI call
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  capability: 'text' | 'image' | 'speech';
+  provider: string;
+  model: string;
+  inputTokens?: number;  // As reported by the API, when available
+  outputTokens?: number;
+  imageCount?: number;
+  audioSeconds?: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  characters: Character[];
+  scenes: Scene[];
+  script: string;
+  frames: StoryboardFrame[];
+  usage: UsageRecord[];
+  budget?: number; // Spending cap in USD; unset = no cap
+  styleGuide: StyleGuide;
+  outputFormat: OutputFormat;
+  narratorVoice: string; // Voice for narration and speakers outside the cast
+  mix: AudioMix;
+}
+
+// Lightweight listing record so the picker doesn't have to load every image
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  frameCount: number;
+  thumbnailUrl?: string;
+}